@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from "react";
 import { computeCone, defaultHalfAngleDegFromMph, mpsToMph, WindData } from "@/lib/cone";
+import { formatSpeed, type UnitSystem } from "@/lib/units";
 
 type Props = {
   width: number;
@@ -11,6 +12,7 @@ type Props = {
   label?: string;
   onClick?: (pt: { x: number; y: number }) => void;
   backgroundImage?: HTMLImageElement | null; // screenshot mode
+  units?: UnitSystem;
 };
 
 export default function ConeCanvas(props: Props) {
@@ -93,7 +95,7 @@ export default function ConeCanvas(props: Props) {
     ctx.setLineDash([]);
 
     // label
-    const speedStr = `${mph.toFixed(1)} mph`;
+    const speedStr = formatSpeed(props.wind.wind_speed_mps, props.units ?? "imperial");
     const from = Math.round(props.wind.wind_dir_from_deg);
     const down = Math.round(g.downwindDeg);
 
@@ -113,6 +115,7 @@ export default function ConeCanvas(props: Props) {
     props.halfAngleDeg,
     props.label,
     props.backgroundImage,
+    props.units,
   ]);
 
   return (
@@ -133,6 +136,7 @@ export async function downloadDataUrlPNG_ICS(
     notes?: string;
     lat?: number;
     lon?: number;
+    location?: string; // preformatted position (USNG, DMS...); lat/lon are printed when absent
     windSource?: string;
     windFromDeg?: number;
     windSpeedMps?: number;
@@ -141,6 +145,7 @@ export async function downloadDataUrlPNG_ICS(
     timeUtc?: string;
     coneLengthPx?: number;
     coneHalfAngleDeg?: number | "auto";
+    basemap?: string;
   }
 ): Promise<void> {
   const img = new Image();
@@ -191,14 +196,14 @@ export async function downloadDataUrlPNG_ICS(
       : "n/a";
 
   ctx.fillText(
-    `Location: ${meta.lat?.toFixed(6) ?? "n/a"}, ${meta.lon?.toFixed(6) ?? "n/a"}   |   ${windStr} @ ${speedStr}`,
+    `Location: ${meta.location ?? `${meta.lat?.toFixed(6) ?? "n/a"}, ${meta.lon?.toFixed(6) ?? "n/a"}`}   |   ${windStr} @ ${speedStr}`,
     16,
     baseH + 78
   );
 
   // Line 3
   ctx.fillText(
-    `Cone: length=${meta.coneLengthPx ?? "n/a"}px   half-angle=${meta.coneHalfAngleDeg ?? "n/a"}`,
+    `Cone: length=${meta.coneLengthPx ?? "n/a"}px   half-angle=${meta.coneHalfAngleDeg ?? "n/a"}${meta.basemap ? `   |   Basemap: ${meta.basemap}` : ""}`,
     16,
     baseH + 101
   );
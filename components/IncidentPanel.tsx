@@ -0,0 +1,107 @@
+import React, { useState } from "react";
+import type { AppMode, IncidentRecord } from "@/lib/incident";
+
+export type SaveStatus = "idle" | "saving" | "saved" | "error";
+
+type Props = {
+  current: IncidentRecord | null;
+  incidents: IncidentRecord[];
+  saveStatus: SaveStatus;
+  showArchived: boolean;
+  onShowArchivedChange: (on: boolean) => void;
+
+  onRename: (name: string) => void;
+  onNew: (mode: AppMode) => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+};
+
+function statusText(s: SaveStatus) {
+  switch (s) {
+    case "saving": return "Saving…";
+    case "saved": return "Saved on this device";
+    case "error": return "Not saved (storage unavailable)";
+    default: return "";
+  }
+}
+
+export default function IncidentPanel(props: Props) {
+  const [showList, setShowList] = useState(false);
+
+  return (
+    <div className="section">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <b>Incident</b>
+        <span className="small">{statusText(props.saveStatus)}</span>
+      </div>
+
+      <label className="label">Name</label>
+      <input
+        className="input"
+        value={props.current?.name ?? ""}
+        disabled={!props.current}
+        onChange={(e) => props.onRename(e.target.value)}
+      />
+
+      <div className="row" style={{ marginTop: 10 }}>
+        <button className="btn" style={{ flex: 1 }} onClick={() => props.onNew("live")}>New incident</button>
+        <button className="btn" style={{ flex: 1 }} onClick={() => props.onNew("scenario")}>New scenario</button>
+      </div>
+
+      <button className="btn btnWide" style={{ marginTop: 10 }} onClick={() => setShowList((p) => !p)}>
+        {showList ? "Hide saved incidents" : `Saved incidents (${props.incidents.length})`}
+      </button>
+
+      {showList && (
+        <>
+          <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <input type="checkbox" checked={props.showArchived} onChange={(e) => props.onShowArchivedChange(e.target.checked)} />
+            Show archived
+          </label>
+
+          <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+            {props.incidents.length === 0 && <div className="small">No saved incidents.</div>}
+
+            {props.incidents.map((r) => {
+              const isCurrent = props.current?.id === r.id;
+              return (
+                <div key={r.id} style={{ borderTop: "1px solid rgba(255,255,255,0.10)", paddingTop: 8 }}>
+                  <div style={{ fontSize: 13, color: "rgba(255,255,255,0.9)", fontWeight: isCurrent ? 800 : 500 }}>
+                    {r.name}
+                  </div>
+                  <div className="small">
+                    {r.mode === "scenario" ? "Scenario" : "Live"} • updated {new Date(r.updatedISO).toLocaleString()}
+                    {r.archived ? " • archived" : ""}
+                    {isCurrent ? " • open" : ""}
+                  </div>
+                  <div className="row" style={{ marginTop: 6, flexWrap: "wrap" }}>
+                    <button className="btn" style={{ padding: "6px 10px" }} disabled={isCurrent} onClick={() => props.onOpen(r.id)}>
+                      Open
+                    </button>
+                    <button className="btn" style={{ padding: "6px 10px" }} onClick={() => props.onDuplicate(r.id)}>
+                      Duplicate
+                    </button>
+                    <button className="btn" style={{ padding: "6px 10px" }} onClick={() => props.onArchive(r.id, !r.archived)}>
+                      {r.archived ? "Unarchive" : "Archive"}
+                    </button>
+                    <button
+                      className="btn"
+                      style={{ padding: "6px 10px" }}
+                      onClick={() => {
+                        if (confirm(`Delete "${r.name}"? This cannot be undone.`)) props.onDelete(r.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
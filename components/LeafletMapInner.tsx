@@ -2,24 +2,37 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   MapContainer,
   TileLayer,
+  Circle,
   CircleMarker,
+  ImageOverlay,
   Marker,
   Popup,
   Polygon,
+  Polyline,
   useMap,
   useMapEvents,
 } from "react-leaflet";
 import L from "leaflet";
 import type { LatLngExpression, Map as LeafletMap } from "leaflet";
+import { TRAP_TYPES, type TrapType } from "@/lib/traps";
+import { TERRAIN_INFO } from "@/lib/landCover";
+import { BARRIER_KINDS, type BarrierKind } from "@/lib/barriers";
+import { formatCoord, type CoordFormat } from "@/lib/coords";
+import { formatSpeed, type UnitSystem } from "@/lib/units";
+import { mphToMps } from "@/lib/cone";
+import { destination } from "@/lib/geo";
+import { HILLSHADE_TILES, type Basemap } from "@/lib/basemaps";
+import type { Symbology } from "@/lib/symbology";
 
 type LatLon = { lat: number; lon: number };
-type Trap = { id: string; lat: number; lon: number; label: string };
-type LKP = { id: string; lat: number; lon: number; timeISO: string; label?: string };
+type Trap = { id: string; lat: number; lon: number; label: string; type?: TrapType; radiusM?: number; orientationDeg?: number };
+type LKP = { id: string; lat: number; lon: number; timeISO: string; label?: string; kind?: "lkp" | "clue"; color?: string; hidden?: boolean };
 
+// each zone: polygons -> rings (outer first, then holes)
 type EnvelopePolys = {
-  core: LatLon[];
-  fringe: LatLon[];
-  residual: LatLon[];
+  core: LatLon[][][];
+  fringe: LatLon[][][];
+  residual: LatLon[][][];
 };
 
 type Band = {
@@ -31,6 +44,20 @@ type Band = {
 
 type StartPoint = { label: string; point: LatLon };
 
+type SourceEnvelope = { id: string; color: string; polygons: EnvelopePolys };
+
+type DogAlert = { id: string; lat: number; lon: number; timeISO: string; strength: "interest" | "alert"; label?: string; wind_from_deg: number; wind_speed_mph: number };
+type SourceArea = { polygons: LatLon[][][]; score: number; agreeing: number; total: number };
+
+type Track = { id: string; name: string; team: string; color: string; points: LatLon[] };
+type CoverageGap = { zone: keyof EnvelopePolys; polygon: LatLon[] };
+
+type LandCover = { id: string; terrain: keyof typeof TERRAIN_INFO; label: string; polygon: LatLon[] };
+type Barrier = { id: string; kind: BarrierKind; label: string; points: LatLon[]; closed: boolean };
+type ClippedPiece = { zone: keyof EnvelopePolys; polygon: LatLon[][] };
+
+type TeamAssignment = { id: string; team: string; callSign: string; color: string; target: string; status: string; done: boolean; point: LatLon; polygons?: LatLon[][][] };
+
 type Props = {
   center: LatLngExpression;
   zoom: number;
@@ -50,18 +77,166 @@ type Props = {
   showEnvelope: boolean;
   envelopeNow: EnvelopePolys | null;
   envelopeBands: Band[] | null;
+  // several LKPs/clues: either each in its own color or merged per zone
+  sourceEnvelopes?: SourceEnvelope[] | null;
+  mergedEnvelope?: EnvelopePolys | null;
   startPoints?: StartPoint[] | null;
+  // zone/band/marker colors; bands are labeled at the tip farthest from bandOrigin
+  symbology: Symbology;
+  bandOrigin?: LatLon | null;
+
+  // Team tracks + unworked parts of the envelope
+  tracks?: Track[];
+  coverageGaps?: CoverageGap[] | null;
+
+  // K9 teams at their assigned start points / envelope sectors
+  assignments?: TeamAssignment[];
+
+  // Dog alerts, their upwind cones and where those overlap
+  alerts?: DogAlert[];
+  alertCones?: { id: string; polygon: LatLon[] }[];
+  sourceArea?: SourceArea | null;
+
+  // Land-cover patches and the one being drawn
+  landCover?: LandCover[];
+  coverDraft?: LatLon[] | null;
+
+  // Barriers, the one being drawn, and the envelope parts they cut off
+  barriers?: Barrier[];
+  barrierDraft?: { points: LatLon[]; closed: boolean } | null;
+  clippedEnvelope?: ClippedPiece[] | null;
+
+  // Basemap, the tiled relief drawn over it, and the hillshade rendered from the local DEM
+  basemap: Basemap;
+  hillshadeTiles?: boolean;
+  hillshadeOpacity?: number;
+  hillshade?: { url: string; bounds: [[number, number], [number, number]] } | null;
 
   // Markers
   traps: Trap[];
+  flaggedTrapIds?: string[] | null; // traps the envelope marks as likely collection points
   lkps: LKP[];
   activeLkpId: string | null;
+
+  // how marker popups show positions (defaults to decimal degrees)
+  coordFormat?: CoordFormat;
+  units?: UnitSystem; // wind speeds in popups (defaults to imperial)
+
+  // measuring tool: first point, or both ends
+  measureLine?: LatLon[] | null;
 };
 
 function polyToTuples(poly: LatLon[]) {
   return poly.map((p) => [p.lat, p.lon] as [number, number]);
 }
 
+function shapeToTuples(shape: LatLon[][][]) {
+  return shape.map((rings) => rings.map(polyToTuples));
+}
+
+function dotIcon(color: string, r = 10) {
+  const size = r * 2 + 6;
+  return L.icon({
+    iconUrl:
+      "data:image/svg+xml;charset=UTF-8," +
+      encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}"><circle cx="${size / 2}" cy="${size / 2}" r="${r}" fill="${color}" stroke="white" stroke-width="2"/></svg>`
+      ),
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+function trapIcon(type: TrapType, flagged: boolean) {
+  const { symbol, color } = TRAP_TYPES[type];
+  const ring = flagged ? `<rect x="1" y="1" width="28" height="28" rx="7" fill="none" stroke="#f97316" stroke-width="2.5"/>` : "";
+  return L.icon({
+    iconUrl:
+      "data:image/svg+xml;charset=UTF-8," +
+      encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="30" height="30">${ring}<rect x="5" y="5" width="20" height="20" rx="4" fill="${color}" stroke="white" stroke-width="2"/><text x="15" y="19.5" font-family="sans-serif" font-size="12" font-weight="700" text-anchor="middle" fill="white">${symbol}</text></svg>`
+      ),
+    iconSize: [30, 30],
+    iconAnchor: [15, 15],
+  });
+}
+
+// LKP: a pin standing on the point; clue: a smaller diamond centred on it
+function sourceIcon(color: string, kind: "lkp" | "clue") {
+  if (kind === "clue") {
+    return L.icon({
+      iconUrl:
+        "data:image/svg+xml;charset=UTF-8," +
+        encodeURIComponent(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20"><rect x="4" y="4" width="12" height="12" transform="rotate(45 10 10)" fill="${color}" stroke="white" stroke-width="2"/></svg>`
+        ),
+      iconSize: [20, 20],
+      iconAnchor: [10, 10],
+    });
+  }
+  return L.icon({
+    iconUrl:
+      "data:image/svg+xml;charset=UTF-8," +
+      encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="26" height="36"><path d="M13 34 C13 34 2 20 2 13 A11 11 0 0 1 24 13 C24 20 13 34 13 34 Z" fill="${color}" stroke="white" stroke-width="2"/><circle cx="13" cy="13" r="4" fill="white"/></svg>`
+      ),
+    iconSize: [26, 36],
+    iconAnchor: [13, 34],
+  });
+}
+
+// numbered triangle for a recommended start point
+function startIcon(color: string, n: number) {
+  return L.icon({
+    iconUrl:
+      "data:image/svg+xml;charset=UTF-8," +
+      encodeURIComponent(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="28" height="26"><path d="M14 2 L26 24 L2 24 Z" fill="${color}" stroke="white" stroke-width="2" stroke-linejoin="round"/><text x="14" y="21" font-family="sans-serif" font-size="11" font-weight="700" text-anchor="middle" fill="white">${n}</text></svg>`
+      ),
+    iconSize: [28, 26],
+    iconAnchor: [14, 16],
+  });
+}
+
+function bandLabelIcon(minutes: number, color: string) {
+  return L.divIcon({
+    className: "",
+    html: `<span style="display:inline-block;transform:translate(-50%,-50%);white-space:nowrap;font:600 11px system-ui,sans-serif;color:${color};background:rgba(255,255,255,0.85);border:1px solid ${color};border-radius:8px;padding:0 5px">${minutes} min</span>`,
+    iconSize: [0, 0],
+  });
+}
+
+// team name tag in the team color; faded once the team has returned
+function teamTagIcon(team: string, color: string, done: boolean) {
+  const name = team.replace(/[&<>"]/g, (c) => `&#${c.charCodeAt(0)};`);
+  return L.divIcon({
+    className: "",
+    html: `<span style="display:inline-block;transform:translate(-50%,-50%);white-space:nowrap;font:700 11px system-ui,sans-serif;color:white;background:${color};border:2px solid white;border-radius:4px;padding:1px 5px;box-shadow:0 1px 3px rgba(0,0,0,0.4);opacity:${done ? 0.55 : 1}">${name}</span>`,
+    iconSize: [0, 0],
+  });
+}
+
+// the band's downwind tip: the vertex farthest from the source
+function farthestFrom(poly: LatLon[], o: LatLon): LatLon | null {
+  const k = Math.cos((o.lat * Math.PI) / 180);
+  let best: LatLon | null = null;
+  let bestD = -1;
+  for (const p of poly) {
+    const d = (p.lat - o.lat) ** 2 + ((p.lon - o.lon) * k) ** 2;
+    if (d > bestD) {
+      bestD = d;
+      best = p;
+    }
+  }
+  return best;
+}
+
+// end points of a linear trap's axis across its radius
+function trapAxis(t: Trap, radiusM: number): [number, number][] {
+  const br = t.orientationDeg ?? 0;
+  return polyToTuples([destination(t, br + 180, radiusM), destination(t, br, radiusM)]);
+}
+
 function MapEvents({
   onMapClick,
   onViewChanged,
@@ -184,23 +359,45 @@ function UserLocator({
 }
 
 export default function LeafletMapInner(props: Props) {
-  const tileUrl = "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png";
-  const attrib =
-    '&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a> &copy; <a href="https://carto.com/attributions">CARTO</a>';
-
   const activeId = props.activeLkpId;
-
-  const defaultIcon = useMemo(() => {
-    return L.icon({
-      iconUrl:
-        "data:image/svg+xml;charset=UTF-8," +
-        encodeURIComponent(
-          `<svg xmlns="http://www.w3.org/2000/svg" width="26" height="26"><circle cx="13" cy="13" r="10" fill="#111827" stroke="white" stroke-width="2"/></svg>`
-        ),
-      iconSize: [26, 26],
-      iconAnchor: [13, 13],
-    });
+  const envelope = props.envelopeNow;
+  const merged = props.mergedEnvelope;
+  const sourceArea = props.sourceArea;
+  const coordText = (p: LatLon) => formatCoord(p, props.coordFormat ?? "dd");
+
+  const defaultIcon = useMemo(() => dotIcon("#111827"), []);
+  const trapIcons = useMemo(() => {
+    const m = new Map<string, L.Icon>();
+    for (const type of Object.keys(TRAP_TYPES) as TrapType[]) {
+      m.set(`${type}_false`, trapIcon(type, false));
+      m.set(`${type}_true`, trapIcon(type, true));
+    }
+    return m;
   }, []);
+  const alertIcon = useMemo(() => dotIcon("#16a34a", 8), []);
+  const interestIcon = useMemo(() => dotIcon("#84cc16", 7), []);
+  const measureIcon = useMemo(() => dotIcon("#f97316", 5), []);
+  const sym = props.symbology;
+
+  // one icon per source color and kind
+  const sourceIcons = useMemo(() => {
+    const m = new Map<string, L.Icon>();
+    for (const k of props.lkps) {
+      const key = `${k.color ?? ""}_${k.kind ?? "lkp"}`;
+      if (!m.has(key)) m.set(key, sourceIcon(k.color ?? sym.lkp, k.kind ?? "lkp"));
+    }
+    return m;
+  }, [props.lkps, sym.lkp]);
+
+  const bandIcons = useMemo(
+    () => new Map((props.envelopeBands ?? []).map((b) => [b.minutes, bandLabelIcon(b.minutes, sym.band)])),
+    [props.envelopeBands, sym.band]
+  );
+  const startIcons = useMemo(() => (props.startPoints ?? []).map((_, i) => startIcon(sym.start, i + 1)), [props.startPoints, sym.start]);
+  const teamIcons = useMemo(
+    () => new Map((props.assignments ?? []).map((a) => [a.id, teamTagIcon(a.team, a.color, a.done)])),
+    [props.assignments]
+  );
 
   return (
     <MapContainer
@@ -208,7 +405,41 @@ export default function LeafletMapInner(props: Props) {
       zoom={props.zoom}
       style={{ width: "100%", height: "100%" }}
     >
-      <TileLayer url={tileUrl} attribution={attrib} />
+      {/* keyed by url: react-leaflet does not swap a layer's url/subdomains in place; crossOrigin lets PNG exports read the tiles */}
+      <TileLayer
+        key={props.basemap.url}
+        url={props.basemap.url}
+        subdomains={props.basemap.subdomains ?? "abc"}
+        attribution={props.basemap.attribution}
+        maxZoom={props.basemap.maxZoom}
+        maxNativeZoom={props.basemap.maxNativeZoom}
+        crossOrigin="anonymous"
+      />
+
+      {props.hillshadeTiles && (
+        <TileLayer
+          url={HILLSHADE_TILES.url}
+          attribution={HILLSHADE_TILES.attribution}
+          maxZoom={props.basemap.maxZoom}
+          maxNativeZoom={HILLSHADE_TILES.maxNativeZoom}
+          opacity={props.hillshadeOpacity ?? 0.45}
+          crossOrigin="anonymous"
+        />
+      )}
+
+      {props.hillshade && <ImageOverlay url={props.hillshade.url} bounds={props.hillshade.bounds} opacity={props.hillshadeOpacity ?? 0.45} />}
+
+      {props.landCover?.map((c) => (
+        <Polygon
+          key={c.id}
+          positions={polyToTuples(c.polygon)}
+          interactive={false}
+          pathOptions={{ color: TERRAIN_INFO[c.terrain].color, weight: 1, dashArray: "2 4", fillOpacity: 0.12 }}
+        />
+      ))}
+      {props.coverDraft && props.coverDraft.length > 0 && (
+        <Polyline positions={polyToTuples(props.coverDraft)} interactive={false} pathOptions={{ color: "#0f172a", weight: 2, dashArray: "6 4" }} />
+      )}
 
       <MapReady onMapReady={props.onMapReady} />
 
@@ -223,42 +454,225 @@ export default function LeafletMapInner(props: Props) {
       />
 
       {props.lkps.map((k) => (
-        <Marker key={k.id} position={[k.lat, k.lon]} icon={defaultIcon}>
+        <Marker
+          key={k.id}
+          position={[k.lat, k.lon]}
+          icon={sourceIcons.get(`${k.color ?? ""}_${k.kind ?? "lkp"}`) ?? defaultIcon}
+          opacity={k.hidden ? 0.45 : 1}
+        >
           <Popup>
             <b>{k.label ?? "LKP"}</b>
+            {k.kind === "clue" && <span style={{ marginLeft: 6, fontSize: 12, opacity: 0.8 }}>(clue)</span>}
             <div style={{ fontSize: 12, opacity: 0.8 }}>{new Date(k.timeISO).toLocaleString()}</div>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>{coordText(k)}</div>
             {activeId === k.id && <div style={{ marginTop: 6 }}>(active)</div>}
           </Popup>
         </Marker>
       ))}
 
-      {props.traps.map((t) => (
-        <Marker key={t.id} position={[t.lat, t.lon]} icon={defaultIcon}>
-          <Popup>
-            <b>Trap:</b> {t.label}
-          </Popup>
-        </Marker>
+      {props.traps.map((t) => {
+        const type = t.type ?? "other";
+        const r = t.radiusM ?? TRAP_TYPES[type].defaultRadiusM;
+        const flagged = !!props.flaggedTrapIds?.includes(t.id);
+        return (
+          <React.Fragment key={t.id}>
+            <Circle
+              center={[t.lat, t.lon]}
+              radius={r}
+              interactive={false}
+              pathOptions={{ color: TRAP_TYPES[type].color, weight: flagged ? 2 : 1, dashArray: "3 3", fillOpacity: flagged ? 0.15 : 0.05 }}
+            />
+            {t.orientationDeg != null && (
+              <Polyline positions={trapAxis(t, r)} interactive={false} pathOptions={{ color: TRAP_TYPES[type].color, weight: 3 }} />
+            )}
+            <Marker position={[t.lat, t.lon]} icon={trapIcons.get(`${type}_${flagged}`) ?? defaultIcon}>
+              <Popup>
+                <b>Trap:</b> {t.label}
+                <div style={{ fontSize: 12, opacity: 0.8 }}>
+                  {TRAP_TYPES[type].label} • {Math.round(r)} m{t.orientationDeg != null ? ` • axis ${Math.round(t.orientationDeg)}°` : ""}
+                </div>
+                <div style={{ fontSize: 12, opacity: 0.8 }}>{coordText(t)}</div>
+                {flagged && <div style={{ marginTop: 6 }}>Likely collection point</div>}
+              </Popup>
+            </Marker>
+          </React.Fragment>
+        );
+      })}
+
+      {props.clippedEnvelope?.map((c, i) => (
+        <Polygon
+          key={`clip_${c.zone}_${i}`}
+          positions={c.polygon.map(polyToTuples)}
+          interactive={false}
+          pathOptions={{ color: "#9ca3af", weight: 1, dashArray: "3 5", fillColor: "#9ca3af", fillOpacity: sym.zones[c.zone].fillOpacity * 0.5 }}
+        />
       ))}
 
-      {props.showEnvelope && props.envelopeNow && (
+      {props.showEnvelope && envelope && (
         <>
-          <Polygon positions={polyToTuples(props.envelopeNow.residual)} pathOptions={{}} />
-          <Polygon positions={polyToTuples(props.envelopeNow.fringe)} pathOptions={{}} />
-          <Polygon positions={polyToTuples(props.envelopeNow.core)} pathOptions={{}} />
+          {(["residual", "fringe", "core"] as const).map((z) => (
+            <Polygon
+              key={z}
+              positions={shapeToTuples(envelope[z])}
+              pathOptions={{ color: sym.zones[z].color, weight: z === "core" ? 2 : 1, fillColor: sym.zones[z].color, fillOpacity: sym.zones[z].fillOpacity }}
+            />
+          ))}
         </>
       )}
 
+      {props.showEnvelope &&
+        props.sourceEnvelopes?.map((e) =>
+          (["residual", "fringe", "core"] as const).map((z) => (
+            <Polygon
+              key={`${e.id}_${z}`}
+              positions={shapeToTuples(e.polygons[z])}
+              pathOptions={{ color: e.color, weight: z === "core" ? 2 : 1, fillColor: e.color, fillOpacity: sym.zones[z].fillOpacity }}
+            />
+          ))
+        )}
+
+      {props.showEnvelope &&
+        merged &&
+        (["residual", "fringe", "core"] as const).map((z) =>
+          merged[z].map((rings, i) => (
+            <Polygon
+              key={`merged_${z}_${i}`}
+              positions={rings.map(polyToTuples)}
+              pathOptions={{ color: sym.zones[z].color, weight: z === "core" ? 2 : 1, fillColor: sym.zones[z].color, fillOpacity: sym.zones[z].fillOpacity }}
+            />
+          ))
+        )}
+
       {props.showEnvelope &&
         props.envelopeBands &&
-        props.envelopeBands.map((b) => (
-          <Polygon key={b.minutes} positions={polyToTuples(b.polygons.residual)} pathOptions={{}} />
-        ))}
+        props.envelopeBands.map((b) => {
+          const tip = props.bandOrigin ? farthestFrom(b.polygons.residual.flat(2), props.bandOrigin) : null;
+          return (
+            <React.Fragment key={b.minutes}>
+              <Polygon
+                positions={shapeToTuples(b.polygons.residual)}
+                interactive={false}
+                pathOptions={{ color: sym.band, weight: 1.5, dashArray: "6 5", fill: false }}
+              />
+              {tip && <Marker position={[tip.lat, tip.lon]} icon={bandIcons.get(b.minutes) ?? bandLabelIcon(b.minutes, sym.band)} interactive={false} />}
+            </React.Fragment>
+          );
+        })}
+
+      {props.coverageGaps?.map((g, idx) => (
+        <Polygon
+          key={`gap_${idx}`}
+          positions={polyToTuples(g.polygon)}
+          interactive={false}
+          pathOptions={{ stroke: false, fillColor: "#dc2626", fillOpacity: g.zone === "core" ? 0.35 : g.zone === "fringe" ? 0.22 : 0.12 }}
+        />
+      ))}
+
+      {props.barriers?.map((b) => {
+        const pathOptions = { color: BARRIER_KINDS[b.kind].color, weight: b.closed ? 2 : 4, fillOpacity: 0.3 };
+        const popup = (
+          <Popup>
+            <b>{b.label}</b>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>{BARRIER_KINDS[b.kind].label} barrier</div>
+          </Popup>
+        );
+        return b.closed ? (
+          <Polygon key={b.id} positions={polyToTuples(b.points)} pathOptions={pathOptions}>{popup}</Polygon>
+        ) : (
+          <Polyline key={b.id} positions={polyToTuples(b.points)} pathOptions={pathOptions}>{popup}</Polyline>
+        );
+      })}
+      {props.barrierDraft && props.barrierDraft.points.length > 0 && (
+        <Polyline
+          positions={polyToTuples(props.barrierDraft.closed ? [...props.barrierDraft.points, props.barrierDraft.points[0]] : props.barrierDraft.points)}
+          interactive={false}
+          pathOptions={{ color: "#0f172a", weight: 2, dashArray: "6 4" }}
+        />
+      )}
+
+      {props.tracks?.map((t) => (
+        <Polyline key={t.id} positions={polyToTuples(t.points)} pathOptions={{ color: t.color, weight: 3, opacity: 0.9 }}>
+          <Popup>
+            <b>{t.team}</b>
+            {t.name !== t.team && <div style={{ fontSize: 12, opacity: 0.8 }}>{t.name}</div>}
+          </Popup>
+        </Polyline>
+      ))}
+
+      {props.alertCones?.map((c) => (
+        <Polygon
+          key={`cone_${c.id}`}
+          positions={polyToTuples(c.polygon)}
+          interactive={false}
+          pathOptions={{ color: "#16a34a", weight: 1, dashArray: "4 4", fillOpacity: 0.05 }}
+        />
+      ))}
+
+      {sourceArea?.polygons.map((rings, i) => (
+        <Polygon key={`src_${i}`} positions={rings.map(polyToTuples)} pathOptions={{ color: "#15803d", weight: 2, fillColor: "#22c55e", fillOpacity: 0.35 }}>
+          <Popup>
+            <b>Probable source area</b>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>
+              Score {sourceArea.score} • {sourceArea.agreeing} of {sourceArea.total} alerts
+            </div>
+          </Popup>
+        </Polygon>
+      ))}
+
+      {props.alerts?.map((a) => (
+        <Marker key={a.id} position={[a.lat, a.lon]} icon={a.strength === "alert" ? alertIcon : interestIcon}>
+          <Popup>
+            <b>{a.strength === "alert" ? "Alert" : "Interest"}</b>
+            {a.label && <span> • {a.label}</span>}
+            <div style={{ fontSize: 12, opacity: 0.8 }}>{new Date(a.timeISO).toLocaleString()}</div>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>
+              Wind from {Math.round(a.wind_from_deg)}° @ {formatSpeed(mphToMps(a.wind_speed_mph), props.units ?? "imperial")}
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>{coordText(a)}</div>
+          </Popup>
+        </Marker>
+      ))}
 
       {props.startPoints?.map((p, idx) => (
-        <Marker key={`${p.label}_${idx}`} position={[p.point.lat, p.point.lon]} icon={defaultIcon}>
-          <Popup>{p.label}</Popup>
+        <Marker key={`${p.label}_${idx}`} position={[p.point.lat, p.point.lon]} icon={startIcons[idx] ?? defaultIcon}>
+          <Popup>
+            {p.label}
+            <div style={{ fontSize: 12, opacity: 0.8 }}>{coordText(p.point)}</div>
+          </Popup>
+        </Marker>
+      ))}
+
+      {props.assignments?.map((a) =>
+        a.polygons?.map((rings, i) => (
+          <Polygon
+            key={`asg_${a.id}_${i}`}
+            positions={rings.map(polyToTuples)}
+            interactive={false}
+            pathOptions={{ color: a.color, weight: 2, dashArray: "6 4", fillColor: a.color, fillOpacity: a.done ? 0.04 : 0.12, opacity: a.done ? 0.5 : 1 }}
+          />
+        ))
+      )}
+      {props.assignments?.map((a) => (
+        <Marker key={`asg_${a.id}`} position={[a.point.lat, a.point.lon]} icon={teamIcons.get(a.id) ?? defaultIcon}>
+          <Popup>
+            <b>{a.team}</b>
+            {a.callSign && <span> • {a.callSign}</span>}
+            <div style={{ fontSize: 12, opacity: 0.8 }}>
+              {a.target} • {a.status}
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.8 }}>{coordText(a.point)}</div>
+          </Popup>
         </Marker>
       ))}
+
+      {props.measureLine && (
+        <>
+          <Polyline positions={polyToTuples(props.measureLine)} interactive={false} pathOptions={{ color: "#f97316", weight: 3, dashArray: "8 6" }} />
+          {props.measureLine.map((p, i) => (
+            <Marker key={`measure_${i}`} position={[p.lat, p.lon]} icon={measureIcon} interactive={false} />
+          ))}
+        </>
+      )}
     </MapContainer>
   );
 }
\ No newline at end of file
@@ -2,37 +2,175 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import dynamic from "next/dynamic";
 import type { LatLngExpression } from "leaflet";
 import type { Map as LeafletMap } from "leaflet";
-import { toPng } from "html-to-image";
-
-import ConeCanvas from "@/components/ConeCanvas";
-import type { WindData } from "@/lib/cone";
-import { mpsToMph, mphToMps } from "@/lib/cone";
+import { toCanvas, toPng } from "html-to-image";
+
+import ConeCanvas, { downloadDataUrlPNG_ICS } from "@/components/ConeCanvas";
+import IncidentPanel, { type SaveStatus } from "@/components/IncidentPanel";
+import WindTimeline from "@/components/WindTimeline";
+import MapLegend from "@/components/MapLegend";
+import type { WindData, WindSeriesPoint } from "@/lib/cone";
+import { mpsToMph, mphToMps, windAtTime } from "@/lib/cone";
 import {
   computeScentEnvelope,
   addMinutesIso,
   type TerrainType,
   type StabilityType,
   type PrecipType,
+  type CloudType,
+  type EnvelopeEngine,
 } from "@/lib/scentEnvelope";
+import {
+  defaultSnapshot,
+  newIncident,
+  nextSourceColor,
+  snapshotJson,
+  sourceColor,
+  uid,
+  type AppMode,
+  type IncidentRecord,
+  type IncidentSnapshot,
+  type LKP,
+  type SourceKind,
+  type Trap,
+  type WindMode,
+} from "@/lib/incident";
+import {
+  deleteIncident,
+  duplicateIncident,
+  getIncident,
+  getLastOpenIncidentId,
+  listIncidents,
+  saveIncident,
+  setIncidentArchived,
+  setLastOpenIncidentId,
+} from "@/lib/incidentStore";
+import { buildIncidentGeoJSON, parseIncidentGeoJSON, type ExportInput } from "@/lib/geojson";
+import { buildIncidentKML, buildIncidentKMZ, dataUrlToBytes } from "@/lib/kml";
+import { colorForTeam, parseTrackFile, trackLengthM, type Track } from "@/lib/tracks";
+import { computeCoverage } from "@/lib/coverage";
+import { mergeEnvelopes } from "@/lib/envelopeUnion";
+import { demFromJson, demSampler, hillshadeDataUrl, type DemGrid } from "@/lib/dem";
+import { cardinal, TRAP_TYPE_ORDER, TRAP_TYPES, type TrapType } from "@/lib/traps";
+import { parseLandCoverFile, TERRAIN_INFO, TERRAIN_ORDER, type LandCoverPolygon } from "@/lib/landCover";
+import { BARRIER_KIND_ORDER, BARRIER_KINDS, type Barrier, type BarrierKind } from "@/lib/barriers";
+import { backProjectionCone, locateSource, type AlertStrength, type DogAlert } from "@/lib/alerts";
+import {
+  briefingPdf,
+  briefingPngDataUrl,
+  renderAssignmentPages,
+  renderBriefingPages,
+  type AssignmentSheetInput,
+  type BriefingInput,
+  type BriefingLegendItem,
+} from "@/lib/briefing";
+import {
+  ASSIGNMENT_STATUSES,
+  envelopeSectors,
+  newAssignment,
+  newTeam,
+  statusLabel,
+  statusTimeline,
+  targetPoint,
+  withStatus,
+  type Assignment,
+  type AssignmentStatus,
+  type AssignmentTarget,
+  type Team,
+} from "@/lib/teams";
+import { downloadBlob, downloadText, fileStamp, safeFileName } from "@/lib/download";
+import { PALETTES, resolveSymbology, ZONE_LABELS, type PaletteId, type Zone, type ZoneStyle } from "@/lib/symbology";
+import { captionFrame, frameRecorder, RECORD_FORMATS, webmSupported, type RecordFormat } from "@/lib/recording";
+import { COORD_FORMATS, formatCoord, parseCoord, type CoordFormat } from "@/lib/coords";
+import { defaultPreferences, loadPreferences, savePreferences } from "@/lib/preferences";
+import { connectSync, pickSyncFields, SYNC_FIELDS, validRoom, type SyncConnection, type SyncPatch, type SyncStatus } from "@/lib/sync";
+import { inverse } from "@/lib/geo";
+import {
+  BASEMAPS,
+  customBasemap,
+  DEFAULT_BASEMAP,
+  localBasemap,
+  validTileTemplate,
+  type LocalTilesInfo,
+} from "@/lib/basemaps";
+import {
+  countTiles,
+  downloadTileArea,
+  estimateBytes,
+  formatBytes,
+  listTileAreas,
+  MAX_AREA_TILES,
+  offlineTilesSupported,
+  purgeTileArea,
+  storageUsage,
+  type Bounds,
+  type TileArea,
+} from "@/lib/offlineTiles";
+import {
+  formatArea,
+  formatDistance,
+  formatSpeed,
+  lengthFromM,
+  lengthToM,
+  lengthUnit,
+  speedFromMps,
+  speedToMps,
+  speedUnit,
+  UNIT_SYSTEMS,
+  type UnitSystem,
+} from "@/lib/units";
+import { WEATHER_PROVIDER_OPTIONS, providerLabel, type WeatherProviderId } from "@/lib/weatherProvider";
+import { NO_OVERRIDES, type ConditionField, type ConditionOverrides, type ConditionsData } from "@/lib/conditions";
+import {
+  describePasquill,
+  isSunDown,
+  pasquillClass,
+  solarElevationDeg,
+  stabilityFromPasquill,
+  sunTimes,
+} from "@/lib/stability";
 
 const LeafletMapInner = dynamic(() => import("./LeafletMapClient"), { ssr: false });
 
-type LKP = { id: string; lat: number; lon: number; timeISO: string; label?: string };
-type Trap = { id: string; lat: number; lon: number; label: string };
+const ZONE_NAMES = [["core", "Core"], ["fringe", "Fringe"], ["residual", "Residual"]] as const;
+
+// scenario minutes per second of playback
+const PLAY_SPEEDS = [5, 15, 30, 60, 120];
+const RECORD_STEPS = [1, 2, 5, 10, 15, 30];
+const MAX_RECORD_FRAMES = 240;
+
+function nextFrame() {
+  return new Promise<void>((resolve) => requestAnimationFrame(() => resolve()));
+}
 
 function isoNow() {
   return new Date().toISOString();
 }
-function uid(prefix = "id") {
-  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
-}
 function isoToLocalInput(iso: string) {
   const d = new Date(iso);
   const pad = (n: number) => String(n).padStart(2, "0");
   return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
 }
+// null while the field is cleared or half typed
 function localInputToIso(v: string) {
-  return new Date(v).toISOString();
+  const d = new Date(v);
+  return isNaN(d.getTime()) ? null : d.toISOString();
+}
+
+// "auto" / "manual ↺" marker next to a condition field
+function OverrideTag(props: { manual: boolean; canReset: boolean; onReset: () => void }) {
+  if (!props.manual) return <span className="kbd" style={{ marginLeft: 4 }}>auto</span>;
+  if (!props.canReset) return null;
+  return (
+    <button
+      type="button"
+      className="kbd"
+      style={{ marginLeft: 4, cursor: "pointer", color: "inherit" }}
+      title="Use fetched value"
+      onClick={(e) => { e.preventDefault(); props.onReset(); }}
+    >
+      manual ↺
+    </button>
+  );
 }
 
 export default function LiveMap() {
@@ -40,13 +178,16 @@ export default function LiveMap() {
   const zoom = 14;
 
   // app mode
-  const [appMode, setAppMode] = useState<"live" | "scenario">("live");
+  const [appMode, setAppMode] = useState<AppMode>("live");
 
   // live LKPs
   const [lkps, setLkps] = useState<LKP[]>([]);
   const [activeLkpId, setActiveLkpId] = useState<string | null>(null);
   const activeLkp = useMemo(() => lkps.find((k) => k.id === activeLkpId) ?? null, [lkps, activeLkpId]);
   const [lockSource, setLockSource] = useState(true);
+  const [envelopeView, setEnvelopeView] = useState<"sources" | "merged">("sources");
+  const [newSourceKind, setNewSourceKind] = useState<SourceKind>("clue");
+  const [newSourceLabel, setNewSourceLabel] = useState("");
 
   // scenario location + time
   const [scenarioLL, setScenarioLL] = useState<{ lat: number; lon: number } | null>(null);
@@ -54,6 +195,20 @@ export default function LiveMap() {
   const [scenarioLkpISO, setScenarioLkpISO] = useState<string>(isoNow());
   const [scenarioElapsedMin, setScenarioElapsedMin] = useState<number>(60);
 
+  // scenario playback: a clock stepping scenarioElapsedMin; recording captures one frame per step
+  const [playEndMin, setPlayEndMin] = useState(180);
+  const [playSpeed, setPlaySpeed] = useState(30);
+  const [playing, setPlaying] = useState(false);
+  const [hourlyPlaybackWind, setHourlyPlaybackWind] = useState(true);
+  const [recordFormat, setRecordFormat] = useState<RecordFormat>("gif");
+  const [recordStepMin, setRecordStepMin] = useState(5);
+  const [recording, setRecording] = useState<{ frame: number; frames: number } | null>(null);
+  const [webmOk, setWebmOk] = useState(false); // known only after mount (SSR)
+  const playTimerRef = useRef<number | null>(null);
+  const playMinRef = useRef(0);
+  const recordCancelRef = useRef(false);
+  const renderedFrameRef = useRef<{ min: number; caption: string }>({ min: -1, caption: "" });
+
   const scenarioLkp: LKP | null = useMemo(() => {
     if (!scenarioLL) return null;
     return { id: "scenario", lat: scenarioLL.lat, lon: scenarioLL.lon, timeISO: scenarioLkpISO, label: scenarioLabel };
@@ -68,9 +223,15 @@ export default function LiveMap() {
 
   // wind
   const [wind, setWind] = useState<WindData | null>(null);
-  const [windMode, setWindMode] = useState<"current" | "hourly" | "historical" | "manual">("current");
+  const [weatherProvider, setWeatherProvider] = useState<WeatherProviderId>("open-meteo");
+  const [windMode, setWindMode] = useState<WindMode>("current");
   const [manualSpeedMph, setManualSpeedMph] = useState<number>(11);
   const [manualFromDeg, setManualFromDeg] = useState<number>(315);
+  const [useWindHistory, setUseWindHistory] = useState(false);
+  const [windSeries, setWindSeries] = useState<WindSeriesPoint[] | null>(null);
+  const [windTimeline, setWindTimeline] = useState<IncidentSnapshot["windTimeline"]>(null);
+  const [selectedWindHour, setSelectedWindHour] = useState<string | null>(null);
+  const [timelineLoading, setTimelineLoading] = useState(false);
 
   const effectiveWind: WindData | null = useMemo(() => {
     if (windMode === "manual") {
@@ -80,26 +241,135 @@ export default function LiveMap() {
         time_local: "manual",
       };
     }
+
+    // an hour picked on the timeline overrides the fetched sample
+    const picked = selectedWindHour ? windTimeline?.series.find((p) => p.time_utc === selectedWindHour) : null;
+    if (picked) {
+      return {
+        wind_speed_mps: picked.wind_speed_mps,
+        wind_dir_from_deg: picked.wind_dir_from_deg,
+        gust_mps: picked.gust_mps,
+        time_utc: picked.time_utc,
+        provider: windTimeline?.provider,
+        model: windTimeline?.model,
+      };
+    }
+
+    // scenario on archive wind: the sample for the hour on the scenario clock, so playback follows it
+    if (appMode === "scenario" && windMode === "historical" && hourlyPlaybackWind) {
+      const series = useWindHistory && windSeries?.length ? windSeries : windTimeline?.series ?? [];
+      const hour = windAtTime(series, addMinutesIso(scenarioLkpISO, scenarioElapsedMin));
+      if (hour) {
+        return {
+          wind_speed_mps: hour.wind_speed_mps,
+          wind_dir_from_deg: hour.wind_dir_from_deg,
+          gust_mps: hour.gust_mps,
+          time_utc: hour.time_utc,
+          provider: wind?.provider ?? windTimeline?.provider,
+          model: wind?.model ?? windTimeline?.model,
+        };
+      }
+    }
     return wind;
-  }, [windMode, manualSpeedMph, manualFromDeg, wind]);
+  }, [windMode, manualSpeedMph, manualFromDeg, wind, selectedWindHour, windTimeline, appMode, hourlyPlaybackWind, useWindHistory, windSeries, scenarioLkpISO, scenarioElapsedMin]);
 
   // environment (envelope)
   const [showEnvelope, setShowEnvelope] = useState(true);
   const [showTimeBands, setShowTimeBands] = useState(true);
+  const [engine, setEngine] = useState<EnvelopeEngine>("empirical");
   const [bandSet, setBandSet] = useState<number[]>([15, 30, 60, 120]);
   const [tempF, setTempF] = useState(75);
   const [rh, setRh] = useState(50);
-  const [cloud, setCloud] = useState<"clear" | "partly" | "overcast" | "night">("partly");
+  const [cloud, setCloud] = useState<CloudType>("partly");
   const [precip, setPrecip] = useState<PrecipType>("none");
   const [recentRain, setRecentRain] = useState(false);
   const [terrain, setTerrain] = useState<TerrainType>("mixed");
   const [stability, setStability] = useState<StabilityType>("neutral");
+  const [stabilitySource, setStabilitySource] = useState<"auto" | "manual">("auto");
+  const [autoNight, setAutoNight] = useState(true);
+  const [conditions, setConditions] = useState<ConditionsData | null>(null);
+  const [conditionOverrides, setConditionOverrides] = useState<ConditionOverrides>(NO_OVERRIDES);
+  const [rainHours, setRainHours] = useState(6);
+  const [conditionsStatus, setConditionsStatus] = useState<string>("");
   const [showAdvanced, setShowAdvanced] = useState(false);
 
+  // local DEM (terrain drainage + hillshade)
+  const [useTerrain, setUseTerrain] = useState(false);
+  const [showHillshade, setShowHillshade] = useState(true);
+  const [demGrid, setDemGrid] = useState<DemGrid | null>(null);
+  const [hillshadeUrl, setHillshadeUrl] = useState<string | null>(null);
+  const [demStatus, setDemStatus] = useState("");
+
   // traps
   const [traps, setTraps] = useState<Trap[]>([]);
-  const [mapMode, setMapMode] = useState<"setSource" | "addTrap">("setSource");
+  const [mapMode, setMapMode] = useState<"setSource" | "addSource" | "addTrap" | "addAlert" | "drawCover" | "drawBarrier" | "measure">("setSource");
   const [newTrapLabel, setNewTrapLabel] = useState("Terrain trap");
+  const [newTrapType, setNewTrapType] = useState<TrapType>("drainage");
+  const [newTrapRadiusM, setNewTrapRadiusM] = useState(TRAP_TYPES.drainage.defaultRadiusM);
+  const [newTrapOrientation, setNewTrapOrientation] = useState(0);
+
+  // land-cover patches (imported or drawn vertex by vertex)
+  const [landCover, setLandCover] = useState<LandCoverPolygon[]>([]);
+  const [coverDraft, setCoverDraft] = useState<{ lat: number; lon: number }[]>([]);
+  const [newCoverTerrain, setNewCoverTerrain] = useState<TerrainType>("forest");
+  const coverInputRef = useRef<HTMLInputElement | null>(null);
+
+  // barriers (drawn as areas or lines)
+  const [barriers, setBarriers] = useState<Barrier[]>([]);
+  const [barrierDraft, setBarrierDraft] = useState<{ lat: number; lon: number }[]>([]);
+  const [newBarrierKind, setNewBarrierKind] = useState<BarrierKind>("block");
+  const [newBarrierClosed, setNewBarrierClosed] = useState(true);
+  const [newBarrierLabel, setNewBarrierLabel] = useState("");
+
+  // team GPS tracks + coverage
+  const [tracks, setTracks] = useState<Track[]>([]);
+  const [detectionWidthM, setDetectionWidthM] = useState(50);
+  const [showCoverageGaps, setShowCoverageGaps] = useState(true);
+  const trackInputRef = useRef<HTMLInputElement | null>(null);
+
+  // dog alerts
+  const [alerts, setAlerts] = useState<DogAlert[]>([]);
+  const [alertRangeM, setAlertRangeM] = useState(500);
+  const [newAlertStrength, setNewAlertStrength] = useState<AlertStrength>("alert");
+  const [newAlertLabel, setNewAlertLabel] = useState("");
+
+  // K9 team roster + assignments
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [newTeamFields, setNewTeamFields] = useState({ name: "", handler: "", dog: "", callSign: "" });
+  const [assignTeamId, setAssignTeamId] = useState("");
+  const [assignTargetKey, setAssignTargetKey] = useState("");
+  const [sheetsBusy, setSheetsBusy] = useState(false);
+
+  // briefing export
+  const [briefingNotes, setBriefingNotes] = useState("");
+  const [briefingBusy, setBriefingBusy] = useState(false);
+
+  // offline basemap areas (device-local, like preferences)
+  const [viewBounds, setViewBounds] = useState<(Bounds & { zoom: number }) | null>(null);
+  const [tileAreas, setTileAreas] = useState<TileArea[]>([]);
+  const [tileMinZoom, setTileMinZoom] = useState(12);
+  const [tileMaxZoom, setTileMaxZoom] = useState(16);
+  const [tileAreaLabel, setTileAreaLabel] = useState("");
+  const [tileProgress, setTileProgress] = useState<{ done: number; total: number } | null>(null);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+  const [tilesSupported, setTilesSupported] = useState(false); // known only after mount (SSR)
+  const tileAbortRef = useRef<AbortController | null>(null);
+
+  // basemap (device preference); the local file is offered only when the server has one
+  const [basemapId, setBasemapId] = useState(defaultPreferences.basemap);
+  const [customBasemaps, setCustomBasemaps] = useState(defaultPreferences.customBasemaps);
+  const [localTiles, setLocalTiles] = useState<LocalTilesInfo | null>(null);
+  const [hillshadeTiles, setHillshadeTiles] = useState(defaultPreferences.hillshadeTiles);
+  const [hillshadeOpacity, setHillshadeOpacity] = useState(defaultPreferences.hillshadeOpacity);
+  const [newBasemapLabel, setNewBasemapLabel] = useState("");
+  const [newBasemapUrl, setNewBasemapUrl] = useState("");
+
+  // map symbology (device preference)
+  const [palette, setPalette] = useState<PaletteId>(defaultPreferences.palette);
+  const [zoneStyles, setZoneStyles] = useState<Partial<Record<Zone, ZoneStyle>>>(defaultPreferences.zoneStyles);
+  const [showLegend, setShowLegend] = useState(defaultPreferences.showLegend);
+  const symbology = useMemo(() => resolveSymbology(palette, zoneStyles), [palette, zoneStyles]);
 
   // visual cone
   const [lengthPx, setLengthPx] = useState(780);
@@ -112,6 +382,14 @@ export default function LiveMap() {
   const [centerOnMeToken, setCenterOnMeToken] = useState(0);
   const [userLoc, setUserLoc] = useState<{ lat: number; lon: number } | null>(null);
 
+  // coordinate display/entry (device preference, not saved with the incident)
+  const [coordFormat, setCoordFormat] = useState<CoordFormat>(defaultPreferences.coordFormat);
+  const [coordEntry, setCoordEntry] = useState("");
+  const [units, setUnits] = useState<UnitSystem>(defaultPreferences.units);
+
+  // measuring tool: two clicked points
+  const [measurePts, setMeasurePts] = useState<{ lat: number; lon: number }[]>([]);
+
   useEffect(() => {
     // ensure OFF by default
     setShowUserLocation(false);
@@ -126,7 +404,325 @@ export default function LiveMap() {
     return () => clearInterval(id);
   }, [appMode]);
 
+  // incident workspace (persisted to IndexedDB)
+  const [incident, setIncident] = useState<IncidentRecord | null>(null);
+  const [incidents, setIncidents] = useState<IncidentRecord[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>("idle");
+  const lastSavedJsonRef = useRef<string | null>(null);
+  const openIncidentIdRef = useRef<string | null>(null); // for saves that finish after another incident was opened
+
+  // live sync: the room belongs to the incident, the server address to the device
+  const [syncRoom, setSyncRoom] = useState<string | null>(null);
+  const [syncRoomDraft, setSyncRoomDraft] = useState("");
+  const [syncServer, setSyncServer] = useState(defaultPreferences.syncServer);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: "connecting", peers: 0 });
+
+  const snapshot: IncidentSnapshot = useMemo(() => ({
+    appMode,
+    lkps,
+    activeLkpId,
+    lockSource,
+    envelopeView,
+    useTerrain,
+    showHillshade,
+    scenarioLL,
+    scenarioLabel,
+    scenarioLkpISO,
+    scenarioElapsedMin,
+    weatherProvider,
+    windMode,
+    wind,
+    manualSpeedMph,
+    manualFromDeg,
+    useWindHistory,
+    windSeries,
+    windTimeline,
+    selectedWindHour,
+    engine,
+    bandSet,
+    tempF,
+    rh,
+    cloud,
+    precip,
+    recentRain,
+    terrain,
+    stability,
+    stabilitySource,
+    autoNight,
+    conditions,
+    conditionOverrides,
+    rainHours,
+    traps,
+    landCover,
+    barriers,
+    tracks,
+    detectionWidthM,
+    showCoverageGaps,
+    alerts,
+    alertRangeM,
+    teams,
+    assignments,
+    briefingNotes,
+    syncRoom,
+  }), [appMode, lkps, activeLkpId, lockSource, envelopeView, useTerrain, showHillshade, scenarioLL, scenarioLabel, scenarioLkpISO, scenarioElapsedMin, weatherProvider, windMode, wind, manualSpeedMph, manualFromDeg, useWindHistory, windSeries, windTimeline, selectedWindHour, engine, bandSet, tempF, rh, cloud, precip, recentRain, terrain, stability, stabilitySource, autoNight, conditions, conditionOverrides, rainHours, traps, landCover, barriers, tracks, detectionWidthM, showCoverageGaps, alerts, alertRangeM, teams, assignments, briefingNotes, syncRoom]);
+
+  function applySnapshot(s: IncidentSnapshot) {
+    setAppMode(s.appMode);
+    setLkps(s.lkps);
+    setActiveLkpId(s.activeLkpId);
+    setLockSource(s.lockSource);
+    setEnvelopeView(s.envelopeView);
+    setUseTerrain(s.useTerrain);
+    setShowHillshade(s.showHillshade);
+    setScenarioLL(s.scenarioLL);
+    setScenarioLabel(s.scenarioLabel);
+    setScenarioLkpISO(s.scenarioLkpISO);
+    setScenarioElapsedMin(s.scenarioElapsedMin);
+    setWeatherProvider(s.weatherProvider);
+    setWindMode(s.windMode);
+    setWind(s.wind);
+    setManualSpeedMph(s.manualSpeedMph);
+    setManualFromDeg(s.manualFromDeg);
+    setUseWindHistory(s.useWindHistory);
+    setWindSeries(s.windSeries);
+    setWindTimeline(s.windTimeline);
+    setSelectedWindHour(s.selectedWindHour);
+    setEngine(s.engine);
+    setBandSet(s.bandSet);
+    setTempF(s.tempF);
+    setRh(s.rh);
+    setCloud(s.cloud);
+    setPrecip(s.precip);
+    setRecentRain(s.recentRain);
+    setTerrain(s.terrain);
+    setStability(s.stability);
+    setStabilitySource(s.stabilitySource);
+    setAutoNight(s.autoNight);
+    setConditions(s.conditions);
+    setConditionOverrides(s.conditionOverrides);
+    setRainHours(s.rainHours);
+    setTraps(s.traps);
+    setLandCover(s.landCover);
+    setCoverDraft([]);
+    setBarriers(s.barriers);
+    setBarrierDraft([]);
+    setTracks(s.tracks);
+    setDetectionWidthM(s.detectionWidthM);
+    setShowCoverageGaps(s.showCoverageGaps);
+    setAlerts(s.alerts);
+    setAlertRangeM(s.alertRangeM);
+    setTeams(s.teams);
+    setAssignments(s.assignments);
+    setBriefingNotes(s.briefingNotes);
+    setSyncRoom(s.syncRoom);
+  }
+
+  // shared fields from another device (see lib/sync.ts)
+  function applySyncPatch(p: SyncPatch) {
+    if (p.lkps !== undefined) {
+      const next = p.lkps;
+      setLkps(next);
+      setActiveLkpId((id) => (next.some((k) => k.id === id) ? id : (next[0]?.id ?? null)));
+    }
+    if (p.traps !== undefined) setTraps(p.traps);
+    if (p.alerts !== undefined) setAlerts(p.alerts);
+    if (p.weatherProvider !== undefined) setWeatherProvider(p.weatherProvider);
+    if (p.windMode !== undefined) setWindMode(p.windMode);
+    if (p.wind !== undefined) setWind(p.wind);
+    if (p.manualSpeedMph !== undefined) setManualSpeedMph(p.manualSpeedMph);
+    if (p.manualFromDeg !== undefined) setManualFromDeg(p.manualFromDeg);
+    if (p.useWindHistory !== undefined) setUseWindHistory(p.useWindHistory);
+    if (p.windSeries !== undefined) setWindSeries(p.windSeries);
+    if (p.windTimeline !== undefined) setWindTimeline(p.windTimeline);
+    if (p.selectedWindHour !== undefined) setSelectedWindHour(p.selectedWindHour);
+    if (p.tempF !== undefined) setTempF(p.tempF);
+    if (p.rh !== undefined) setRh(p.rh);
+    if (p.cloud !== undefined) setCloud(p.cloud);
+    if (p.precip !== undefined) setPrecip(p.precip);
+    if (p.recentRain !== undefined) setRecentRain(p.recentRain);
+    if (p.terrain !== undefined) setTerrain(p.terrain);
+    if (p.stability !== undefined) setStability(p.stability);
+    if (p.stabilitySource !== undefined) setStabilitySource(p.stabilitySource);
+    if (p.autoNight !== undefined) setAutoNight(p.autoNight);
+    if (p.conditions !== undefined) setConditions(p.conditions);
+    if (p.conditionOverrides !== undefined) setConditionOverrides(p.conditionOverrides);
+    if (p.rainHours !== undefined) setRainHours(p.rainHours);
+  }
+
+  async function refreshIncidents(includeArchived = showArchived) {
+    try { setIncidents(await listIncidents({ includeArchived })); } catch { setSaveStatus("error"); }
+  }
+
+  function openRecord(rec: IncidentRecord) {
+    openIncidentIdRef.current = rec.id;
+    lastSavedJsonRef.current = snapshotJson(rec.snapshot);
+    applySnapshot(rec.snapshot);
+    setIncident(rec);
+    setLastOpenIncidentId(rec.id);
+
+    setDemGrid(null);
+    setHillshadeUrl(null);
+    const s = rec.snapshot;
+    const pt = s.appMode === "scenario" ? s.scenarioLL : s.lkps.find((k) => k.id === s.activeLkpId);
+    if (s.useTerrain && pt) fetchDem(pt.lat, pt.lon);
+  }
+
+  async function openIncident(id: string) {
+    try {
+      const rec = await getIncident(id);
+      if (!rec) throw new Error("Incident not found");
+      openRecord(rec);
+      await refreshIncidents();
+    } catch (e: unknown) {
+      alert(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function createIncident(mode: AppMode) {
+    const rec = newIncident(mode, undefined, { ...defaultSnapshot(mode), wind, windMode, manualSpeedMph, manualFromDeg });
+    try {
+      openRecord(await saveIncident(rec));
+      setSaveStatus("saved");
+    } catch {
+      // keep working in memory even if storage is unavailable
+      openRecord(rec);
+      setSaveStatus("error");
+    }
+    await refreshIncidents();
+  }
+
+  // restore the last open incident (or start a fresh one) on first load
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      let rec: IncidentRecord | null = null;
+      try {
+        const lastId = getLastOpenIncidentId();
+        if (lastId) rec = await getIncident(lastId);
+        if (!rec) rec = (await listIncidents())[0] ?? null;
+        if (!rec) rec = await saveIncident(newIncident("live"));
+        if (cancelled) return;
+        setIncidents(await listIncidents());
+      } catch {
+        if (cancelled) return;
+        rec = newIncident("live");
+        setSaveStatus("error");
+      }
+      openIncidentIdRef.current = rec.id;
+      lastSavedJsonRef.current = snapshotJson(rec.snapshot);
+      applySnapshot(rec.snapshot);
+      setIncident(rec);
+      setLastOpenIncidentId(rec.id);
+      const prefs = loadPreferences();
+      setCoordFormat(prefs.coordFormat);
+      setUnits(prefs.units);
+      setBasemapId(prefs.basemap);
+      setCustomBasemaps(prefs.customBasemaps);
+      setHillshadeTiles(prefs.hillshadeTiles);
+      setHillshadeOpacity(prefs.hillshadeOpacity);
+      setPalette(prefs.palette);
+      setZoneStyles(prefs.zoneStyles);
+      setShowLegend(prefs.showLegend);
+      setSyncServer(prefs.syncServer);
+      setTilesSupported(offlineTilesSupported());
+      setTileAreas(listTileAreas());
+      setStorage(await storageUsage());
+      setWebmOk(webmSupported());
+      try {
+        const r = await fetch("/api/tiles");
+        if (!cancelled && r.ok) setLocalTiles((await r.json()) as LocalTilesInfo);
+      } catch {
+        // offline, or no local tile file on the server
+      }
+    })();
+    return () => { cancelled = true; };
+  }, []);
+
+  // auto-save on every change (debounced)
+  useEffect(() => {
+    if (!incident) return;
+    const json = snapshotJson(snapshot);
+    if (json === lastSavedJsonRef.current) return;
+
+    const id = setTimeout(async () => {
+      setSaveStatus("saving");
+      try {
+        const saved = await saveIncident({ ...incident, mode: snapshot.appMode, snapshot });
+        setSaveStatus("saved");
+        if (saved.id === openIncidentIdRef.current) {
+          lastSavedJsonRef.current = json;
+          setIncident(saved);
+        }
+        setIncidents(await listIncidents({ includeArchived: showArchived }));
+      } catch {
+        setSaveStatus("error");
+      }
+    }, 400);
+    return () => clearTimeout(id);
+  }, [snapshot, incident, showArchived]);
+
+  // Remote values are marked known before they are set, so only edits made here are published
+  const syncRef = useRef<SyncConnection | null>(null);
+  const syncKnownRef = useRef<SyncPatch>({});
+  const snapshotRef = useRef(snapshot);
+  useEffect(() => {
+    snapshotRef.current = snapshot;
+  }, [snapshot]);
+
+  const incidentId = incident?.id ?? null;
+  useEffect(() => {
+    if (!incidentId || !syncRoom) return;
+    syncKnownRef.current = pickSyncFields(snapshotRef.current);
+    const conn = connectSync({
+      server: syncServer,
+      room: syncRoom,
+      incidentId,
+      current: () => pickSyncFields(snapshotRef.current),
+      onRemote: (patch) => {
+        Object.assign(syncKnownRef.current, patch);
+        applySyncPatch(patch);
+      },
+      onStatus: setSyncStatus,
+    });
+    syncRef.current = conn;
+    return () => {
+      conn.close();
+      syncRef.current = null;
+    };
+  }, [incidentId, syncRoom, syncServer]);
+
+  useEffect(() => {
+    const conn = syncRef.current;
+    if (!conn) return;
+    const known = syncKnownRef.current;
+    const changed = Object.fromEntries(SYNC_FIELDS.filter((f) => snapshot[f] !== known[f]).map((f) => [f, snapshot[f]])) as SyncPatch;
+    if (!Object.keys(changed).length) return;
+    Object.assign(known, changed);
+    conn.publish(changed);
+  }, [snapshot]);
+
+  function joinSync() {
+    const server = syncServer.trim().replace(/\/+$/, "");
+    if (server && !/^https?:\/\/\S+$/.test(server)) {
+      alert("Server must start with http:// or https://");
+      return;
+    }
+    setSyncServer(server);
+    savePreferences({ syncServer: server });
+    setSyncRoom(syncRoomDraft.trim());
+  }
+
+  const syncStatusText =
+    syncStatus.state === "connected"
+      ? `Connected • ${syncStatus.peers} ${syncStatus.peers === 1 ? "peer" : "peers"}`
+      : syncStatus.state === "offline"
+        ? "Offline • edits kept, sent on reconnect"
+        : "Connecting…";
+
   // refs
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [kmzSnapshot, setKmzSnapshot] = useState(true);
   const mapRef = useRef<LeafletMap | null>(null);
   const mapWrapRef = useRef<HTMLDivElement | null>(null);
   const exportRef = useRef<HTMLDivElement | null>(null);
@@ -150,13 +746,20 @@ export default function LiveMap() {
     setSrcPoint({ x: pt.x, y: pt.y });
   }
 
+  function trackViewBounds(map: LeafletMap) {
+    const b = map.getBounds();
+    setViewBounds({ north: b.getNorth(), south: b.getSouth(), east: b.getEast(), west: b.getWest(), zoom: map.getZoom() });
+  }
+
   function onMapReady(map: LeafletMap) {
     mapRef.current = map;
     recomputeSrcPoint(map, selectedLL);
+    trackViewBounds(map);
   }
 
   function onViewChanged(map: LeafletMap) {
     recomputeSrcPoint(map, selectedLL);
+    trackViewBounds(map);
   }
 
   async function fetchWind(lat: number, lon: number) {
@@ -165,7 +768,7 @@ export default function LiveMap() {
     const modeSafe =
       windMode === "hourly" ? "hourly" : windMode === "historical" ? "historical" : "current";
 
-    const body: any = { lat, lon, mode: modeSafe };
+    const body: Record<string, unknown> = { lat, lon, mode: modeSafe, provider: weatherProvider };
     if (modeSafe === "historical") body.time_iso = scenarioLkpISO;
 
     const r = await fetch("/api/wind", {
@@ -178,54 +781,333 @@ export default function LiveMap() {
     setWind(js);
   }
 
-  async function onMapClick(lat: number, lon: number) {
-    if (mapMode === "addTrap") {
-      setTraps((prev) => [{ id: uid("trap"), lat, lon, label: newTrapLabel || "Terrain trap" }, ...prev]);
+  // temperature / RH / cloud / precip at the point (scenario: archive at model time)
+  async function fetchConditions(lat: number, lon: number) {
+    const body: Record<string, unknown> = { lat, lon, mode: "current", rain_hours: rainHours, provider: weatherProvider };
+    if (appMode === "scenario") {
+      body.mode = "historical";
+      body.time_iso = addMinutesIso(scenarioLkpISO, scenarioElapsedMin);
+    }
+
+    setConditionsStatus("Fetching conditions…");
+    try {
+      const r = await fetch("/api/conditions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const js = await r.json();
+      if (!r.ok) throw new Error(js?.error || "Conditions fetch failed");
+      setConditions(js);
+      setConditionsStatus("");
+    } catch (e: unknown) {
+      // keep the hand-entered values; conditions are optional
+      setConditionsStatus(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function fetchDem(lat: number, lon: number) {
+    setDemStatus("Loading terrain…");
+    try {
+      const r = await fetch("/api/dem", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lat, lon, radius_m: 3000 }),
+      });
+      const js = await r.json();
+      if (!r.ok) throw new Error(js?.error || "Terrain fetch failed");
+      const grid = demFromJson(js);
+      setDemGrid(grid);
+      setHillshadeUrl(hillshadeDataUrl(grid));
+      setDemStatus("");
+    } catch (e: unknown) {
+      // terrain is optional; the envelope falls back to wind only
+      setDemGrid(null);
+      setHillshadeUrl(null);
+      setDemStatus(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  // 12 h back / 12 h ahead of model time for the timeline strip
+  async function fetchTimeline(lat: number, lon: number, centerISO: string) {
+    setTimelineLoading(true);
+    try {
+      const r = await fetch("/api/wind", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ lat, lon, mode: "window", time_iso: centerISO, hours_back: 12, hours_ahead: 12, provider: weatherProvider }),
+      });
+      const js = await r.json();
+      if (!r.ok) throw new Error(js?.error || "Wind timeline fetch failed");
+      setWindTimeline({ series: js.series, provider: js.provider, model: js.model });
+      setSelectedWindHour(null);
+    } finally {
+      setTimelineLoading(false);
+    }
+  }
+
+  // hourly wind from LKP time to model time, drives the time-varying envelope
+  async function fetchWindHistory(lat: number, lon: number, fromISO: string, toISO: string) {
+    const r = await fetch("/api/wind", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ lat, lon, mode: "series", from_iso: fromISO, to_iso: toISO, provider: weatherProvider }),
+    });
+    const js = await r.json();
+    if (!r.ok) throw new Error(js?.error || "Wind history fetch failed");
+    setWindSeries(js.series);
+  }
+
+  function historyWindow(lkpISO: string) {
+    // live: pad a few hours ahead so the 30 s clock tick stays inside the series
+    const toISO = appMode === "scenario" ? addMinutesIso(lkpISO, scenarioElapsedMin) : addMinutesIso(isoNow(), 180);
+    return { fromISO: lkpISO, toISO };
+  }
+
+  async function onMapClick(lat: number, lon: number, modeOverride?: typeof mapMode) {
+    const mode = modeOverride ?? mapMode;
+    if (mode === "measure") {
+      setMeasurePts((prev) => (prev.length >= 2 ? [{ lat, lon }] : [...prev, { lat, lon }]));
+      return;
+    }
+
+    if (mode === "drawCover") {
+      setCoverDraft((prev) => [...prev, { lat, lon }]);
+      return;
+    }
+
+    if (mode === "drawBarrier") {
+      setBarrierDraft((prev) => [...prev, { lat, lon }]);
+      return;
+    }
+
+    if (mode === "addTrap") {
+      setTraps((prev) => [
+        {
+          id: uid("trap"),
+          lat,
+          lon,
+          label: newTrapLabel || TRAP_TYPES[newTrapType].label,
+          type: newTrapType,
+          radiusM: newTrapRadiusM,
+          orientationDeg: TRAP_TYPES[newTrapType].linear ? newTrapOrientation : undefined,
+        },
+        ...prev,
+      ]);
+      return;
+    }
+
+    if (mode === "addAlert") {
+      if (!effectiveWind) return alert("Fetch or enter wind first; the back-projection needs the wind at the alert.");
+      setAlerts((prev) => [
+        ...prev,
+        {
+          id: uid("alert"),
+          lat,
+          lon,
+          timeISO: appMode === "scenario" ? modelNowISO : isoNow(),
+          strength: newAlertStrength,
+          label: newAlertLabel.trim() || undefined,
+          wind_from_deg: effectiveWind.wind_dir_from_deg,
+          wind_speed_mph: mpsToMph(effectiveWind.wind_speed_mps),
+        },
+      ]);
+      setNewAlertLabel("");
       return;
     }
 
     if (appMode === "scenario") {
       setScenarioLL({ lat, lon });
       recomputeSrcPoint(mapRef.current, { lat, lon });
-      try { await fetchWind(lat, lon); } catch (e: any) { alert(e?.message || String(e)); }
+      fetchConditions(lat, lon);
+      if (useTerrain) fetchDem(lat, lon);
+      try {
+        await fetchWind(lat, lon);
+        if (windMode !== "manual") await fetchTimeline(lat, lon, addMinutesIso(scenarioLkpISO, scenarioElapsedMin));
+        if (useWindHistory && windMode !== "manual") {
+          const w = historyWindow(scenarioLkpISO);
+          await fetchWindHistory(lat, lon, w.fromISO, w.toISO);
+        }
+      } catch (e: unknown) { alert(e instanceof Error ? e.message : String(e)); }
       return;
     }
 
-    // live
-    if (lockSource && activeLkp) return;
-
-    const id = activeLkp?.id ?? uid("lkp");
-    const lkp: LKP = { id, lat, lon, timeISO: isoNow(), label: activeLkp?.label ?? "LKP" };
-    setLkps((prev) => [lkp, ...prev.filter((p) => p.id !== id)]);
-    setActiveLkpId(id);
+    // live: add another LKP/clue alongside the existing ones
+    if (mode === "addSource") {
+      const k: LKP = {
+        id: uid("lkp"),
+        lat,
+        lon,
+        timeISO: isoNow(),
+        label: newSourceLabel.trim() || (newSourceKind === "clue" ? `Clue ${lkps.filter((x) => x.kind === "clue").length + 1}` : "LKP"),
+        kind: newSourceKind,
+        color: nextSourceColor(lkps),
+      };
+      setLkps((prev) => [...prev, k]);
+      setNewSourceLabel("");
+      setMapMode("setSource");
+      if (activeLkp) return;
+      setActiveLkpId(k.id);
+    } else {
+      if (lockSource && activeLkp) return;
+
+      const id = activeLkp?.id ?? uid("lkp");
+      const lkp: LKP = activeLkp
+        ? { ...activeLkp, lat, lon, timeISO: isoNow() }
+        : { id, lat, lon, timeISO: isoNow(), label: "LKP", kind: "lkp", color: nextSourceColor(lkps) };
+      setLkps((prev) => (prev.some((p) => p.id === id) ? prev.map((p) => (p.id === id ? lkp : p)) : [...prev, lkp]));
+      setActiveLkpId(id);
+    }
 
     recomputeSrcPoint(mapRef.current, { lat, lon });
-    try { await fetchWind(lat, lon); } catch (e: any) { alert(e?.message || String(e)); }
+    fetchConditions(lat, lon);
+    if (useTerrain) fetchDem(lat, lon);
+    try {
+      await fetchWind(lat, lon);
+      if (windMode !== "manual") await fetchTimeline(lat, lon, isoNow());
+    } catch (e: unknown) { alert(e instanceof Error ? e.message : String(e)); }
+  }
+
+  const enteredLL = useMemo(() => parseCoord(coordEntry), [coordEntry]);
+
+  function goToCoord(p: { lat: number; lon: number }) {
+    if (mapRef.current) mapRef.current.setView([p.lat, p.lon], Math.max(mapRef.current.getZoom(), 15));
+  }
+
+  const windSeriesForModel = useMemo(() => {
+    if (!useWindHistory || windMode === "manual" || !windSeries?.length) return undefined;
+    return windSeries.map((w) => ({
+      time_iso: w.time_utc,
+      wind_from_deg: w.wind_dir_from_deg,
+      wind_speed_mph: mpsToMph(w.wind_speed_mps),
+    }));
+  }, [useWindHistory, windMode, windSeries]);
+
+  const modelNowISO = useMemo(() => {
+    if (appMode === "scenario" && activeForModel) return addMinutesIso(activeForModel.timeISO, scenarioElapsedMin);
+    return nowISO;
+  }, [appMode, activeForModel, scenarioElapsedMin, nowISO]);
+
+  // sun position at the model point/time -> night switch + Pasquill class
+  const solar = useMemo(() => {
+    if (!activeForModel) return null;
+    const d = new Date(modelNowISO);
+    const { lat, lon } = activeForModel;
+    const times = sunTimes(lat, lon, d);
+    return { elevationDeg: solarElevationDeg(lat, lon, d), isNight: isSunDown(lat, lon, d), sunset: times.sunset, sunrise: times.sunrise };
+  }, [activeForModel, modelNowISO]);
+
+  // fetched values unless the field is overridden (or nothing has been fetched yet)
+  const isManual = (f: ConditionField) => conditionOverrides[f] || !conditions;
+  const effTempF = isManual("tempF") ? tempF : conditions!.temperature_f;
+  const effRh = isManual("rh") ? rh : conditions!.rel_humidity_pct;
+  const effSkyCloud: CloudType = isManual("cloud") ? cloud : conditions!.cloud;
+  const effPrecip: PrecipType = isManual("precip") ? precip : conditions!.precip;
+  const effRecentRain = isManual("recentRain") ? recentRain : conditions!.recent_rain;
+
+  function setOverride(f: ConditionField, on: boolean) {
+    setConditionOverrides((prev) => ({ ...prev, [f]: on }));
   }
 
-  const envelopeNow = useMemo(() => {
-    if (!showEnvelope || !activeForModel || !effectiveWind) return null;
+  const effectiveCloud: CloudType = useMemo(() => {
+    if (autoNight && solar?.isNight && effSkyCloud !== "overcast") return "night";
+    return effSkyCloud;
+  }, [autoNight, solar, effSkyCloud]);
+
+  const autoPasquill = useMemo(() => {
+    if (!solar) return null;
+    return pasquillClass({
+      solar_elevation_deg: solar.elevationDeg,
+      cloud: effSkyCloud,
+      wind_speed_mps: effectiveWind ? effectiveWind.wind_speed_mps : 0,
+    });
+  }, [solar, effSkyCloud, effectiveWind]);
+
+  const effectivePasquill = stabilitySource === "auto" && autoPasquill ? autoPasquill : undefined;
+  const effectiveStability: StabilityType = effectivePasquill ? stabilityFromPasquill(effectivePasquill) : stability;
+
+  const demModel = useMemo(() => (useTerrain && demGrid ? demSampler(demGrid) : undefined), [useTerrain, demGrid]);
+
+  // live: every visible LKP/clue in priority order; scenario: the single scenario point
+  const modelSources: LKP[] = useMemo(() => {
+    if (appMode === "scenario") return scenarioLkp ? [scenarioLkp] : [];
+    return lkps.filter((k) => !k.hidden);
+  }, [appMode, lkps, scenarioLkp]);
+
+  // one envelope per source, each aged from its own time
+  const sourceEnvelopes = useMemo(() => {
+    if (!showEnvelope || !effectiveWind) return [];
     const windSpeedMph = mpsToMph(effectiveWind.wind_speed_mps);
-    const nowForModel = appMode === "scenario"
-      ? addMinutesIso(activeForModel.timeISO, scenarioElapsedMin)
-      : nowISO;
-
-    return computeScentEnvelope({
-      lkp_lat: activeForModel.lat,
-      lkp_lon: activeForModel.lon,
-      lkp_time_iso: activeForModel.timeISO,
-      now_time_iso: nowForModel,
-      wind_from_deg: effectiveWind.wind_dir_from_deg,
-      wind_speed_mph: windSpeedMph,
-      temperature_f: tempF,
-      rel_humidity_pct: rh,
-      cloud,
-      precip,
-      recent_rain: recentRain,
-      terrain,
-      stability,
+    const nowMs = Date.parse(modelNowISO);
+
+    return modelSources
+      // a clue dated after model time has laid no scent yet
+      .filter((k) => Date.parse(k.timeISO) <= nowMs)
+      .map((k) => ({
+        source: k,
+        color: sourceColor(k, Math.max(0, lkps.findIndex((x) => x.id === k.id))),
+        envelope: computeScentEnvelope({
+          lkp_lat: k.lat,
+          lkp_lon: k.lon,
+          lkp_time_iso: k.timeISO,
+          now_time_iso: modelNowISO,
+          wind_from_deg: effectiveWind.wind_dir_from_deg,
+          wind_speed_mph: windSpeedMph,
+          temperature_f: effTempF,
+          rel_humidity_pct: effRh,
+          cloud: effectiveCloud,
+          precip: effPrecip,
+          recent_rain: effRecentRain,
+          terrain,
+          stability: effectiveStability,
+          pasquill_class: effectivePasquill,
+          wind_series: windSeriesForModel,
+          engine,
+          traps,
+          dem: demModel,
+          land_cover: landCover,
+          barriers,
+        }),
+      }));
+  }, [showEnvelope, modelSources, lkps, effectiveWind, modelNowISO, effTempF, effRh, effectiveCloud, effPrecip, effRecentRain, terrain, effectiveStability, effectivePasquill, windSeriesForModel, engine, traps, demModel, landCover, barriers]);
+
+  // the active source drives confidence, start points, notes and time bands
+  const envelopeNow = useMemo(
+    () => sourceEnvelopes.find((e) => e.source.id === activeForModel?.id)?.envelope ?? null,
+    [sourceEnvelopes, activeForModel]
+  );
+
+  const mergedEnvelope = useMemo(() => {
+    if (envelopeView !== "merged" || sourceEnvelopes.length < 2) return null;
+    try {
+      return mergeEnvelopes(sourceEnvelopes.map((e) => e.envelope.polygons));
+    } catch {
+      // the clipper can still give up on an odd overlap; each source's envelope is drawn instead
+      // and the panel says so
+      return null;
+    }
+  }, [envelopeView, sourceEnvelopes]);
+
+  function moveSource(id: string, dir: -1 | 1) {
+    setLkps((prev) => {
+      const i = prev.findIndex((k) => k.id === id);
+      const j = i + dir;
+      if (i < 0 || j < 0 || j >= prev.length) return prev;
+      const next = prev.slice();
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
     });
-  }, [showEnvelope, activeForModel, effectiveWind, appMode, scenarioElapsedMin, nowISO, tempF, rh, cloud, precip, recentRain, terrain, stability]);
+  }
+
+  function updateSource(id: string, patch: Partial<LKP>) {
+    setLkps((prev) => prev.map((k) => (k.id === id ? { ...k, ...patch } : k)));
+  }
+
+  function removeSource(id: string) {
+    const rest = lkps.filter((k) => k.id !== id);
+    setLkps(rest);
+    if (activeLkpId === id) setActiveLkpId(rest[0]?.id ?? null);
+  }
 
   const envelopeBands = useMemo(() => {
     if (!showEnvelope || !showTimeBands || !activeForModel || !effectiveWind) return null;
@@ -239,81 +1121,686 @@ export default function LiveMap() {
         now_time_iso: addMinutesIso(activeForModel.timeISO, mins),
         wind_from_deg: effectiveWind.wind_dir_from_deg,
         wind_speed_mph: windSpeedMph,
-        temperature_f: tempF,
-        rel_humidity_pct: rh,
-        cloud,
-        precip,
-        recent_rain: recentRain,
+        temperature_f: effTempF,
+        rel_humidity_pct: effRh,
+        cloud: effectiveCloud,
+        precip: effPrecip,
+        recent_rain: effRecentRain,
         terrain,
-        stability,
+        stability: effectiveStability,
+        pasquill_class: effectivePasquill,
+        wind_series: windSeriesForModel,
+        engine,
+        dem: demModel,
+        land_cover: landCover,
+        barriers,
       });
 
       return { minutes: mins, polygons: e.polygons, confidence_score: e.confidence_score, confidence_band: e.confidence_band };
     });
-  }, [showEnvelope, showTimeBands, bandSet, activeForModel, effectiveWind, tempF, rh, cloud, precip, recentRain, terrain, stability]);
+  }, [showEnvelope, showTimeBands, bandSet, activeForModel, effectiveWind, effTempF, effRh, effectiveCloud, effPrecip, effRecentRain, terrain, effectiveStability, effectivePasquill, windSeriesForModel, engine, demModel, landCover, barriers]);
+
+  const coverage = useMemo(() => {
+    if (!sourceEnvelopes.length || !effectiveWind || !tracks.length) return null;
+    return computeCoverage({
+      polygons: sourceEnvelopes.map((e) => e.envelope.polygons),
+      tracks,
+      wind_from_deg: effectiveWind.wind_dir_from_deg,
+      detection_width_m: detectionWidthM,
+    });
+  }, [sourceEnvelopes, effectiveWind, tracks, detectionWidthM]);
+
+  const alertCones = useMemo(
+    () => alerts.map((a) => ({ id: a.id, polygon: backProjectionCone(a, alertRangeM) })),
+    [alerts, alertRangeM]
+  );
+
+  const sourceArea = useMemo(() => locateSource(alerts, alertRangeM), [alerts, alertRangeM]);
+
+  // start points and envelope sectors of the active source a team can be sent to (only
+  // clipped once there is a team to send)
+  const hasTeams = teams.length > 0;
+  const assignTargets = useMemo((): AssignmentTarget[] => {
+    if (!hasTeams || !envelopeNow || !activeForModel) return [];
+    const src = activeForModel.label ?? "LKP";
+    return [
+      ...envelopeNow.recommended_start_points.map((p): AssignmentTarget => ({ kind: "start", label: p.label, point: p.point })),
+      ...envelopeSectors(envelopeNow.polygons, activeForModel).map(
+        (sec): AssignmentTarget => ({ kind: "sector", sectorId: sec.id, label: `${sec.label} • ${src}`, polygons: sec.polygons })
+      ),
+    ];
+  }, [hasTeams, envelopeNow, activeForModel]);
+
+  const mapAssignments = useMemo(
+    () =>
+      assignments.flatMap((a) => {
+        const team = teams.find((t) => t.id === a.teamId);
+        const point = targetPoint(a.target);
+        if (!team || !point) return [];
+        return [
+          {
+            id: a.id,
+            team: team.name,
+            callSign: team.callSign,
+            color: team.color,
+            target: a.target.label,
+            status: statusLabel(a.status),
+            done: a.status === "returned",
+            point,
+            polygons: a.target.kind === "sector" ? a.target.polygons : undefined,
+          },
+        ];
+      }),
+    [assignments, teams]
+  );
 
   const windText = useMemo(() => {
     if (!effectiveWind) return "Wind: (not fetched yet)";
-    const mph = mpsToMph(effectiveWind.wind_speed_mps);
     const from = Math.round(effectiveWind.wind_dir_from_deg);
-    return `Wind from ${from}° @ ${mph.toFixed(1)} mph`;
-  }, [effectiveWind]);
+    return `Wind from ${from}° @ ${formatSpeed(effectiveWind.wind_speed_mps, units)}`;
+  }, [effectiveWind, units]);
+
+  // what the recorder stamps on a frame, set once that minute has rendered
+  useEffect(() => {
+    renderedFrameRef.current = {
+      min: scenarioElapsedMin,
+      caption: `${scenarioLabel} • T+${scenarioElapsedMin} min • ${new Date(modelNowISO).toLocaleString()} • ${windText}`,
+    };
+  }, [scenarioElapsedMin, scenarioLabel, modelNowISO, windText]);
+
+  function stopPlayback() {
+    if (playTimerRef.current != null) window.clearInterval(playTimerRef.current);
+    playTimerRef.current = null;
+    setPlaying(false);
+  }
+
+  // hourly wind for the whole run, fetched once before playing (kept as is when offline)
+  async function loadPlaybackWind() {
+    if (!scenarioLL || windMode === "manual") return;
+    const endISO = addMinutesIso(scenarioLkpISO, playEndMin);
+    const covers = (s: WindSeriesPoint[] | undefined | null) =>
+      !!s?.length && !!windAtTime(s, scenarioLkpISO) && !!windAtTime(s, endISO);
+    try {
+      if (useWindHistory) {
+        if (!covers(windSeries)) await fetchWindHistory(scenarioLL.lat, scenarioLL.lon, scenarioLkpISO, endISO);
+      } else if (windMode === "historical" && hourlyPlaybackWind && !covers(windTimeline?.series)) {
+        await fetchTimeline(scenarioLL.lat, scenarioLL.lon, addMinutesIso(scenarioLkpISO, playEndMin / 2));
+      }
+    } catch {
+      // play on with the wind already loaded
+    }
+  }
+
+  async function startPlayback() {
+    if (playing) return;
+    await loadPlaybackWind();
+    setSelectedWindHour(null);
+    playMinRef.current = scenarioElapsedMin >= playEndMin ? 0 : scenarioElapsedMin;
+    setScenarioElapsedMin(playMinRef.current);
+    setPlaying(true);
+
+    // at most ~20 envelope updates a second; faster speeds take bigger steps
+    const step = Math.max(1, Math.ceil(playSpeed / 20));
+    playTimerRef.current = window.setInterval(() => {
+      playMinRef.current = Math.min(playEndMin, playMinRef.current + step);
+      setScenarioElapsedMin(playMinRef.current);
+      if (playMinRef.current >= playEndMin) stopPlayback();
+    }, (1000 * step) / playSpeed);
+  }
+
+  function scrubTo(min: number) {
+    playMinRef.current = min;
+    setScenarioElapsedMin(min);
+  }
+
+  const recordMinutes = useMemo(() => {
+    const mins: number[] = [];
+    for (let m = 0; m < playEndMin; m += recordStepMin) mins.push(m);
+    mins.push(playEndMin);
+    return mins;
+  }, [playEndMin, recordStepMin]);
+
+  async function recordPlayback() {
+    const node = exportRef.current;
+    if (!node || recording) return;
+    stopPlayback();
+    await loadPlaybackWind();
+    setSelectedWindHour(null);
+    recordCancelRef.current = false;
+    // same pace as live playback at the chosen speed
+    const fps = Math.max(1, Math.min(10, playSpeed / recordStepMin));
+    try {
+      const rec = frameRecorder(recordFormat, fps);
+      for (let i = 0; i < recordMinutes.length; i++) {
+        if (recordCancelRef.current) return;
+        const m = recordMinutes[i];
+        setRecording({ frame: i + 1, frames: recordMinutes.length });
+        scrubTo(m);
+        // wait for React to render this minute, then a frame for Leaflet to paint it
+        for (let tries = 0; renderedFrameRef.current.min !== m && tries < 60; tries++) await nextFrame();
+        await nextFrame();
+        const map = await toCanvas(node, { pixelRatio: 1 });
+        await rec.add(captionFrame(map, renderedFrameRef.current.caption));
+      }
+      const blob = await rec.finish();
+      downloadBlob(blob, `${safeFileName(scenarioLabel || "scenario")}_playback_${fileStamp()}.${recordFormat}`);
+    } catch (e: unknown) {
+      alert(`Recording failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setRecording(null);
+    }
+  }
+
+  const basemaps = useMemo(
+    () => [...BASEMAPS, ...(localTiles ? [localBasemap(localTiles)] : []), ...customBasemaps.map((b) => customBasemap(b.id, b.label, b.url))],
+    [localTiles, customBasemaps]
+  );
+  const basemap = basemaps.find((b) => b.id === basemapId) ?? DEFAULT_BASEMAP;
+
+  function chooseBasemap(id: string) {
+    setBasemapId(id);
+    savePreferences({ basemap: id });
+  }
+
+  function addCustomBasemap() {
+    const url = newBasemapUrl.trim();
+    if (!validTileTemplate(url)) return;
+    const b = { id: uid("basemap"), label: newBasemapLabel.trim() || `Custom ${customBasemaps.length + 1}`, url };
+    const next = [...customBasemaps, b];
+    setCustomBasemaps(next);
+    savePreferences({ customBasemaps: next });
+    chooseBasemap(b.id);
+    setNewBasemapLabel("");
+    setNewBasemapUrl("");
+  }
+
+  function removeCustomBasemap(id: string) {
+    const next = customBasemaps.filter((b) => b.id !== id);
+    setCustomBasemaps(next);
+    savePreferences({ customBasemaps: next });
+    if (basemapId === id) chooseBasemap(DEFAULT_BASEMAP.id);
+  }
+
+  // no point caching levels the source only scales up
+  const basemapMaxZoom = basemap.maxNativeZoom ?? basemap.maxZoom;
+  const areaMaxZoom = Math.max(tileMinZoom, Math.min(tileMaxZoom, basemapMaxZoom));
+  const tilesForView = viewBounds ? countTiles(viewBounds, tileMinZoom, areaMaxZoom) : 0;
+
+  async function downloadViewTiles() {
+    if (!viewBounds) return;
+    const ctrl = new AbortController();
+    tileAbortRef.current = ctrl;
+    setTileProgress({ done: 0, total: tilesForView });
+    try {
+      const label = tileAreaLabel.trim() || `Area ${tileAreas.length + 1}`;
+      const { failed } = await downloadTileArea(basemap, label, viewBounds, tileMinZoom, areaMaxZoom, {
+        signal: ctrl.signal,
+        onProgress: (done, total) => setTileProgress({ done, total }),
+      });
+      setTileAreaLabel("");
+      if (failed) alert(`${failed} tile(s) could not be downloaded; those spots will be blank offline.`);
+    } catch (e: unknown) {
+      if (!ctrl.signal.aborted) alert(`Download failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      tileAbortRef.current = null;
+      setTileProgress(null);
+      setTileAreas(listTileAreas());
+      setStorage(await storageUsage());
+    }
+  }
+
+  async function purgeArea(id: string) {
+    await purgeTileArea(id);
+    setTileAreas(listTileAreas());
+    setStorage(await storageUsage());
+  }
+
+  const measurement = useMemo(() => (measurePts.length === 2 ? inverse(measurePts[0], measurePts[1]) : null), [measurePts]);
+
+  function exportInput(): ExportInput {
+    return {
+      incidentName: incident?.name ?? "K9 Scent Cone",
+      modelTimeISO: modelNowISO,
+      envelope: envelopeNow,
+      bands: envelopeBands,
+      lkps: appMode === "live" ? lkps : (scenarioLkp ? [scenarioLkp] : []),
+      activeLkpId: appMode === "live" ? activeLkpId : (scenarioLkp ? scenarioLkp.id : null),
+      traps,
+      wind: effectiveWind
+        ? {
+            from_deg: effectiveWind.wind_dir_from_deg,
+            speed_mph: mpsToMph(effectiveWind.wind_speed_mps),
+            source: windMode === "manual" ? "manual" : effectiveWind.provider,
+            model: effectiveWind.model,
+          }
+        : null,
+      engine,
+      coordFormat,
+      units,
+    };
+  }
+
+  function exportGeoJSON() {
+    const input = exportInput();
+    const fc = buildIncidentGeoJSON(input);
+    downloadText(JSON.stringify(fc, null, 2), `${safeFileName(input.incidentName)}_${fileStamp()}.geojson`, "application/geo+json");
+  }
+
+  function exportKML() {
+    const input = exportInput();
+    const kml = buildIncidentKML({ ...input, deploymentNotes: envelopeNow?.deployment_notes });
+    downloadText(kml, `${safeFileName(input.incidentName)}_${fileStamp()}.kml`, "application/vnd.google-earth.kml+xml");
+  }
+
+  async function exportKMZ() {
+    const input = exportInput();
+    let png: Uint8Array | undefined;
+    if (kmzSnapshot && exportRef.current) {
+      try {
+        png = dataUrlToBytes(await toPng(exportRef.current, { cacheBust: true, pixelRatio: 2 }));
+      } catch {
+        // tiles can fail to rasterize offline; still export the vectors
+        png = undefined;
+      }
+    }
+    const kmz = buildIncidentKMZ({ ...input, deploymentNotes: envelopeNow?.deployment_notes }, png);
+    downloadBlob(new Blob([kmz as BlobPart], { type: "application/vnd.google-earth.kmz" }), `${safeFileName(input.incidentName)}_${fileStamp()}.kmz`);
+  }
+
+  async function importGeoJSON(file: File) {
+    try {
+      const pic = parseIncidentGeoJSON(JSON.parse(await file.text()));
+      if (!pic.lkps.length && !pic.traps.length) throw new Error("No LKPs or traps found in file");
+
+      if (appMode === "scenario" && pic.lkps.length) {
+        const k = pic.lkps.find((x) => x.id === pic.activeLkpId) ?? pic.lkps[0];
+        setScenarioLL({ lat: k.lat, lon: k.lon });
+        setScenarioLkpISO(k.timeISO);
+        if (k.label) setScenarioLabel(k.label);
+      } else if (pic.lkps.length) {
+        const ids = new Set(pic.lkps.map((k) => k.id));
+        setLkps((prev) => [...pic.lkps, ...prev.filter((k) => !ids.has(k.id))]);
+        setActiveLkpId(pic.activeLkpId);
+      }
+
+      const trapIds = new Set(pic.traps.map((t) => t.id));
+      setTraps((prev) => [...pic.traps, ...prev.filter((t) => !trapIds.has(t.id))]);
+
+      const first = pic.lkps[0] ?? pic.traps[0];
+      if (first && mapRef.current) mapRef.current.setView([first.lat, first.lon], mapRef.current.getZoom());
+
+      alert(`Imported ${pic.lkps.length} LKP(s) and ${pic.traps.length} trap(s)` + (pic.skipped ? `, skipped ${pic.skipped} feature(s).` : "."));
+    } catch (e: unknown) {
+      alert(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  async function importTracks(files: File[]) {
+    const added: Track[] = [];
+    const failed: string[] = [];
+    for (const f of files) {
+      try {
+        added.push(...parseTrackFile(f.name, await f.text(), [...tracks, ...added]));
+      } catch (e: unknown) {
+        failed.push(`${f.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    if (added.length) {
+      setTracks((prev) => [...prev, ...added]);
+      const p = added[0].points[0];
+      if (mapRef.current) mapRef.current.setView([p.lat, p.lon], mapRef.current.getZoom());
+    }
+    if (failed.length) alert(`Imported ${added.length} track(s). Failed:\n${failed.join("\n")}`);
+  }
+
+  async function importLandCover(files: File[]) {
+    const added: LandCoverPolygon[] = [];
+    const failed: string[] = [];
+    let skipped = 0;
+    for (const f of files) {
+      try {
+        const r = parseLandCoverFile(f.name, await f.text(), newCoverTerrain);
+        added.push(...r.cover);
+        skipped += r.skipped;
+      } catch (e: unknown) {
+        failed.push(`${f.name}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    if (added.length) setLandCover((prev) => [...prev, ...added]);
+    if (failed.length || skipped) {
+      alert(`Imported ${added.length} land-cover polygon(s)` + (skipped ? `, skipped ${skipped} feature(s)` : "") + (failed.length ? `. Failed:\n${failed.join("\n")}` : "."));
+    }
+  }
+
+  function finishCoverDraft() {
+    if (coverDraft.length >= 3) {
+      setLandCover((prev) => [...prev, { id: uid("lc"), terrain: newCoverTerrain, label: TERRAIN_INFO[newCoverTerrain].label, polygon: coverDraft }]);
+    }
+    setCoverDraft([]);
+    setMapMode("setSource");
+  }
+
+  function finishBarrierDraft() {
+    if (barrierDraft.length >= (newBarrierClosed ? 3 : 2)) {
+      setBarriers((prev) => [
+        ...prev,
+        {
+          id: uid("bar"),
+          kind: newBarrierKind,
+          label: newBarrierLabel.trim() || `${BARRIER_KINDS[newBarrierKind].label} ${prev.length + 1}`,
+          points: barrierDraft,
+          closed: newBarrierClosed,
+        },
+      ]);
+      setNewBarrierLabel("");
+    }
+    setBarrierDraft([]);
+    setMapMode("setSource");
+  }
+
+  function setTrackTeam(id: string, team: string) {
+    setTracks((prev) => {
+      const others = prev.filter((t) => t.id !== id);
+      return prev.map((t) => (t.id === id ? { ...t, team, color: colorForTeam(team, others) } : t));
+    });
+  }
+
+  function addTeam() {
+    const name = newTeamFields.name.trim();
+    if (!name) return;
+    setTeams((prev) => [...prev, newTeam({ ...newTeamFields, name }, prev, tracks)]);
+    setNewTeamFields({ name: "", handler: "", dog: "", callSign: "" });
+  }
+
+  function removeTeam(id: string) {
+    setTeams((prev) => prev.filter((t) => t.id !== id));
+    setAssignments((prev) => prev.filter((a) => a.teamId !== id));
+  }
+
+  function targetKey(t: AssignmentTarget) {
+    return t.kind === "start" ? `start:${t.label}` : `sector:${t.sectorId}`;
+  }
+
+  function assignTeam() {
+    const team = teams.find((t) => t.id === assignTeamId) ?? teams[0];
+    const target = assignTargets.find((t) => targetKey(t) === assignTargetKey) ?? assignTargets[0];
+    if (!team || !target) return;
+    setAssignments((prev) => [...prev, newAssignment(team.id, target)]);
+  }
+
+  function updateAssignment(id: string, patch: (a: Assignment) => Assignment) {
+    setAssignments((prev) => prev.map((a) => (a.id === id ? patch(a) : a)));
+  }
+
+  function windSourceText() {
+    if (!effectiveWind) return undefined;
+    if (windMode === "manual") return "manual";
+    return `${providerLabel(effectiveWind.provider)}${effectiveWind.model ? ` (${effectiveWind.model})` : ""}`;
+  }
 
   async function exportPNG() {
     if (!exportRef.current) return;
     const dataUrl = await toPng(exportRef.current, { cacheBust: true, pixelRatio: 2 });
-    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const a = document.createElement("a");
-    a.href = dataUrl;
-    a.download = `k9_scent_cone_${stamp}.png`;
-    a.click();
+    const model = new Date(modelNowISO);
+    await downloadDataUrlPNG_ICS(dataUrl, `k9_scent_cone_${fileStamp()}.png`, {
+      notes: briefingNotes,
+      lat: selectedLL?.lat,
+      lon: selectedLL?.lon,
+      location: selectedLL ? formatCoord(selectedLL, coordFormat) : undefined,
+      windSource: windSourceText(),
+      windFromDeg: effectiveWind?.wind_dir_from_deg,
+      windSpeedMph: effectiveWind && units === "imperial" ? mpsToMph(effectiveWind.wind_speed_mps) : undefined,
+      windSpeedMps: effectiveWind && units === "metric" ? effectiveWind.wind_speed_mps : undefined,
+      timeLocal: model.toLocaleString(),
+      timeUtc: model.toISOString().slice(0, 16).replace("T", " ") + "Z",
+      coneLengthPx: lengthPx,
+      coneHalfAngleDeg: halfAngleDeg,
+      basemap: basemap.label,
+    });
+  }
+
+  function setZoneStyle(z: Zone, patch: Partial<ZoneStyle>) {
+    const next = { ...zoneStyles, [z]: { ...symbology.zones[z], ...patch } };
+    setZoneStyles(next);
+    savePreferences({ zoneStyles: next });
+  }
+
+  // map symbols actually on screen, for the on-map and briefing legends
+  function mapLegend(): BriefingLegendItem[] {
+    const items: BriefingLegendItem[] = [];
+    if (envelopeNow) {
+      if (sourceEnvelopes.length > 1 && !mergedEnvelope) {
+        sourceEnvelopes.forEach((e) => items.push({ label: `${e.source.label ?? "LKP"} envelope`, color: e.color, style: "fill" }));
+      } else {
+        (["core", "fringe", "residual"] as const).forEach((z) => items.push({ label: `${ZONE_LABELS[z]} zone`, color: symbology.zones[z].color, style: "fill" }));
+      }
+      if (envelopeBands?.length) {
+        items.push({ label: `Time bands (${envelopeBands.map((b) => b.minutes).join("/")} min)`, color: symbology.band, style: "dash" });
+      }
+      if (envelopeNow.recommended_start_points.length) items.push({ label: "Start point", color: symbology.start, style: "dot" });
+    }
+    if (traps.length) items.push({ label: "Terrain trap", color: TRAP_TYPES.drainage.color, style: "dot" });
+    new Set(landCover.map((c) => c.terrain)).forEach((t) => items.push({ label: `${TERRAIN_INFO[t].label} cover`, color: TERRAIN_INFO[t].color, style: "fill" }));
+    new Set(barriers.map((b) => b.kind)).forEach((k) => items.push({ label: `${BARRIER_KINDS[k].label} barrier`, color: BARRIER_KINDS[k].color, style: "fill" }));
+    new Map(tracks.map((t) => [t.team, t.color])).forEach((color, team) => items.push({ label: `Track: ${team}`, color, style: "line" }));
+    if (showCoverageGaps && coverage?.gaps.length) items.push({ label: "Unworked gap", color: "#dc2626", style: "fill" });
+    if (alerts.length) items.push({ label: "Dog alert / interest", color: "#16a34a", style: "dot" });
+    if (sourceArea) items.push({ label: "Probable source area", color: "#22c55e", style: "fill" });
+    teams
+      .filter((t) => assignments.some((a) => a.teamId === t.id))
+      .forEach((t) => items.push({ label: `Assigned: ${t.name}`, color: t.color, style: "dash" }));
+    return items;
+  }
+
+  function briefingInput(mapDataUrl: string | null): BriefingInput {
+    const sources = appMode === "live" ? lkps : (scenarioLkp ? [scenarioLkp] : []);
+    return {
+      incidentName: incident?.name ?? "K9 Scent Cone",
+      modelTimeISO: modelNowISO,
+      mapDataUrl,
+      legend: mapLegend(),
+      conditions: [
+        ["Wind", effectiveWind ? `${windText} • ${windSourceText()}` : "not fetched"],
+        ["Temperature", `${Math.round(effTempF)} °F`],
+        ["Humidity", `${Math.round(effRh)} %`],
+        ["Sky", effectiveCloud],
+        ["Precipitation", `${effPrecip}${effRecentRain ? " (recent rain)" : ""}`],
+        ["Terrain", `${TERRAIN_INFO[terrain].label}${landCover.length ? ` + ${landCover.length} land-cover patch(es)` : ""}`],
+        ["Stability", envelopeNow ? `${envelopeNow.pasquill_class} — ${describePasquill(envelopeNow.pasquill_class)}` : effectiveStability],
+        ["Engine", engine === "gaussian" ? "Gaussian plume" : "Empirical"],
+        ["Basemap", `${basemap.label}${hillshadeTiles ? " + hillshade" : ""}`],
+        ["Since LKP", envelopeNow ? `${envelopeNow.minutes_since_lkp} min` : "n/a"],
+        ...ZONE_NAMES.map(([z, name]): [string, string] => {
+          const m = envelopeNow?.metrics[z];
+          return [
+            `${name} size`,
+            m ? `${formatDistance(m.length_m, units)} × ${formatDistance(m.max_width_m, units)}, ${formatArea(m.area_m2, units)}` : "n/a",
+          ];
+        }),
+      ],
+      confidence: envelopeNow
+        ? { score: envelopeNow.confidence_score, band: envelopeNow.confidence_band, resetMin: envelopeNow.reset_recommendation_minutes }
+        : null,
+      deploymentNotes: envelopeNow?.deployment_notes ?? [],
+      sources: sources.map((k) => ({
+        label: k.label ?? "LKP",
+        lat: k.lat,
+        lon: k.lon,
+        detail: `${k.kind === "clue" ? "Clue" : "LKP"} • ${new Date(k.timeISO).toLocaleString()}`,
+      })),
+      startPoints: (envelopeNow?.recommended_start_points ?? []).map((p) => ({ label: p.label, lat: p.point.lat, lon: p.point.lon })),
+      planningNotes: briefingNotes,
+      coordFormat,
+    };
+  }
+
+  // tiles can fail to rasterize offline; printouts then go without the map
+  async function mapSnapshot() {
+    if (!exportRef.current) return null;
+    try {
+      return await toPng(exportRef.current, { cacheBust: true, pixelRatio: 2 });
+    } catch {
+      return null;
+    }
+  }
+
+  async function exportAssignmentSheets() {
+    setSheetsBusy(true);
+    try {
+      const first = assignments.map((a) => a.history[0]?.timeISO).filter(Boolean).sort()[0] ?? modelNowISO;
+      const input: AssignmentSheetInput = {
+        incidentName: incident?.name ?? "K9 Scent Cone",
+        operationalPeriod: `from ${new Date(first).toLocaleString()}`,
+        mapDataUrl: await mapSnapshot(),
+        teams: teams.map((t) => ({
+          name: t.name,
+          handler: t.handler,
+          dog: t.dog,
+          callSign: t.callSign,
+          assignments: assignments
+            .filter((a) => a.teamId === t.id)
+            .flatMap((a) => {
+              const p = targetPoint(a.target);
+              if (!p) return [];
+              return [{ target: a.target.label, lat: p.lat, lon: p.lon, status: statusLabel(a.status), timeline: statusTimeline(a), notes: a.notes }];
+            }),
+        })),
+        specialInstructions: [
+          effectiveWind ? `${windText} (${windSourceText()})` : "Wind not fetched; check conditions before deploying.",
+          ...(envelopeNow
+            ? [`Confidence ${envelopeNow.confidence_score} (${envelopeNow.confidence_band}); re-run the model in ${envelopeNow.reset_recommendation_minutes} min.`, ...envelopeNow.deployment_notes]
+            : []),
+        ],
+        coordFormat,
+      };
+      const pages = await renderAssignmentPages(input);
+      downloadBlob(new Blob([briefingPdf(pages) as BlobPart], { type: "application/pdf" }), `${safeFileName(input.incidentName)}_ics204_${fileStamp()}.pdf`);
+    } catch (e: unknown) {
+      alert(`ICS-204 export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setSheetsBusy(false);
+    }
+  }
+
+  async function exportBriefing(format: "pdf" | "png") {
+    setBriefingBusy(true);
+    try {
+      const input = briefingInput(await mapSnapshot());
+      const pages = await renderBriefingPages(input);
+      const name = `${safeFileName(input.incidentName)}_briefing_${fileStamp()}`;
+      if (format === "pdf") {
+        downloadBlob(new Blob([briefingPdf(pages) as BlobPart], { type: "application/pdf" }), `${name}.pdf`);
+      } else {
+        const a = document.createElement("a");
+        a.href = briefingPngDataUrl(pages);
+        a.download = `${name}.png`;
+        a.click();
+      }
+    } catch (e: unknown) {
+      alert(`Briefing export failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBriefingBusy(false);
+    }
   }
 
   return (
     <div className="shell">
-      {/* MAP */}
-      <div className="card mapCard" ref={mapWrapRef} style={{ position: "relative" }}>
-        <div ref={exportRef} style={{ position: "absolute", inset: 0 }}>
-          <LeafletMapInner
-            center={center}
-            zoom={zoom}
-            onMapClick={onMapClick}
-            onMapReady={onMapReady}
-            onViewChanged={onViewChanged}
-            showUserLocation={showUserLocation}
-            followUser={followUser}
-            locateToken={locateToken}
-            centerOnMeToken={centerOnMeToken}
-            onUserLocation={(lat: number, lon: number) => setUserLoc({ lat, lon })}
-            showEnvelope={showEnvelope}
-            envelopeNow={envelopeNow ? envelopeNow.polygons : null}
-            envelopeBands={envelopeBands}
-            startPoints={envelopeNow ? envelopeNow.recommended_start_points : null}
-            traps={traps}
-            lkps={appMode === "live" ? lkps : (scenarioLkp ? [scenarioLkp] : [])}
-            activeLkpId={appMode === "live" ? activeLkpId : (scenarioLkp ? scenarioLkp.id : null)}
-          />
-
-          {/* Cone overlay */}
-          <div style={{ position: "absolute", inset: 0, zIndex: 999, pointerEvents: "none" }}>
-            <ConeCanvas
-              width={size.w}
-              height={size.h}
-              srcPoint={srcPoint}
-              wind={effectiveWind}
-              lengthPx={lengthPx}
-              halfAngleDeg={halfAngleDeg}
-              label={selectedLL ? `Point @ ${selectedLL.lat.toFixed(5)}, ${selectedLL.lon.toFixed(5)}` : "Click map to set point"}
+      <div className="mapColumn">
+        {/* MAP */}
+        <div className="card mapCard" ref={mapWrapRef} style={{ position: "relative" }}>
+          <div ref={exportRef} style={{ position: "absolute", inset: 0 }}>
+            <LeafletMapInner
+              center={center}
+              zoom={zoom}
+              onMapClick={onMapClick}
+              onMapReady={onMapReady}
+              onViewChanged={onViewChanged}
+              showUserLocation={showUserLocation}
+              followUser={followUser}
+              locateToken={locateToken}
+              centerOnMeToken={centerOnMeToken}
+              onUserLocation={(lat: number, lon: number) => setUserLoc({ lat, lon })}
+              showEnvelope={showEnvelope}
+              envelopeNow={sourceEnvelopes.length < 2 && envelopeNow ? envelopeNow.polygons : null}
+              sourceEnvelopes={
+                sourceEnvelopes.length > 1 && !mergedEnvelope
+                  ? sourceEnvelopes.map((e) => ({ id: e.source.id, color: e.color, polygons: e.envelope.polygons }))
+                  : null
+              }
+              mergedEnvelope={mergedEnvelope}
+              envelopeBands={envelopeBands}
+              startPoints={envelopeNow ? envelopeNow.recommended_start_points : null}
+              symbology={symbology}
+              bandOrigin={activeForModel}
+              basemap={basemap}
+              hillshadeTiles={hillshadeTiles}
+              hillshadeOpacity={hillshadeOpacity}
+              hillshade={
+                showHillshade && demGrid && hillshadeUrl
+                  ? { url: hillshadeUrl, bounds: [[demGrid.south, demGrid.west], [demGrid.north, demGrid.east]] }
+                  : null
+              }
+              landCover={landCover}
+              coverDraft={mapMode === "drawCover" ? coverDraft : null}
+              barriers={barriers}
+              barrierDraft={mapMode === "drawBarrier" ? { points: barrierDraft, closed: newBarrierClosed } : null}
+              clippedEnvelope={showEnvelope ? sourceEnvelopes.flatMap((e) => e.envelope.barrier_clipped) : null}
+              traps={traps}
+              flaggedTrapIds={envelopeNow ? envelopeNow.trap_flags.map((f) => f.id) : null}
+              tracks={tracks}
+              assignments={mapAssignments}
+              coverageGaps={showCoverageGaps && coverage ? coverage.gaps : null}
+              alerts={alerts}
+              alertCones={alertCones}
+              sourceArea={sourceArea}
+              lkps={appMode === "live" ? lkps.map((k, i) => ({ ...k, color: sourceColor(k, i) })) : (scenarioLkp ? [scenarioLkp] : [])}
+              activeLkpId={appMode === "live" ? activeLkpId : (scenarioLkp ? scenarioLkp.id : null)}
+              coordFormat={coordFormat}
+              units={units}
+              measureLine={measurePts.length ? measurePts : null}
             />
-          </div>
 
-          {/* Footer chip (included in export) */}
-          <div className="footerChip">
-            {envelopeNow
-              ? `Confidence: ${envelopeNow.confidence_score} (${envelopeNow.confidence_band}) • ${windText}`
-              : windText}
+            {showLegend && <MapLegend items={mapLegend()} />}
+
+            {/* Cone overlay */}
+            <div style={{ position: "absolute", inset: 0, zIndex: 999, pointerEvents: "none" }}>
+              <ConeCanvas
+                width={size.w}
+                height={size.h}
+                srcPoint={srcPoint}
+                wind={effectiveWind}
+                lengthPx={lengthPx}
+                halfAngleDeg={halfAngleDeg}
+                label={selectedLL ? `Point @ ${formatCoord(selectedLL, coordFormat)}` : "Click map to set point"}
+                units={units}
+              />
+            </div>
+
+            {/* Footer chip (included in export) */}
+            <div className="footerChip">
+              {envelopeNow
+                ? `Confidence: ${envelopeNow.confidence_score} (${envelopeNow.confidence_band}) • ${windText}`
+                : windText}
+            </div>
           </div>
         </div>
+
+        {windMode !== "manual" && (
+          <WindTimeline
+            points={windTimeline?.series ?? []}
+            modelTimeISO={modelNowISO}
+            selectedUtc={selectedWindHour}
+            onSelect={setSelectedWindHour}
+            source={windTimeline ? `${providerLabel(windTimeline.provider)} (${windTimeline.model})` : undefined}
+            loading={timelineLoading}
+            units={units}
+            onRefresh={
+              selectedLL
+                ? () => fetchTimeline(selectedLL.lat, selectedLL.lon, modelNowISO).catch((e: unknown) => alert(e instanceof Error ? e.message : String(e)))
+                : undefined
+            }
+          />
+        )}
       </div>
 
       {/* PANEL */}
@@ -326,12 +1813,111 @@ export default function LiveMap() {
                 Decision-support for K9 deployment. Not a route predictor—use with field observations and handler judgement.
               </p>
             </div>
-            <span className="pill">Basemap: Neutral</span>
+            <div style={{ display: "grid", gap: 6, justifyItems: "end" }}>
+              <span className="pill">Basemap: {basemap.label}</span>
+              {syncRoom && <span className="pill" title={`Sync room ${syncRoom}`}>Sync: {syncStatusText}</span>}
+            </div>
+          </div>
+
+          <IncidentPanel
+            current={incident}
+            incidents={incidents}
+            saveStatus={saveStatus}
+            showArchived={showArchived}
+            onShowArchivedChange={(on) => {
+              setShowArchived(on);
+              refreshIncidents(on);
+            }}
+            onRename={(name) => {
+              if (!incident) return;
+              const rec = { ...incident, name };
+              setIncident(rec);
+              saveIncident(rec).then(() => refreshIncidents()).catch(() => setSaveStatus("error"));
+            }}
+            onNew={(mode) => createIncident(mode)}
+            onOpen={(id) => openIncident(id)}
+            onDuplicate={async (id) => {
+              try {
+                const copy = await duplicateIncident(id);
+                openRecord(copy);
+                await refreshIncidents();
+              } catch (e: unknown) {
+                alert(e instanceof Error ? e.message : String(e));
+              }
+            }}
+            onArchive={async (id, archived) => {
+              try {
+                const rec = await setIncidentArchived(id, archived);
+                if (incident?.id === id) setIncident(rec);
+                await refreshIncidents();
+              } catch (e: unknown) {
+                alert(e instanceof Error ? e.message : String(e));
+              }
+            }}
+            onDelete={async (id) => {
+              try {
+                await deleteIncident(id);
+                const rest = await listIncidents({ includeArchived: showArchived });
+                setIncidents(rest);
+                if (incident?.id === id) {
+                  const next = rest.find((r) => !r.archived);
+                  if (next) openRecord(next);
+                  else await createIncident(appMode);
+                }
+              } catch (e: unknown) {
+                alert(e instanceof Error ? e.message : String(e));
+              }
+            }}
+          />
+
+          <div className="section">
+            <b>Live sync</b>
+            <div className="small" style={{ marginTop: 6 }}>
+              Share LKPs, traps, alerts, wind and conditions with the other devices on a server at the ICP. The latest edit of each wins;
+              edits made offline are sent on reconnect.
+            </div>
+            {syncRoom ? (
+              <div className="row" style={{ marginTop: 10, alignItems: "center" }}>
+                <div style={{ flex: 1, fontSize: 13, color: "rgba(255,255,255,0.9)" }}>
+                  Room {syncRoom}
+                  <div className="small">
+                    {syncStatusText} • {syncServer || "this server"}
+                  </div>
+                </div>
+                <button className="btn" onClick={() => setSyncRoom(null)}>Leave</button>
+              </div>
+            ) : (
+              <>
+                <label className="label">Server (blank = the one this app came from)</label>
+                <input className="input" placeholder="http://192.168.1.20:3000" value={syncServer} onChange={(e) => setSyncServer(e.target.value)} />
+                <div className="row" style={{ marginTop: 8 }}>
+                  <input
+                    className="input"
+                    style={{ flex: 1 }}
+                    placeholder="Room, e.g. smith-search"
+                    value={syncRoomDraft}
+                    onChange={(e) => setSyncRoomDraft(e.target.value)}
+                  />
+                  <button className="btn btnPrimary" disabled={!validRoom(syncRoomDraft.trim())} onClick={joinSync}>
+                    Join
+                  </button>
+                </div>
+                <div className="small" style={{ marginTop: 6 }}>Joining takes the room&apos;s copy of any shared field it already has.</div>
+              </>
+            )}
           </div>
 
           <div className="section">
             <div className="row">
-              <button className={`btn ${appMode === "live" ? "btnPrimary" : ""}`} style={{ flex: 1 }} onClick={() => setAppMode("live")}>
+              <button
+                className={`btn ${appMode === "live" ? "btnPrimary" : ""}`}
+                style={{ flex: 1 }}
+                disabled={!!recording}
+                onClick={() => {
+                  stopPlayback();
+                  setAppMode("live");
+                }}
+              >
                 Live
               </button>
               <button className={`btn ${appMode === "scenario" ? "btnPrimary" : ""}`} style={{ flex: 1 }} onClick={() => setAppMode("scenario")}>
@@ -354,6 +1940,100 @@ export default function LiveMap() {
                 <div className="small" style={{ marginTop: 6 }}>
                   Click map to set point. If locked, uncheck lock to choose a new point.
                 </div>
+
+                <div style={{ marginTop: 12 }}>
+                  <b>LKPs & clues</b>
+                  <span className="small" style={{ marginLeft: 8 }}>top = highest priority</span>
+                </div>
+
+                <div className="row" style={{ marginTop: 8 }}>
+                  <select className="input" style={{ flex: "0 0 90px" }} value={newSourceKind} onChange={(e) => setNewSourceKind(e.target.value as SourceKind)}>
+                    <option value="lkp">LKP</option>
+                    <option value="clue">Clue</option>
+                  </select>
+                  <input
+                    className="input"
+                    style={{ flex: 1 }}
+                    placeholder={newSourceKind === "clue" ? "e.g. Dropped glove" : "e.g. Vehicle"}
+                    value={newSourceLabel}
+                    onChange={(e) => setNewSourceLabel(e.target.value)}
+                  />
+                  <button
+                    className={`btn ${mapMode === "addSource" ? "btnPrimary" : ""}`}
+                    onClick={() => setMapMode(mapMode === "addSource" ? "setSource" : "addSource")}
+                  >
+                    {mapMode === "addSource" ? "Click map…" : "Add"}
+                  </button>
+                </div>
+
+                {lkps.length > 0 && (
+                  <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
+                    {lkps.map((k, i) => (
+                      <div key={k.id} style={{ display: "grid", gap: 6, opacity: k.hidden ? 0.55 : 1 }}>
+                        <div className="row" style={{ alignItems: "center" }}>
+                          <span style={{ width: 12, height: 12, borderRadius: 6, background: sourceColor(k, i), flex: "0 0 auto" }} />
+                          <input className="input" style={{ flex: 1 }} value={k.label ?? ""} onChange={(e) => updateSource(k.id, { label: e.target.value })} />
+                          <select
+                            className="input"
+                            style={{ flex: "0 0 80px" }}
+                            value={k.kind ?? "lkp"}
+                            onChange={(e) => updateSource(k.id, { kind: e.target.value as SourceKind })}
+                          >
+                            <option value="lkp">LKP</option>
+                            <option value="clue">Clue</option>
+                          </select>
+                        </div>
+                        <div className="row" style={{ alignItems: "center" }}>
+                          <input
+                            className="input"
+                            style={{ flex: 1 }}
+                            type="datetime-local"
+                            title="Time the subject was at this point"
+                            value={isoToLocalInput(k.timeISO)}
+                            onChange={(e) => {
+                              const iso = localInputToIso(e.target.value);
+                              if (iso) updateSource(k.id, { timeISO: iso });
+                            }}
+                          />
+                          <button className="btn" style={{ padding: "6px 8px" }} disabled={i === 0} onClick={() => moveSource(k.id, -1)}>↑</button>
+                          <button className="btn" style={{ padding: "6px 8px" }} disabled={i === lkps.length - 1} onClick={() => moveSource(k.id, 1)}>↓</button>
+                        </div>
+                        <div className="row" style={{ alignItems: "center" }}>
+                          <label className="small" style={{ display: "flex", gap: 6, alignItems: "center", flex: 1 }}>
+                            <input type="checkbox" checked={!k.hidden} onChange={(e) => updateSource(k.id, { hidden: !e.target.checked })} />
+                            Show
+                          </label>
+                          <button
+                            className={`btn ${activeLkpId === k.id ? "btnPrimary" : ""}`}
+                            style={{ padding: "6px 10px" }}
+                            onClick={() => setActiveLkpId(k.id)}
+                            title="Active source drives wind fetch, start points and time bands"
+                          >
+                            {activeLkpId === k.id ? "Active" : "Make active"}
+                          </button>
+                          <button className="btn" style={{ padding: "6px 10px" }} onClick={() => removeSource(k.id)}>Remove</button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {lkps.filter((k) => !k.hidden).length > 1 && (
+                  <>
+                    <label className="label">Envelope view</label>
+                    <div className="row">
+                      <button className={`btn ${envelopeView === "sources" ? "btnPrimary" : ""}`} style={{ flex: 1 }} onClick={() => setEnvelopeView("sources")}>
+                        Per source
+                      </button>
+                      <button className={`btn ${envelopeView === "merged" ? "btnPrimary" : ""}`} style={{ flex: 1 }} onClick={() => setEnvelopeView("merged")}>
+                        Merged
+                      </button>
+                    </div>
+                    {envelopeView === "merged" && sourceEnvelopes.length > 1 && !mergedEnvelope && (
+                      <div className="small" style={{ marginTop: 4 }}>Could not merge these envelopes; showing each source instead.</div>
+                    )}
+                  </>
+                )}
               </>
             )}
 
@@ -367,7 +2047,10 @@ export default function LiveMap() {
                   className="input"
                   type="datetime-local"
                   value={isoToLocalInput(scenarioLkpISO)}
-                  onChange={(e) => setScenarioLkpISO(localInputToIso(e.target.value))}
+                  onChange={(e) => {
+                    const iso = localInputToIso(e.target.value);
+                    if (iso) setScenarioLkpISO(iso);
+                  }}
                 />
 
                 <label className="label">Minutes since LKP</label>
@@ -377,31 +2060,152 @@ export default function LiveMap() {
                   min={0}
                   max={1440}
                   value={scenarioElapsedMin}
+                  disabled={playing || !!recording}
                   onChange={(e) => setScenarioElapsedMin(Number(e.target.value))}
                 />
 
-                <div className="small" style={{ marginTop: 6 }}>
-                  Click map to set scenario location, then fetch wind.
-                </div>
-              </>
-            )}
+                <label className="label">
+                  Playback: T+{scenarioElapsedMin} min • {new Date(modelNowISO).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                </label>
+                <input
+                  className="input"
+                  type="range"
+                  min={0}
+                  max={playEndMin}
+                  value={Math.min(scenarioElapsedMin, playEndMin)}
+                  disabled={!!recording}
+                  onChange={(e) => scrubTo(Number(e.target.value))}
+                />
+                <div className="row" style={{ marginTop: 8 }}>
+                  <button
+                    className="btn"
+                    disabled={!!recording}
+                    onClick={() => {
+                      stopPlayback();
+                      scrubTo(0);
+                    }}
+                  >
+                    Reset
+                  </button>
+                  <button className="btn btnPrimary" style={{ flex: 1 }} disabled={!scenarioLkp || !!recording} onClick={playing ? stopPlayback : startPlayback}>
+                    {playing ? "Pause" : "Play"}
+                  </button>
+                  <select
+                    className="select"
+                    style={{ flex: 1 }}
+                    value={playSpeed}
+                    disabled={playing || !!recording}
+                    onChange={(e) => setPlaySpeed(Number(e.target.value))}
+                  >
+                    {PLAY_SPEEDS.map((s) => (
+                      <option key={s} value={s}>{s} min/s</option>
+                    ))}
+                  </select>
+                </div>
+
+                <label className="label">Play to (minutes since LKP)</label>
+                <input
+                  className="input"
+                  type="number"
+                  min={10}
+                  max={1440}
+                  value={playEndMin}
+                  disabled={playing || !!recording}
+                  onChange={(e) => setPlayEndMin(Math.max(10, Math.min(1440, Number(e.target.value) || 10)))}
+                />
+
+                {windMode === "historical" && (
+                  <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                    <input type="checkbox" checked={hourlyPlaybackWind} onChange={(e) => setHourlyPlaybackWind(e.target.checked)} />
+                    Wind follows the clock (hourly archive)
+                  </label>
+                )}
+
+                <label className="label">Record playback</label>
+                <div className="row">
+                  <select
+                    className="select"
+                    style={{ flex: 1 }}
+                    value={recordFormat}
+                    disabled={!!recording}
+                    onChange={(e) => setRecordFormat(e.target.value as RecordFormat)}
+                  >
+                    {RECORD_FORMATS.map((f) => (
+                      <option key={f.id} value={f.id} disabled={f.id === "webm" && !webmOk}>{f.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="select"
+                    style={{ flex: 1 }}
+                    value={recordStepMin}
+                    disabled={!!recording}
+                    onChange={(e) => setRecordStepMin(Number(e.target.value))}
+                  >
+                    {RECORD_STEPS.map((s) => (
+                      <option key={s} value={s}>every {s} min</option>
+                    ))}
+                  </select>
+                </div>
+                {recording ? (
+                  <div className="row" style={{ marginTop: 8, alignItems: "center" }}>
+                    <div className="small" style={{ flex: 1 }}>
+                      Recording frame {recording.frame}/{recording.frames}…
+                    </div>
+                    <button className="btn" onClick={() => (recordCancelRef.current = true)}>Cancel</button>
+                  </div>
+                ) : (
+                  <button
+                    className="btn btnWide"
+                    style={{ marginTop: 8 }}
+                    disabled={!scenarioLkp || playing || recordMinutes.length > MAX_RECORD_FRAMES}
+                    onClick={recordPlayback}
+                  >
+                    Record {recordMinutes.length} frames
+                  </button>
+                )}
+                {recordMinutes.length > MAX_RECORD_FRAMES && (
+                  <div className="small" style={{ marginTop: 4 }}>Over {MAX_RECORD_FRAMES} frames: record a larger step or a shorter run.</div>
+                )}
+
+                <div className="small" style={{ marginTop: 6 }}>
+                  Click map to set scenario location, then fetch wind.
+                </div>
+              </>
+            )}
           </div>
 
           <div className="section">
             <b>Wind</b>
 
+            <label className="label">Provider</label>
+            <select
+              className="input"
+              value={weatherProvider}
+              onChange={(e) => setWeatherProvider(e.target.value as WeatherProviderId)}
+            >
+              {WEATHER_PROVIDER_OPTIONS.map((o) => <option key={o.id} value={o.id}>{o.label}</option>)}
+            </select>
+
             <label className="label">Source</label>
-            <select className="input" value={windMode} onChange={(e) => setWindMode(e.target.value as any)}>
-              <option value="current">Current (Open-Meteo)</option>
-              <option value="hourly">Hourly (Open-Meteo)</option>
+            <select className="input" value={windMode} onChange={(e) => setWindMode(e.target.value as WindMode)}>
+              <option value="current">Current</option>
+              <option value="hourly">Hourly (nearest hour)</option>
               <option value="historical">Historical (scenario time)</option>
               <option value="manual">Manual</option>
             </select>
 
             {windMode === "manual" ? (
               <>
-                <label className="label">Wind speed (mph)</label>
-                <input className="input" type="number" min={0} max={60} value={manualSpeedMph} onChange={(e) => setManualSpeedMph(Number(e.target.value))} />
+                <label className="label">Wind speed ({speedUnit(units)})</label>
+                <input
+                  className="input"
+                  type="number"
+                  min={0}
+                  max={Math.round(speedFromMps(mphToMps(60), units))}
+                  step={units === "metric" ? 0.5 : 1}
+                  value={Math.round(speedFromMps(mphToMps(manualSpeedMph), units) * 10) / 10}
+                  onChange={(e) => setManualSpeedMph(mpsToMph(speedToMps(Number(e.target.value), units)))}
+                />
 
                 <label className="label">Wind from (deg)</label>
                 <input className="input" type="number" min={0} max={360} value={manualFromDeg} onChange={(e) => setManualFromDeg(Number(e.target.value))} />
@@ -412,6 +2216,7 @@ export default function LiveMap() {
                 style={{ marginTop: 10 }}
                 onClick={async () => {
                   if (!selectedLL) return alert("Set a point first (click the map).");
+                  fetchConditions(selectedLL.lat, selectedLL.lon);
                   try { await fetchWind(selectedLL.lat, selectedLL.lon); } catch (e: any) { alert(e?.message || String(e)); }
                 }}
                 disabled={!selectedLL}
@@ -420,7 +2225,48 @@ export default function LiveMap() {
               </button>
             )}
 
-            <div className="small" style={{ marginTop: 10 }}>{windText}</div>
+            <div className="small" style={{ marginTop: 10 }}>
+              {windText}
+              {windMode !== "manual" && wind?.provider && <> • via {providerLabel(wind.provider)} ({wind.model})</>}
+            </div>
+
+            <label className="label" style={{ display: "flex", gap: 10, alignItems: "center", opacity: windMode === "manual" ? 0.55 : 1 }}>
+              <input
+                type="checkbox"
+                disabled={windMode === "manual"}
+                checked={useWindHistory}
+                onChange={(e) => setUseWindHistory(e.target.checked)}
+              />
+              Follow wind history since LKP (hourly)
+            </label>
+
+            {useWindHistory && windMode !== "manual" && (
+              <>
+                <button
+                  className="btn btnWide"
+                  style={{ marginTop: 10 }}
+                  disabled={!activeForModel}
+                  onClick={async () => {
+                    if (!activeForModel) return alert("Set a point first (click the map).");
+                    const w = historyWindow(activeForModel.timeISO);
+                    try { await fetchWindHistory(activeForModel.lat, activeForModel.lon, w.fromISO, w.toISO); } catch (e: unknown) {
+                      alert(e instanceof Error ? e.message : String(e));
+                    }
+                  }}
+                >
+                  Fetch wind history (LKP → now)
+                </button>
+
+                <div className="small" style={{ marginTop: 8 }}>
+                  {windSeries?.length
+                    ? `${windSeries.length} hourly samples, ${new Date(windSeries[0].time_utc).toLocaleString()} → ${new Date(windSeries[windSeries.length - 1].time_utc).toLocaleString()}`
+                    : "No wind history loaded."}
+                  {envelopeNow?.wind_model === "series" && envelopeNow.wind_shift_deg !== 0 && (
+                    <> • shift {envelopeNow.wind_shift_deg > 0 ? "+" : ""}{envelopeNow.wind_shift_deg}° since LKP</>
+                  )}
+                </div>
+              </>
+            )}
           </div>
 
           <div className="section">
@@ -462,7 +2308,310 @@ export default function LiveMap() {
               </button>
             </div>
 
-            {userLoc && <div className="small" style={{ marginTop: 8 }}>You: {userLoc.lat.toFixed(5)}, {userLoc.lon.toFixed(5)}</div>}
+            {userLoc && <div className="small" style={{ marginTop: 8 }}>You: {formatCoord(userLoc, coordFormat)}</div>}
+          </div>
+
+          <div className="section">
+            <b>Units & Coordinates</b>
+            <label className="label">Units (wind, distance, area)</label>
+            <select
+              className="select"
+              value={units}
+              onChange={(e) => {
+                const u = e.target.value as UnitSystem;
+                setUnits(u);
+                savePreferences({ units: u });
+              }}
+            >
+              {UNIT_SYSTEMS.map((u) => (
+                <option key={u.id} value={u.id}>{u.label}</option>
+              ))}
+            </select>
+
+            <label className="label">Coordinate format (display, exports, briefing)</label>
+            <select
+              className="select"
+              value={coordFormat}
+              onChange={(e) => {
+                const f = e.target.value as CoordFormat;
+                setCoordFormat(f);
+                savePreferences({ coordFormat: f });
+              }}
+            >
+              {COORD_FORMATS.map((f) => (
+                <option key={f.id} value={f.id}>{f.label}</option>
+              ))}
+            </select>
+
+            <label className="label">Go to / set point by coordinate</label>
+            <input
+              className="input"
+              value={coordEntry}
+              placeholder={COORD_FORMATS.find((f) => f.id === coordFormat)?.example}
+              onChange={(e) => setCoordEntry(e.target.value)}
+            />
+            {coordEntry.trim() && (
+              <div className="small" style={{ marginTop: 4 }}>
+                {enteredLL ? `= ${formatCoord(enteredLL, "dd")}` : "Not recognised (DD, DMS, DDM, UTM or USNG/MGRS)"}
+              </div>
+            )}
+            <div className="row" style={{ marginTop: 8 }}>
+              <button className="btn" style={{ flex: 1 }} disabled={!enteredLL} onClick={() => enteredLL && goToCoord(enteredLL)}>
+                Go to
+              </button>
+              <button
+                className="btn btnPrimary"
+                style={{ flex: 1 }}
+                disabled={!enteredLL || (appMode === "live" && mapMode !== "addSource" && lockSource && !!activeLkp)}
+                onClick={() => {
+                  if (!enteredLL) return;
+                  goToCoord(enteredLL);
+                  onMapClick(enteredLL.lat, enteredLL.lon, mapMode === "addSource" ? "addSource" : "setSource");
+                }}
+              >
+                {appMode === "scenario" ? "Set point" : mapMode === "addSource" ? "Add source here" : "Set LKP here"}
+              </button>
+            </div>
+
+            <div className="row" style={{ marginTop: 10 }}>
+              <button
+                className={`btn ${mapMode === "measure" ? "btnPrimary" : ""}`}
+                style={{ flex: 1 }}
+                onClick={() => {
+                  setMeasurePts([]);
+                  setMapMode(mapMode === "measure" ? "setSource" : "measure");
+                }}
+              >
+                {mapMode === "measure" ? "Done measuring" : "Measure distance / bearing"}
+              </button>
+            </div>
+            {mapMode === "measure" && !measurement && (
+              <div className="small" style={{ marginTop: 6 }}>Click two points on the map.</div>
+            )}
+            {measurement && (
+              <div className="small" style={{ marginTop: 6 }}>
+                <b>{formatDistance(measurement.distance_m, units)}</b> • bearing {Math.round(measurement.initial_bearing_deg)}° true (
+                {cardinal(measurement.initial_bearing_deg)}) • back {Math.round((measurement.final_bearing_deg + 180) % 360)}°
+              </div>
+            )}
+          </div>
+
+          <div className="section">
+            <b>Basemap</b>
+            <select className="select" style={{ marginTop: 8 }} value={basemap.id} onChange={(e) => chooseBasemap(e.target.value)}>
+              {basemaps.map((b) => (
+                <option key={b.id} value={b.id}>{b.label}</option>
+              ))}
+            </select>
+            {basemap.custom && (
+              <button className="btn btnWide" style={{ marginTop: 8 }} onClick={() => removeCustomBasemap(basemap.id)}>
+                Remove this custom basemap
+              </button>
+            )}
+
+            <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={hillshadeTiles}
+                onChange={(e) => {
+                  setHillshadeTiles(e.target.checked);
+                  savePreferences({ hillshadeTiles: e.target.checked });
+                }}
+              />
+              Hillshade overlay (Esri World Hillshade)
+            </label>
+            <label className="label">Hillshade opacity: {Math.round(hillshadeOpacity * 100)}%</label>
+            <input
+              className="input"
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={hillshadeOpacity}
+              onChange={(e) => {
+                setHillshadeOpacity(Number(e.target.value));
+                savePreferences({ hillshadeOpacity: Number(e.target.value) });
+              }}
+            />
+
+            <label className="label">Add an XYZ tile source</label>
+            <input className="input" placeholder="Name" value={newBasemapLabel} onChange={(e) => setNewBasemapLabel(e.target.value)} />
+            <input
+              className="input"
+              style={{ marginTop: 6 }}
+              placeholder="https://tiles.example.org/{z}/{x}/{y}.png"
+              value={newBasemapUrl}
+              onChange={(e) => setNewBasemapUrl(e.target.value)}
+            />
+            {newBasemapUrl.trim() && !validTileTemplate(newBasemapUrl.trim()) && (
+              <div className="small" style={{ marginTop: 4 }}>Needs an http(s) URL with {"{z}"}, {"{x}"} and {"{y}"}.</div>
+            )}
+            <button className="btn btnWide" style={{ marginTop: 8 }} disabled={!validTileTemplate(newBasemapUrl.trim())} onClick={addCustomBasemap}>
+              Add basemap
+            </button>
+            {!localTiles && (
+              <div className="small" style={{ marginTop: 6 }}>
+                A local MBTiles/PMTiles file appears here when the server sets LOCAL_TILES.
+              </div>
+            )}
+          </div>
+
+          <div className="section">
+            <b>Map Symbology</b>
+            <label className="label">Palette</label>
+            <select
+              className="select"
+              value={palette}
+              onChange={(e) => {
+                const p = e.target.value as PaletteId;
+                // a new palette starts from its own zone colors
+                setPalette(p);
+                setZoneStyles({});
+                savePreferences({ palette: p, zoneStyles: {} });
+              }}
+            >
+              {PALETTES.map((p) => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+
+            {(["core", "fringe", "residual"] as const).map((z) => (
+              <div key={z} className="row" style={{ marginTop: 8, alignItems: "center" }}>
+                <div style={{ width: 70, fontSize: 13 }}>{ZONE_LABELS[z]}</div>
+                <input
+                  type="color"
+                  value={symbology.zones[z].color}
+                  onChange={(e) => setZoneStyle(z, { color: e.target.value })}
+                  style={{ width: 36, height: 28, padding: 0, border: "none", background: "none" }}
+                />
+                <input
+                  className="input"
+                  type="range"
+                  min={0}
+                  max={0.8}
+                  step={0.02}
+                  value={symbology.zones[z].fillOpacity}
+                  onChange={(e) => setZoneStyle(z, { fillOpacity: Number(e.target.value) })}
+                  style={{ flex: 1 }}
+                />
+                <div className="small" style={{ width: 36, textAlign: "right" }}>{Math.round(symbology.zones[z].fillOpacity * 100)}%</div>
+              </div>
+            ))}
+            {Object.keys(zoneStyles).length > 0 && (
+              <button
+                className="btn btnWide"
+                style={{ marginTop: 8 }}
+                onClick={() => {
+                  setZoneStyles({});
+                  savePreferences({ zoneStyles: {} });
+                }}
+              >
+                Reset to {PALETTES.find((p) => p.id === palette)?.label ?? "palette"} colors
+              </button>
+            )}
+
+            <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={showLegend}
+                onChange={(e) => {
+                  setShowLegend(e.target.checked);
+                  savePreferences({ showLegend: e.target.checked });
+                }}
+              />
+              Legend on the map (included in PNG/briefing exports)
+            </label>
+          </div>
+
+          <div className="section">
+            <b>Offline Map</b>
+            {!tilesSupported ? (
+              <div className="small" style={{ marginTop: 6 }}>This browser cannot store map tiles offline.</div>
+            ) : (
+              <>
+                <div className="small" style={{ marginTop: 6 }}>Download the basemap for the current map view so it still shows without signal.</div>
+                <div className="row" style={{ marginTop: 8 }}>
+                  <div style={{ flex: 1 }}>
+                    <label className="label">Min zoom</label>
+                    <input
+                      className="input"
+                      type="number"
+                      min={1}
+                      max={tileMaxZoom}
+                      value={tileMinZoom}
+                      onChange={(e) => setTileMinZoom(Math.max(1, Math.min(tileMaxZoom, Number(e.target.value) || 1)))}
+                    />
+                  </div>
+                  <div style={{ flex: 1 }}>
+                    <label className="label">Max zoom</label>
+                    <input
+                      className="input"
+                      type="number"
+                      min={tileMinZoom}
+                      max={basemapMaxZoom}
+                      value={areaMaxZoom}
+                      onChange={(e) => setTileMaxZoom(Math.max(tileMinZoom, Math.min(basemapMaxZoom, Number(e.target.value) || tileMinZoom)))}
+                    />
+                  </div>
+                </div>
+                <input
+                  className="input"
+                  style={{ marginTop: 8 }}
+                  placeholder="Area name (optional)"
+                  value={tileAreaLabel}
+                  onChange={(e) => setTileAreaLabel(e.target.value)}
+                />
+                {viewBounds && (
+                  <div className="small" style={{ marginTop: 6 }}>
+                    {tilesForView} tiles, ~{formatBytes(estimateBytes(tilesForView))} (map is at zoom {viewBounds.zoom})
+                    {tilesForView > MAX_AREA_TILES && <> • over the {MAX_AREA_TILES}-tile limit: zoom in or lower max zoom</>}
+                  </div>
+                )}
+                {tileProgress ? (
+                  <div className="row" style={{ marginTop: 8, alignItems: "center" }}>
+                    <div className="small" style={{ flex: 1 }}>
+                      Downloading {tileProgress.done}/{tileProgress.total}…
+                    </div>
+                    <button className="btn" onClick={() => tileAbortRef.current?.abort()}>Cancel</button>
+                  </div>
+                ) : (
+                  <button
+                    className="btn btnWide"
+                    style={{ marginTop: 8 }}
+                    disabled={!viewBounds || tilesForView > MAX_AREA_TILES || !!basemap.local}
+                    onClick={downloadViewTiles}
+                  >
+                    {basemap.local ? "Local basemap works offline already" : `Download this area (${basemap.label})`}
+                  </button>
+                )}
+
+                {tileAreas.length > 0 && (
+                  <div style={{ marginTop: 10, display: "grid", gap: 6 }}>
+                    {tileAreas.map((a) => (
+                      <div key={a.id} className="row" style={{ alignItems: "center" }}>
+                        <div style={{ flex: 1, fontSize: 13, color: "rgba(255,255,255,0.9)" }}>
+                          {a.label}
+                          <div className="small">
+                            {(a.basemap ?? DEFAULT_BASEMAP).label} • z{a.minZoom}–{a.maxZoom} • {a.tiles} tiles • {formatBytes(a.bytes)} •{" "}
+                            {new Date(a.createdISO).toLocaleDateString()}
+                          </div>
+                        </div>
+                        <button className="btn" onClick={() => mapRef.current?.fitBounds([[a.bounds.south, a.bounds.west], [a.bounds.north, a.bounds.east]])}>
+                          Show
+                        </button>
+                        <button className="btn" disabled={!!tileProgress} onClick={() => purgeArea(a.id)}>Purge</button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {storage && (
+                  <div className="small" style={{ marginTop: 8 }}>
+                    Storage used: {formatBytes(storage.usage)}
+                    {storage.quota ? ` of ${formatBytes(storage.quota)}` : ""} (tiles, app and incidents)
+                  </div>
+                )}
+              </>
+            )}
           </div>
 
           <div className="section">
@@ -508,6 +2657,12 @@ export default function LiveMap() {
               Show time bands
             </label>
 
+            <label className="label">Envelope engine</label>
+            <select className="input" value={engine} onChange={(e) => setEngine(e.target.value as EnvelopeEngine)}>
+              <option value="empirical">Empirical (tuned fan)</option>
+              <option value="gaussian">Gaussian plume (Pasquill–Gifford)</option>
+            </select>
+
             <div className="row" style={{ flexWrap: "wrap", marginTop: 8 }}>
               {[15, 30, 60, 120, 240].map((m) => (
                 <button
@@ -525,6 +2680,20 @@ export default function LiveMap() {
             {envelopeNow && (
               <div className="small" style={{ marginTop: 10 }}>
                 <b>Confidence:</b> {envelopeNow.confidence_score} ({envelopeNow.confidence_band}) • <b>Reset:</b> {envelopeNow.reset_recommendation_minutes} min
+                <div style={{ marginTop: 4 }}>
+                  <b>Stability:</b> {stabilitySource === "auto" ? "Auto " : ""}{envelopeNow.pasquill_class} ({describePasquill(envelopeNow.pasquill_class)})
+                  {solar && <> • sun {Math.round(solar.elevationDeg)}°</>}
+                  {effectiveCloud === "night" && effSkyCloud !== "night" && <> • night (auto)</>}
+                </div>
+                <div style={{ marginTop: 4 }}>
+                  <b>Size</b> (reach × width, area):
+                  {ZONE_NAMES.map(([z, name]) => (
+                    <div key={z}>
+                      {name}: {formatDistance(envelopeNow.metrics[z].length_m, units)} × {formatDistance(envelopeNow.metrics[z].max_width_m, units)},{" "}
+                      {formatArea(envelopeNow.metrics[z].area_m2, units)}
+                    </div>
+                  ))}
+                </div>
                 <div style={{ marginTop: 6 }}>
                   <b>Notes:</b>
                   <ul style={{ margin: "6px 0 0 18px" }}>
@@ -534,28 +2703,121 @@ export default function LiveMap() {
               </div>
             )}
 
+            <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={useTerrain}
+                onChange={(e) => {
+                  setUseTerrain(e.target.checked);
+                  if (e.target.checked && selectedLL && !demGrid) fetchDem(selectedLL.lat, selectedLL.lon);
+                }}
+              />
+              Terrain drainage from local DEM
+            </label>
+            {useTerrain && (
+              <>
+                <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                  <input type="checkbox" checked={showHillshade} onChange={(e) => setShowHillshade(e.target.checked)} />
+                  Show hillshade
+                </label>
+                <div className="small" style={{ marginTop: 4 }}>
+                  {demStatus ||
+                    (demGrid
+                      ? `DEM: ${demGrid.source} • ${
+                          envelopeNow?.terrain_flow === "drainage"
+                            ? "stable air, envelope drains downslope"
+                            : envelopeNow?.terrain_flow === "upslope"
+                              ? "convective, upslope tendency"
+                              : "neutral, wind-driven only"
+                        }`
+                      : "Set a point to load terrain.")}
+                </div>
+                {selectedLL && (
+                  <button className="btn btnWide" style={{ marginTop: 6 }} onClick={() => fetchDem(selectedLL.lat, selectedLL.lon)}>
+                    Reload terrain here
+                  </button>
+                )}
+              </>
+            )}
+
             <button className="btn btnWide" style={{ marginTop: 10 }} onClick={() => setShowAdvanced((p) => !p)}>
               {showAdvanced ? "Hide conditions" : "Edit conditions"}
             </button>
 
             {showAdvanced && (
               <>
-                <label className="label">Temp (°F) / Humidity (%)</label>
+                <div className="small" style={{ marginTop: 8 }}>
+                  {conditions
+                    ? `Fetched ${conditions.time_utc ? new Date(conditions.time_utc).toLocaleString() : ""} (${conditions.model ?? "weather API"}): cloud ${Math.round(conditions.cloud_cover_pct)}%, ${conditions.recent_rain_mm} mm rain in last ${conditions.rain_hours} h`
+                    : "No fetched conditions — using values below."}
+                  {conditionsStatus && <div>{conditionsStatus}</div>}
+                </div>
+
+                <div className="row" style={{ marginTop: 8, alignItems: "center" }}>
+                  <button
+                    className="btn"
+                    style={{ flex: 1 }}
+                    disabled={!selectedLL}
+                    onClick={() => selectedLL && fetchConditions(selectedLL.lat, selectedLL.lon)}
+                  >
+                    Refresh conditions
+                  </button>
+                  <span className="small">Rain window (h)</span>
+                  <input
+                    className="input"
+                    style={{ width: 70, marginTop: 0 }}
+                    type="number"
+                    min={1}
+                    max={48}
+                    value={rainHours}
+                    onChange={(e) => setRainHours(Number(e.target.value))}
+                  />
+                </div>
+
+                <label className="label">
+                  Temp (°F) <OverrideTag manual={isManual("tempF")} canReset={!!conditions} onReset={() => setOverride("tempF", false)} />
+                  {" / "}Humidity (%) <OverrideTag manual={isManual("rh")} canReset={!!conditions} onReset={() => setOverride("rh", false)} />
+                </label>
                 <div className="row">
-                  <input className="input" style={{ flex: 1 }} type="number" value={tempF} onChange={(e) => setTempF(Number(e.target.value))} />
-                  <input className="input" style={{ flex: 1 }} type="number" value={rh} onChange={(e) => setRh(Number(e.target.value))} />
+                  <input
+                    className="input"
+                    style={{ flex: 1 }}
+                    type="number"
+                    value={Math.round(effTempF)}
+                    onChange={(e) => { setTempF(Number(e.target.value)); setOverride("tempF", true); }}
+                  />
+                  <input
+                    className="input"
+                    style={{ flex: 1 }}
+                    type="number"
+                    value={Math.round(effRh)}
+                    onChange={(e) => { setRh(Number(e.target.value)); setOverride("rh", true); }}
+                  />
                 </div>
 
-                <label className="label">Cloud / Precip</label>
+                <label className="label">
+                  Cloud <OverrideTag manual={isManual("cloud")} canReset={!!conditions} onReset={() => setOverride("cloud", false)} />
+                  {" / "}Precip <OverrideTag manual={isManual("precip")} canReset={!!conditions} onReset={() => setOverride("precip", false)} />
+                </label>
                 <div className="row">
-                  <select className="input" style={{ flex: 1 }} value={cloud} onChange={(e) => setCloud(e.target.value as any)}>
+                  <select
+                    className="input"
+                    style={{ flex: 1 }}
+                    value={effSkyCloud}
+                    onChange={(e) => { setCloud(e.target.value as CloudType); setOverride("cloud", true); }}
+                  >
                     <option value="clear">Clear</option>
                     <option value="partly">Partly</option>
                     <option value="overcast">Overcast</option>
                     <option value="night">Night</option>
                   </select>
 
-                  <select className="input" style={{ flex: 1 }} value={precip} onChange={(e) => setPrecip(e.target.value as any)}>
+                  <select
+                    className="input"
+                    style={{ flex: 1 }}
+                    value={effPrecip}
+                    onChange={(e) => { setPrecip(e.target.value as PrecipType); setOverride("precip", true); }}
+                  >
                     <option value="none">None</option>
                     <option value="light">Light</option>
                     <option value="moderate">Moderate</option>
@@ -564,8 +2826,19 @@ export default function LiveMap() {
                 </div>
 
                 <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
-                  <input type="checkbox" checked={recentRain} onChange={(e) => setRecentRain(e.target.checked)} />
+                  <input
+                    type="checkbox"
+                    checked={effRecentRain}
+                    onChange={(e) => { setRecentRain(e.target.checked); setOverride("recentRain", true); }}
+                  />
                   Recent rain ended
+                  <OverrideTag manual={isManual("recentRain")} canReset={!!conditions} onReset={() => setOverride("recentRain", false)} />
+                </label>
+
+                <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                  <input type="checkbox" checked={autoNight} onChange={(e) => setAutoNight(e.target.checked)} />
+                  Switch cloud to Night after sunset
+                  {solar?.sunset && <span>({solar.sunset.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })})</span>}
                 </label>
 
                 <label className="label">Terrain / Stability</label>
@@ -579,7 +2852,17 @@ export default function LiveMap() {
                     <option value="beach">Beach/Sand</option>
                   </select>
 
-                  <select className="input" style={{ flex: 1 }} value={stability} onChange={(e) => setStability(e.target.value as any)}>
+                  <select
+                    className="input"
+                    style={{ flex: 1 }}
+                    value={stabilitySource === "auto" ? "auto" : stability}
+                    onChange={(e) => {
+                      if (e.target.value === "auto") return setStabilitySource("auto");
+                      setStabilitySource("manual");
+                      setStability(e.target.value as StabilityType);
+                    }}
+                  >
+                    <option value="auto">Auto{autoPasquill ? ` (${autoPasquill})` : ""}</option>
                     <option value="neutral">Neutral</option>
                     <option value="stable">Stable</option>
                     <option value="convective">Convective</option>
@@ -602,8 +2885,49 @@ export default function LiveMap() {
 
             {mapMode === "addTrap" && (
               <>
+                <label className="label">Trap type</label>
+                <select
+                  className="input"
+                  value={newTrapType}
+                  onChange={(e) => {
+                    const t = e.target.value as TrapType;
+                    setNewTrapType(t);
+                    setNewTrapRadiusM(TRAP_TYPES[t].defaultRadiusM);
+                  }}
+                >
+                  {TRAP_TYPE_ORDER.map((t) => <option key={t} value={t}>{TRAP_TYPES[t].label}</option>)}
+                </select>
+
                 <label className="label">Trap label</label>
                 <input className="input" value={newTrapLabel} onChange={(e) => setNewTrapLabel(e.target.value)} />
+
+                <div className="row">
+                  <div style={{ flex: 1 }}>
+                    <label className="label">Radius ({lengthUnit(units)})</label>
+                    <input
+                      className="input"
+                      type="number"
+                      min={Math.round(lengthFromM(5, units))}
+                      step={5}
+                      value={Math.round(lengthFromM(newTrapRadiusM, units))}
+                      onChange={(e) => setNewTrapRadiusM(Math.max(5, lengthToM(Number(e.target.value), units) || 5))}
+                    />
+                  </div>
+                  {TRAP_TYPES[newTrapType].linear && (
+                    <div style={{ flex: 1 }}>
+                      <label className="label">Orientation (°)</label>
+                      <input
+                        className="input"
+                        type="number"
+                        min={0}
+                        max={179}
+                        step={5}
+                        value={newTrapOrientation}
+                        onChange={(e) => setNewTrapOrientation(((Number(e.target.value) % 180) + 180) % 180)}
+                      />
+                    </div>
+                  )}
+                </div>
                 <div className="small" style={{ marginTop: 6 }}>Click map to place a trap.</div>
               </>
             )}
@@ -612,30 +2936,508 @@ export default function LiveMap() {
               <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
                 {traps.slice(0, 6).map((t) => (
                   <div key={t.id} className="row" style={{ alignItems: "center" }}>
-                    <div style={{ flex: 1, fontSize: 13, color: "rgba(255,255,255,0.9)" }}>{t.label}</div>
+                    <div style={{ flex: 1, fontSize: 13, color: "rgba(255,255,255,0.9)" }}>
+                      {t.label}
+                      <span className="small" style={{ marginLeft: 6 }}>{TRAP_TYPES[t.type ?? "other"].label}</span>
+                    </div>
                     <button className="btn" onClick={() => setTraps((p) => p.filter((x) => x.id !== t.id))}>Remove</button>
                   </div>
                 ))}
               </div>
             )}
+
+            {envelopeNow && envelopeNow.trap_flags.length > 0 && (
+              <div style={{ marginTop: 12 }}>
+                <b>Traps to check</b>
+                <ol className="small" style={{ margin: "6px 0 0 18px" }}>
+                  {envelopeNow.trap_flags.map((f) => (
+                    <li key={f.id}>
+                      <b>{f.label}</b> ({TRAP_TYPES[f.type].label.toLowerCase()}) • {f.zone === "near" ? "just outside envelope" : `in ${f.zone}`} •{" "}
+                      {formatDistance(f.distance_m, units)} {cardinal(f.bearing_deg)} ({Math.round(f.bearing_deg)}°) from LKP
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+
+          <div className="section">
+            <b>Land cover</b>
+            <div className="small" style={{ marginTop: 6 }}>
+              Patches override the incident terrain ({TERRAIN_INFO[terrain].label.toLowerCase()}) where the plume crosses them.
+              {engine === "gaussian" && " Only the empirical engine uses them."}
+            </div>
+
+            <label className="label">Cover type for new patches</label>
+            <select className="input" value={newCoverTerrain} onChange={(e) => setNewCoverTerrain(e.target.value as TerrainType)}>
+              {TERRAIN_ORDER.map((t) => <option key={t} value={t}>{TERRAIN_INFO[t].label}</option>)}
+            </select>
+
+            <div className="row" style={{ marginTop: 10 }}>
+              {mapMode === "drawCover" ? (
+                <>
+                  <button className="btn btnPrimary" style={{ flex: 1 }} disabled={coverDraft.length < 3} onClick={finishCoverDraft}>
+                    Finish ({coverDraft.length} pts)
+                  </button>
+                  <button
+                    className="btn"
+                    onClick={() => {
+                      setCoverDraft([]);
+                      setMapMode("setSource");
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button className="btn" style={{ flex: 1 }} onClick={() => setMapMode("drawCover")}>
+                  Draw on map
+                </button>
+              )}
+              <button className="btn" style={{ flex: 1 }} onClick={() => coverInputRef.current?.click()}>
+                Import GeoJSON
+              </button>
+              <input
+                ref={coverInputRef}
+                type="file"
+                multiple
+                accept=".geojson,.json,application/geo+json,application/json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  e.target.value = "";
+                  if (files.length) importLandCover(files);
+                }}
+              />
+            </div>
+            {mapMode === "drawCover" && <div className="small" style={{ marginTop: 6 }}>Click the map to add corners, then Finish.</div>}
+
+            {landCover.length > 0 && (
+              <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+                {landCover.map((c) => (
+                  <div key={c.id} className="row" style={{ alignItems: "center" }}>
+                    <span style={{ width: 12, height: 12, borderRadius: 3, background: TERRAIN_INFO[c.terrain].color, flex: "0 0 auto" }} />
+                    <input
+                      className="input"
+                      style={{ flex: 1 }}
+                      value={c.label}
+                      onChange={(e) => setLandCover((p) => p.map((x) => (x.id === c.id ? { ...x, label: e.target.value } : x)))}
+                    />
+                    <select
+                      className="input"
+                      style={{ flex: "0 0 110px" }}
+                      value={c.terrain}
+                      onChange={(e) => setLandCover((p) => p.map((x) => (x.id === c.id ? { ...x, terrain: e.target.value as TerrainType } : x)))}
+                    >
+                      {TERRAIN_ORDER.map((t) => <option key={t} value={t}>{TERRAIN_INFO[t].label}</option>)}
+                    </select>
+                    <button className="btn" onClick={() => setLandCover((p) => p.filter((x) => x.id !== c.id))}>Remove</button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {envelopeNow && landCover.length > 0 && engine === "empirical" && (
+              <div className="small" style={{ marginTop: 10 }}>
+                <b>Envelope crosses:</b>{" "}
+                {envelopeNow.cover_crossed.length
+                  ? envelopeNow.cover_crossed.map((g) => `${TERRAIN_INFO[g.terrain].label} ${formatDistance(g.from_m, units)}–${formatDistance(g.to_m, units)}`).join(" → ")
+                  : `${TERRAIN_INFO[terrain].label} only`}
+              </div>
+            )}
+          </div>
+
+          <div className="section">
+            <b>Barriers</b>
+            <div className="small" style={{ marginTop: 6 }}>
+              Features that stop or steer scent. The envelope is clipped around them; the cut-off part shows faintly.
+            </div>
+
+            <div className="row" style={{ marginTop: 10 }}>
+              <select className="input" style={{ flex: 1 }} value={newBarrierKind} onChange={(e) => setNewBarrierKind(e.target.value as BarrierKind)}>
+                {BARRIER_KIND_ORDER.map((k) => (
+                  <option key={k} value={k}>
+                    {BARRIER_KINDS[k].label} ({BARRIER_KINDS[k].hint})
+                  </option>
+                ))}
+              </select>
+              <select className="input" style={{ flex: "0 0 90px" }} value={newBarrierClosed ? "area" : "line"} onChange={(e) => setNewBarrierClosed(e.target.value === "area")}>
+                <option value="area">Area</option>
+                <option value="line">Line</option>
+              </select>
+            </div>
+
+            <div className="row" style={{ marginTop: 8 }}>
+              <input className="input" style={{ flex: 1 }} placeholder="Label (e.g. Mill pond)" value={newBarrierLabel} onChange={(e) => setNewBarrierLabel(e.target.value)} />
+              {mapMode === "drawBarrier" ? (
+                <>
+                  <button className="btn btnPrimary" disabled={barrierDraft.length < (newBarrierClosed ? 3 : 2)} onClick={finishBarrierDraft}>
+                    Finish ({barrierDraft.length})
+                  </button>
+                  <button
+                    className="btn"
+                    onClick={() => {
+                      setBarrierDraft([]);
+                      setMapMode("setSource");
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </>
+              ) : (
+                <button className="btn" onClick={() => setMapMode("drawBarrier")}>Draw</button>
+              )}
+            </div>
+            {mapMode === "drawBarrier" && <div className="small" style={{ marginTop: 6 }}>Click the map to add points, then Finish.</div>}
+
+            {barriers.length > 0 && (
+              <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+                {barriers.map((b) => (
+                  <div key={b.id} className="row" style={{ alignItems: "center" }}>
+                    <span style={{ width: 12, height: 12, borderRadius: b.closed ? 3 : 0, background: BARRIER_KINDS[b.kind].color, flex: "0 0 auto" }} />
+                    <input
+                      className="input"
+                      style={{ flex: 1 }}
+                      value={b.label}
+                      onChange={(e) => setBarriers((p) => p.map((x) => (x.id === b.id ? { ...x, label: e.target.value } : x)))}
+                    />
+                    <select
+                      className="input"
+                      style={{ flex: "0 0 96px" }}
+                      value={b.kind}
+                      onChange={(e) => setBarriers((p) => p.map((x) => (x.id === b.id ? { ...x, kind: e.target.value as BarrierKind } : x)))}
+                    >
+                      {BARRIER_KIND_ORDER.map((k) => <option key={k} value={k}>{BARRIER_KINDS[k].label}</option>)}
+                    </select>
+                    <button className="btn" onClick={() => setBarriers((p) => p.filter((x) => x.id !== b.id))}>Remove</button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="section">
+            <b>Dog alerts</b>
+            <div className="small" style={{ marginTop: 6 }}>
+              Drop a marker where a dog showed interest or alerted. The upwind cone shows where the scent likely came from.
+            </div>
+            <div className="row" style={{ marginTop: 10 }}>
+              <select className="input" style={{ flex: "0 0 100px" }} value={newAlertStrength} onChange={(e) => setNewAlertStrength(e.target.value as AlertStrength)}>
+                <option value="alert">Alert</option>
+                <option value="interest">Interest</option>
+              </select>
+              <input className="input" style={{ flex: 1 }} placeholder="Dog / team" value={newAlertLabel} onChange={(e) => setNewAlertLabel(e.target.value)} />
+              <button
+                className={`btn ${mapMode === "addAlert" ? "btnPrimary" : ""}`}
+                onClick={() => setMapMode(mapMode === "addAlert" ? "setSource" : "addAlert")}
+              >
+                {mapMode === "addAlert" ? "Click map…" : "Drop"}
+              </button>
+            </div>
+
+            <label className="label">Back-projection range ({lengthUnit(units)})</label>
+            <input
+              className="input"
+              type="number"
+              min={Math.round(lengthFromM(50, units))}
+              step={50}
+              value={Math.round(lengthFromM(alertRangeM, units))}
+              onChange={(e) => setAlertRangeM(Math.max(50, lengthToM(Number(e.target.value), units) || 50))}
+            />
+
+            {alerts.length > 0 && (
+              <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+                {alerts.map((a) => (
+                  <div key={a.id} className="row" style={{ alignItems: "center" }}>
+                    <div style={{ flex: 1, fontSize: 13, color: "rgba(255,255,255,0.9)" }}>
+                      {a.strength === "alert" ? "Alert" : "Interest"}
+                      {a.label ? ` • ${a.label}` : ""}
+                      <div className="small">
+                        {new Date(a.timeISO).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} • wind from {Math.round(a.wind_from_deg)}° @{" "}
+                        {formatSpeed(mphToMps(a.wind_speed_mph), units, 0)}
+                      </div>
+                    </div>
+                    <button className="btn" onClick={() => setAlerts((p) => p.filter((x) => x.id !== a.id))}>Remove</button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {alerts.length > 1 && (
+              <div className="small" style={{ marginTop: 8 }}>
+                {sourceArea ? (
+                  <>
+                    <b>Probable source:</b> score {sourceArea.score} • {sourceArea.agreeing} of {sourceArea.total} alerts agree •{" "}
+                    {formatArea(sourceArea.area_m2, units)}
+                  </>
+                ) : (
+                  "Back-projected cones do not overlap; check wind or alert positions."
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="section">
+            <b>Team tracks & coverage</b>
+            <div className="row" style={{ marginTop: 10 }}>
+              <button className="btn" style={{ flex: 1 }} onClick={() => trackInputRef.current?.click()}>
+                Import GPX / GeoJSON tracks
+              </button>
+              <input
+                ref={trackInputRef}
+                type="file"
+                multiple
+                accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json,application/json"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const files = Array.from(e.target.files ?? []);
+                  e.target.value = "";
+                  if (files.length) importTracks(files);
+                }}
+              />
+            </div>
+
+            {tracks.length > 0 && (
+              <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+                {tracks.map((t) => (
+                  <div key={t.id} className="row" style={{ alignItems: "center" }}>
+                    <span style={{ width: 12, height: 12, borderRadius: 3, background: t.color, flex: "0 0 auto" }} />
+                    <input
+                      className="input"
+                      style={{ flex: 1 }}
+                      value={t.team}
+                      title={`${t.name} • ${formatDistance(trackLengthM(t), units)}`}
+                      onChange={(e) => setTrackTeam(t.id, e.target.value)}
+                    />
+                    <button className="btn" onClick={() => setTracks((p) => p.filter((x) => x.id !== t.id))}>Remove</button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <label className="label">Detection width downwind of path ({lengthUnit(units)})</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step={10}
+              value={Math.round(lengthFromM(detectionWidthM, units))}
+              onChange={(e) => setDetectionWidthM(Math.max(0, lengthToM(Number(e.target.value), units) || 0))}
+            />
+
+            <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+              <input type="checkbox" checked={showCoverageGaps} onChange={(e) => setShowCoverageGaps(e.target.checked)} />
+              Highlight uncovered gaps on map
+            </label>
+
+            {coverage ? (
+              <div className="small" style={{ marginTop: 8 }}>
+                <b>Worked:</b> Core {Math.round(coverage.zones.core.fraction * 100)}% • Fringe {Math.round(coverage.zones.fringe.fraction * 100)}% • Residual{" "}
+                {Math.round(coverage.zones.residual.fraction * 100)}%
+                <div style={{ marginTop: 4 }}>Gaps are unworked envelope at model time; assign them next operational period.</div>
+              </div>
+            ) : (
+              tracks.length > 0 && <div className="small" style={{ marginTop: 8 }}>Coverage needs an envelope (point + wind).</div>
+            )}
+          </div>
+
+          <div className="section">
+            <b>Teams & assignments</b>
+            <div className="small" style={{ marginTop: 6 }}>
+              Add the teams on scene, then send each to a start point or a sector of the active envelope. Status changes are time-stamped.
+            </div>
+            <div className="row" style={{ marginTop: 10 }}>
+              <input
+                className="input"
+                style={{ flex: 1 }}
+                placeholder="Team name"
+                value={newTeamFields.name}
+                onChange={(e) => setNewTeamFields((f) => ({ ...f, name: e.target.value }))}
+              />
+              <input
+                className="input"
+                style={{ flex: 1 }}
+                placeholder="Call sign"
+                value={newTeamFields.callSign}
+                onChange={(e) => setNewTeamFields((f) => ({ ...f, callSign: e.target.value }))}
+              />
+            </div>
+            <div className="row" style={{ marginTop: 8 }}>
+              <input
+                className="input"
+                style={{ flex: 1 }}
+                placeholder="Handler"
+                value={newTeamFields.handler}
+                onChange={(e) => setNewTeamFields((f) => ({ ...f, handler: e.target.value }))}
+              />
+              <input
+                className="input"
+                style={{ flex: 1 }}
+                placeholder="Dog"
+                value={newTeamFields.dog}
+                onChange={(e) => setNewTeamFields((f) => ({ ...f, dog: e.target.value }))}
+              />
+              <button className="btn" disabled={!newTeamFields.name.trim()} onClick={addTeam}>
+                Add
+              </button>
+            </div>
+
+            {teams.length > 0 && (
+              <div style={{ marginTop: 10, display: "grid", gap: 8 }}>
+                {teams.map((t) => (
+                  <div key={t.id} className="row" style={{ alignItems: "center" }}>
+                    <span style={{ width: 12, height: 12, borderRadius: 3, background: t.color, flex: "0 0 auto" }} />
+                    <div style={{ flex: 1, fontSize: 13, color: "rgba(255,255,255,0.9)" }}>
+                      {t.name}
+                      {t.callSign ? ` • ${t.callSign}` : ""}
+                      <div className="small">{[t.handler, t.dog].filter(Boolean).join(" • ") || "No handler / dog entered"}</div>
+                    </div>
+                    <button className="btn" onClick={() => removeTeam(t.id)}>Remove</button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {teams.length > 0 && (
+              <>
+                <label className="label">Assign</label>
+                <div className="row">
+                  <select className="input" style={{ flex: 1 }} value={assignTeamId || teams[0].id} onChange={(e) => setAssignTeamId(e.target.value)}>
+                    {teams.map((t) => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="input"
+                    style={{ flex: 1.5 }}
+                    disabled={!assignTargets.length}
+                    value={assignTargets.some((t) => targetKey(t) === assignTargetKey) ? assignTargetKey : assignTargets[0] ? targetKey(assignTargets[0]) : ""}
+                    onChange={(e) => setAssignTargetKey(e.target.value)}
+                  >
+                    {assignTargets.map((t) => (
+                      <option key={targetKey(t)} value={targetKey(t)}>
+                        {t.kind === "start" ? `Start: ${t.label}` : `Sector: ${t.label}`}
+                      </option>
+                    ))}
+                  </select>
+                  <button className="btn" disabled={!assignTargets.length} onClick={assignTeam}>
+                    Assign
+                  </button>
+                </div>
+                {!assignTargets.length && <div className="small" style={{ marginTop: 6 }}>Start points and sectors need an envelope (point + wind).</div>}
+              </>
+            )}
+
+            {assignments.length > 0 && (
+              <div style={{ marginTop: 10, display: "grid", gap: 10 }}>
+                {assignments.map((a) => {
+                  const team = teams.find((t) => t.id === a.teamId);
+                  return (
+                    <div key={a.id} style={{ display: "grid", gap: 6 }}>
+                      <div className="row" style={{ alignItems: "center" }}>
+                        <span style={{ width: 12, height: 12, borderRadius: 3, background: team?.color ?? "#6b7280", flex: "0 0 auto" }} />
+                        <div style={{ flex: 1, fontSize: 13, color: "rgba(255,255,255,0.9)" }}>
+                          {team?.name ?? "Team"} → {a.target.label}
+                        </div>
+                        <select
+                          className="input"
+                          style={{ flex: "0 0 110px" }}
+                          value={a.status}
+                          onChange={(e) => updateAssignment(a.id, (x) => withStatus(x, e.target.value as AssignmentStatus))}
+                        >
+                          {ASSIGNMENT_STATUSES.map((st) => (
+                            <option key={st.id} value={st.id}>{st.label}</option>
+                          ))}
+                        </select>
+                        <button className="btn" onClick={() => setAssignments((p) => p.filter((x) => x.id !== a.id))}>Remove</button>
+                      </div>
+                      <div className="small">{statusTimeline(a)}</div>
+                      <input
+                        className="input"
+                        placeholder="Notes (hazards, radio check-ins…)"
+                        value={a.notes}
+                        onChange={(e) => updateAssignment(a.id, (x) => ({ ...x, notes: e.target.value }))}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <button className="btn btnWide" style={{ marginTop: 10 }} disabled={!teams.length || sheetsBusy} onClick={exportAssignmentSheets}>
+              {sheetsBusy ? "Building…" : "ICS-204 assignment sheets (PDF)"}
+            </button>
+          </div>
+
+          <div className="section">
+            <b>Briefing</b>
+            <label className="label">Planning notes</label>
+            <textarea
+              className="input"
+              rows={4}
+              placeholder="Assignments, hazards, comms, next operational period…"
+              value={briefingNotes}
+              onChange={(e) => setBriefingNotes(e.target.value)}
+            />
+            <div className="row" style={{ marginTop: 10 }}>
+              <button className="btn btnPrimary" style={{ flex: 1 }} disabled={briefingBusy} onClick={() => exportBriefing("pdf")}>
+                {briefingBusy ? "Building…" : "Briefing PDF (letter)"}
+              </button>
+              <button className="btn" style={{ flex: 1 }} disabled={briefingBusy} onClick={() => exportBriefing("png")}>
+                Briefing PNG
+              </button>
+            </div>
           </div>
 
           <button className="btn btnPrimary btnWide" style={{ marginTop: 12 }} onClick={exportPNG}>
-            Export PNG (map + cone + footer)
+            Export PNG (map + cone + ICS footer)
           </button>
 
+          <div className="row" style={{ marginTop: 10 }}>
+            <button className="btn" style={{ flex: 1 }} onClick={exportGeoJSON}>
+              Export GeoJSON
+            </button>
+            <button className="btn" style={{ flex: 1 }} onClick={() => importInputRef.current?.click()}>
+              Import GeoJSON
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".geojson,.json,application/geo+json,application/json"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                e.target.value = "";
+                if (f) importGeoJSON(f);
+              }}
+            />
+          </div>
+
+          <div className="row" style={{ marginTop: 10 }}>
+            <button className="btn" style={{ flex: 1 }} onClick={exportKML}>
+              Export KML
+            </button>
+            <button className="btn" style={{ flex: 1 }} onClick={exportKMZ}>
+              Export KMZ
+            </button>
+          </div>
+          <label className="label" style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <input type="checkbox" checked={kmzSnapshot} onChange={(e) => setKmzSnapshot(e.target.checked)} />
+            Bundle map snapshot in KMZ (screen overlay)
+          </label>
+
           <div className="section">
             <b>How to use</b>
             <div className="small" style={{ marginTop: 6 }}>
               <ol style={{ margin: "6px 0 0 18px" }}>
                 <li>Select <b>Live</b> or <b>Scenario</b>.</li>
-                <li>Click the map to set a point. In Live, use <b>Lock point</b> to keep it fixed.</li>
+                <li>Click the map to set a point (or type a USNG/UTM/lat-lon coordinate). In Live, use <b>Lock point</b> to keep it fixed.</li>
                 <li>Fetch wind (or switch to Manual).</li>
                 <li>Use Envelope confidence + start points to guide deployment.</li>
-                <li>Export PNG for briefings/ICS.</li>
+                <li>Add planning notes and export the briefing PDF for the ICP board.</li>
               </ol>
               <div style={{ marginTop: 8 }}>
-                Tip: Use <span className="kbd">Scenario</span> + <span className="kbd">Historical</span> to visualize conditions at a past time.
+                Tip: Use <span className="kbd">Scenario</span> + <span className="kbd">Historical</span> to visualize conditions at a past time, then <b>Play</b> to watch the envelope age hour by hour or record it as a GIF/WebM for an after-action review.
               </div>
             </div>
           </div>
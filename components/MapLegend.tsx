@@ -0,0 +1,56 @@
+import React, { useState } from "react";
+import type { BriefingLegendItem } from "@/lib/briefing";
+
+type Props = {
+  items: BriefingLegendItem[];
+};
+
+function Swatch({ item }: { item: BriefingLegendItem }) {
+  return (
+    <svg width={24} height={14} style={{ flex: "none" }}>
+      {item.style === "fill" && <rect x={1} y={1} width={22} height={12} fill={item.color} fillOpacity={0.35} stroke={item.color} strokeWidth={2} />}
+      {item.style === "line" && <line x1={1} y1={7} x2={23} y2={7} stroke={item.color} strokeWidth={3} />}
+      {item.style === "dash" && <line x1={1} y1={7} x2={23} y2={7} stroke={item.color} strokeWidth={2} strokeDasharray="5 3" />}
+      {item.style === "dot" && <circle cx={12} cy={7} r={5} fill={item.color} />}
+    </svg>
+  );
+}
+
+// Sits over the map inside the exported element, so PNG exports, the briefing map and
+// playback recordings carry it too.
+export default function MapLegend(props: Props) {
+  const [open, setOpen] = useState(true);
+  if (!props.items.length) return null;
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: 10,
+        bottom: 10,
+        zIndex: 800, // over markers (600), under the cone overlay
+        maxWidth: 240,
+        padding: "6px 8px",
+        borderRadius: 8,
+        background: "rgba(255,255,255,0.92)",
+        color: "#111827",
+        fontSize: 12,
+        boxShadow: "0 1px 4px rgba(0,0,0,0.3)",
+      }}
+    >
+      <button
+        onClick={() => setOpen((o) => !o)}
+        style={{ all: "unset", cursor: "pointer", fontWeight: 600 }}
+      >
+        Legend {open ? "▾" : "▸"}
+      </button>
+      {open &&
+        props.items.map((it) => (
+          <div key={`${it.style}_${it.label}`} style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 3 }}>
+            <Swatch item={it} />
+            <span>{it.label}</span>
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useMemo } from "react";
+import { downwindDeg, type WindSeriesPoint } from "@/lib/cone";
+import { speedFromMps, speedUnit, type UnitSystem } from "@/lib/units";
+
+type Props = {
+  points: WindSeriesPoint[];
+  modelTimeISO: string;
+  selectedUtc: string | null;
+  onSelect: (timeUtc: string | null) => void;
+  source?: string;
+  loading?: boolean;
+  onRefresh?: () => void;
+  units?: UnitSystem;
+};
+
+function hourKey(ms: number) {
+  return Math.floor(ms / 3_600_000);
+}
+
+// signed change in "from" direction, -180..180 (positive = veering/clockwise)
+function dirDelta(a: number, b: number) {
+  return ((b - a + 540) % 360) - 180;
+}
+
+function Arrow({ toDeg, size = 22 }: { toDeg: number; size?: number }) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" style={{ transform: `rotate(${toDeg}deg)` }}>
+      <path d="M12 2 L18 14 L13 12 L13 22 L11 22 L11 12 L6 14 Z" fill="currentColor" />
+    </svg>
+  );
+}
+
+export default function WindTimeline(props: Props) {
+  const units = props.units ?? "imperial";
+  const speed = (mps: number) => Math.round(speedFromMps(mps, units));
+  const modelMs = Date.parse(props.modelTimeISO);
+  const modelHour = hourKey(modelMs);
+
+  const modelIdx = useMemo(() => {
+    let best = -1;
+    let bestDiff = Infinity;
+    props.points.forEach((p, i) => {
+      const d = Math.abs(Date.parse(p.time_utc) - modelMs);
+      if (d < bestDiff) { bestDiff = d; best = i; }
+    });
+    return best;
+  }, [props.points, modelMs]);
+
+  // briefing line: how the wind changes over the next few hours from model time
+  const outlook = useMemo(() => {
+    if (modelIdx < 0) return null;
+    const now = props.points[modelIdx];
+    const later = props.points[Math.min(props.points.length - 1, modelIdx + 3)];
+    if (!later || later === now) return null;
+    const d = dirDelta(now.wind_dir_from_deg, later.wind_dir_from_deg);
+    const hrs = Math.round((Date.parse(later.time_utc) - Date.parse(now.time_utc)) / 3_600_000);
+    const spd = speedFromMps(later.wind_speed_mps, units) - speedFromMps(now.wind_speed_mps, units);
+    const dirText = Math.abs(d) < 20 ? "direction steady" : `${d > 0 ? "veers" : "backs"} ${Math.abs(Math.round(d))}°`;
+    // ~3 mph either way
+    const steady = units === "metric" ? 1.3 : 3;
+    const spdText = Math.abs(spd) < steady ? "speed steady" : `${spd > 0 ? "up" : "down"} ${Math.abs(Math.round(spd))} ${speedUnit(units)}`;
+    return `Next ${hrs} h: ${dirText}, ${spdText}`;
+  }, [props.points, modelIdx, units]);
+
+  return (
+    <div className="card timelineCard">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10 }}>
+        <div>
+          <b>Wind timeline</b>
+          <span className="small" style={{ marginLeft: 8 }}>
+            {props.source ? `${props.source} • ` : ""}
+            {props.selectedUtc ? `using ${new Date(props.selectedUtc).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}` : "using fetched wind"}
+          </span>
+        </div>
+        <div className="row">
+          {props.selectedUtc && (
+            <button className="btn" style={{ padding: "6px 10px" }} onClick={() => props.onSelect(null)}>
+              Clear hour
+            </button>
+          )}
+          {props.onRefresh && (
+            <button className="btn" style={{ padding: "6px 10px" }} disabled={props.loading} onClick={props.onRefresh}>
+              {props.loading ? "Loading…" : "Refresh"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {outlook && <div className="small" style={{ marginTop: 4 }}>{outlook}</div>}
+
+      {props.points.length === 0 ? (
+        <div className="small" style={{ marginTop: 8 }}>No hourly wind loaded. Set a point and refresh.</div>
+      ) : (
+        <div className="timelineStrip">
+          {props.points.map((p) => {
+            const ms = Date.parse(p.time_utc);
+            const isModel = hourKey(ms) === modelHour;
+            const isSelected = props.selectedUtc === p.time_utc;
+            const isPast = ms < modelMs && !isModel;
+            return (
+              <button
+                key={p.time_utc}
+                className={`timelineCell ${isSelected ? "btnPrimary" : ""} ${isModel ? "timelineNow" : ""}`}
+                style={{ opacity: isPast ? 0.7 : 1 }}
+                title={`${new Date(ms).toLocaleString()} • from ${Math.round(p.wind_dir_from_deg)}° @ ${speed(p.wind_speed_mps)} ${speedUnit(units)}`}
+                onClick={() => props.onSelect(isSelected ? null : p.time_utc)}
+              >
+                <div className="small">{new Date(ms).toLocaleTimeString([], { hour: "2-digit" })}</div>
+                <Arrow toDeg={downwindDeg(p.wind_dir_from_deg)} />
+                <div style={{ fontSize: 12, fontWeight: 700 }}>{speed(p.wind_speed_mps)}</div>
+                <div className="small">{p.gust_mps != null ? `G${speed(p.gust_mps)}` : " "}</div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
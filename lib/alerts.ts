@@ -0,0 +1,94 @@
+import polygonClipping, { type MultiPolygon } from "polygon-clipping";
+import { defaultHalfAngleDegFromMph } from "./cone";
+import { fromMulti, localProjection, planarArea, toPolygon } from "./geo";
+import { coneFan, type LatLon } from "./scentEnvelope";
+
+// Dog alerts and upwind back-projection. Scent reaching the dog came from somewhere
+// upwind, so each alert gets the envelope fan turned around: apex on the dog, opening
+// toward the wind "from" bearing. Where the fans of several alerts overlap is the
+// probable source area.
+
+export type AlertStrength = "interest" | "alert";
+
+export type DogAlert = {
+  id: string;
+  lat: number;
+  lon: number;
+  timeISO: string;
+  strength: AlertStrength;
+  label?: string;
+  // wind at the moment of the alert
+  wind_from_deg: number;
+  wind_speed_mph: number;
+};
+
+export type SourceArea = {
+  polygons: LatLon[][][]; // polygons -> rings (outer first)
+  area_m2: number;
+  agreeing: number; // alerts whose cones overlap in this area
+  total: number;
+  score: number; // 0-100
+};
+
+// more than this and the subset search gets expensive; older alerts are dropped
+const MAX_ALERTS = 8;
+
+export function backProjectionCone(a: DogAlert, rangeM: number): LatLon[] {
+  // interest is a vaguer read than a committed alert, so widen its fan
+  const halfDeg = defaultHalfAngleDegFromMph(a.wind_speed_mph) * (a.strength === "interest" ? 1.5 : 1);
+  const widthEnd = rangeM * Math.tan((Math.min(halfDeg, 75) * Math.PI) / 180);
+  return coneFan({ lat: a.lat, lon: a.lon }, a.wind_from_deg, rangeM, widthEnd);
+}
+
+function multiAreaM2(mp: MultiPolygon, origin: LatLon) {
+  const { toXY } = localProjection(origin);
+  const area = (ring: [number, number][]) => planarArea(ring.map(([lon, lat]) => toXY({ lat, lon })));
+  return mp.reduce((sum, poly) => sum + poly.reduce((s, ring, i) => s + (i === 0 ? 1 : -1) * area(ring), 0), 0);
+}
+
+// Largest set of alerts whose cones share a common area; ties go to the smallest area.
+// Score = agreement (share of alerts that agree) x focus (how much tighter than one cone)
+// x depth (two crossing cones is a fix, four is a much better one).
+export function locateSource(alerts: DogAlert[], rangeM: number): SourceArea | null {
+  const use = alerts
+    .slice()
+    .sort((a, b) => Date.parse(b.timeISO) - Date.parse(a.timeISO))
+    .slice(0, MAX_ALERTS);
+  if (use.length < 2) return null;
+
+  const origin = { lat: use[0].lat, lon: use[0].lon };
+  const cones = use.map((a) => toPolygon(backProjectionCone(a, rangeM)));
+  const coneArea = Math.min(...cones.map((c) => multiAreaM2([c], origin)));
+  const n = cones.length;
+
+  for (let size = n; size >= 2; size--) {
+    let best: { mp: MultiPolygon; area: number } | null = null;
+    for (let mask = 0; mask < 1 << n; mask++) {
+      if (popcount(mask) !== size) continue;
+      const picked = cones.filter((_, i) => mask & (1 << i));
+      const mp = polygonClipping.intersection(picked[0], ...picked.slice(1));
+      if (!mp.length) continue;
+      const area = multiAreaM2(mp, origin);
+      if (area > 1 && (!best || area < best.area)) best = { mp, area };
+    }
+    if (best) {
+      const agreement = size / n;
+      const focus = coneArea > 0 ? Math.max(0, 1 - best.area / coneArea) : 0;
+      const depth = Math.min(1, 0.5 + 0.125 * size);
+      return {
+        polygons: fromMulti(best.mp),
+        area_m2: best.area,
+        agreeing: size,
+        total: n,
+        score: Math.max(5, Math.min(100, Math.round(100 * agreement * (0.4 + 0.6 * focus) * depth))),
+      };
+    }
+  }
+  return null;
+}
+
+function popcount(x: number) {
+  let c = 0;
+  for (; x; x &= x - 1) c++;
+  return c;
+}
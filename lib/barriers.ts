@@ -0,0 +1,188 @@
+import polygonClipping, { type MultiPolygon, type Polygon } from "polygon-clipping";
+import { localProjection, snapToGrid } from "./geo";
+import type { EnvelopePolys, LatLon } from "./scentEnvelope";
+
+// Barriers the plume cannot simply run through: lakes, cliffs, highways, large buildings.
+//   block   - nothing gets past; the feature and everything downwind of it is cut
+//   deflect - scent is pushed around the feature and carries on along both sides
+//   absorb  - scent is lost over the feature itself (open water, a busy road) but not beyond it
+
+export type BarrierKind = "block" | "deflect" | "absorb";
+
+export type Barrier = {
+  id: string;
+  kind: BarrierKind;
+  label: string;
+  points: LatLon[];
+  closed: boolean; // area when true, line when false
+};
+
+export const BARRIER_KINDS: Record<BarrierKind, { label: string; color: string; hint: string }> = {
+  block: { label: "Block", color: "#1f2937", hint: "cliff, wall, large building" },
+  deflect: { label: "Deflect", color: "#7c3aed", hint: "hill, building row, dense tree block" },
+  absorb: { label: "Absorb", color: "#0284c7", hint: "lake, river, highway" },
+};
+
+export const BARRIER_KIND_ORDER: BarrierKind[] = ["block", "deflect", "absorb"];
+
+export type ClippedPiece = { zone: keyof EnvelopePolys; polygon: LatLon[][] };
+
+export type BarrierResult = {
+  polygons: EnvelopePolys;
+  clipped: ClippedPiece[]; // parts of each zone the barriers removed (drawn faintly)
+  hit: string[]; // ids of barriers that changed the envelope
+  failed: string[]; // ids of barriers the clipper could not apply (to all or some zones)
+};
+
+// lines get this half-width so they have an area to clip with
+const LINE_HALF_WIDTH_M = 8;
+
+type XY = [number, number];
+
+// everything handed to the clipper goes onto a 1 mm grid (see snapToGrid)
+const grid = (mp: MultiPolygon) => snapToGrid(mp, 1000);
+
+// the clipper's [x, y] pairs in local metres
+function projector(origin: LatLon) {
+  const proj = localProjection(origin);
+  return {
+    toXY: (p: LatLon): XY => {
+      const v = proj.toXY(p);
+      return [v.x, v.y];
+    },
+    toLL: ([x, y]: XY): LatLon => proj.toLL({ x, y }),
+  };
+}
+
+function quad(a: XY, b: XY, c: XY, d: XY): Polygon {
+  return [[a, b, c, d, a]];
+}
+
+function union(polys: Polygon[]): MultiPolygon {
+  if (!polys.length) return [];
+  return polygonClipping.union(polys[0], ...polys.slice(1));
+}
+
+// feature outline in local metres; lines become a thin strip
+function footprint(b: Barrier, toXY: (p: LatLon) => XY): MultiPolygon {
+  const pts = b.points.map(toXY);
+  if (b.closed) return pts.length >= 3 ? union([[[...pts, pts[0]]]]) : [];
+  const strips: Polygon[] = [];
+  for (let i = 1; i < pts.length; i++) {
+    const [ax, ay] = pts[i - 1];
+    const [bx, by] = pts[i];
+    const len = Math.hypot(bx - ax, by - ay);
+    if (len < 1e-6) continue;
+    const nx = (-(by - ay) / len) * LINE_HALF_WIDTH_M;
+    const ny = ((bx - ax) / len) * LINE_HALF_WIDTH_M;
+    strips.push(quad([ax + nx, ay + ny], [bx + nx, by + ny], [bx - nx, by - ny], [ax - nx, ay - ny]));
+  }
+  return union(strips);
+}
+
+// footprint swept `far` metres downwind: the footprint plus a parallelogram per edge
+function shadow(fp: MultiPolygon, d: XY, far: number): MultiPolygon {
+  const parts: Polygon[] = [...fp];
+  for (const poly of fp) {
+    const r = poly[0];
+    for (let i = 1; i < r.length; i++) {
+      const a = r[i - 1];
+      const b = r[i];
+      // edges running with the wind sweep no area (and trip up the clipper)
+      const ex = b[0] - a[0];
+      const ey = b[1] - a[1];
+      if (Math.abs(ex * d[1] - ey * d[0]) < 1e-3 * Math.hypot(ex, ey)) continue;
+      parts.push(quad(a, b, [b[0] + d[0] * far, b[1] + d[1] * far], [a[0] + d[0] * far, a[1] + d[1] * far]));
+    }
+  }
+  return union(parts);
+}
+
+function shift(mp: MultiPolygon, dx: number, dy: number): MultiPolygon {
+  return mp.map((poly) => poly.map((ring) => ring.map(([x, y]) => [x + dx, y + dy] as XY)));
+}
+
+// Clip/deflect each zone around the barriers. `axisDeg` is the downwind bearing at the source.
+export function applyBarriers(polys: EnvelopePolys, lkp: LatLon, barriers: Barrier[], axisDeg: number): BarrierResult {
+  const { toXY, toLL } = projector(lkp);
+  const br = (axisDeg * Math.PI) / 180;
+  const d: XY = [Math.sin(br), Math.cos(br)];
+  const n: XY = [-d[1], d[0]];
+
+  const residual = polys.residual.flat(2).map(toXY);
+  const far = 3 * Math.max(1, ...residual.map(([x, y]) => Math.hypot(x, y)));
+
+  // only the part of a feature downwind of the source can shelter anything
+  const downwindSide = quad(
+    [-far * n[0], -far * n[1]],
+    [far * n[0], far * n[1]],
+    [far * (n[0] + d[0]), far * (n[1] + d[1])],
+    [far * (d[0] - n[0]), far * (d[1] - n[1])]
+  );
+
+  const failed = new Set<string>();
+
+  // what each barrier removes, and what it puts back beside itself
+  const effects = barriers
+    .map((b) => {
+      try {
+        const whole = grid(footprint(b, toXY));
+        const fp = whole.length ? polygonClipping.intersection(whole, downwindSide) : [];
+        if (!fp.length) return null;
+        if (b.kind === "absorb") return { id: b.id, cut: grid(fp), kind: b.kind, half: 0 };
+        const sh = grid(shadow(grid(fp), d, far));
+        if (b.kind === "block") return { id: b.id, cut: sh, kind: b.kind, half: 0 };
+        // deflect: half the feature's across-wind width sideways, both ways (plus a metre so the
+        // shifted edges never sit exactly on the shadow edges, which the clipper cannot resolve)
+        const across = fp.flatMap((poly) => poly[0].map(([x, y]) => x * n[0] + y * n[1]));
+        const half = (Math.max(...across) - Math.min(...across)) / 2 + 1;
+        return { id: b.id, cut: sh, kind: b.kind, half };
+      } catch {
+        failed.add(b.id); // outline the clipper cannot use
+        return null;
+      }
+    })
+    .filter((e) => e != null);
+
+  const out = { ...polys };
+  const clipped: ClippedPiece[] = [];
+  const hit = new Set<string>();
+
+  for (const zone of ["core", "fringe", "residual"] as const) {
+    if (!polys[zone].length) continue;
+
+    let shape = grid(polys[zone].map((poly) => poly.map((ring) => ring.map(toXY))));
+    const lost: Polygon[] = [];
+    const zoneHits: string[] = [];
+
+    for (const e of effects) {
+      // one barrier at a time, so an overlap the clipper gives up on only loses that barrier
+      try {
+        const removed = grid(polygonClipping.intersection(shape, e.cut));
+        if (!removed.length) continue;
+        let next = grid(polygonClipping.difference(shape, e.cut));
+        if (e.kind === "deflect") {
+          const around = grid(
+            polygonClipping.difference(
+              polygonClipping.union(shift(removed, n[0] * e.half, n[1] * e.half), shift(removed, -n[0] * e.half, -n[1] * e.half)),
+              e.cut
+            )
+          );
+          if (around.length) next = next.length ? grid(polygonClipping.union(next, around)) : around;
+        }
+        shape = next;
+        lost.push(...removed);
+        zoneHits.push(e.id);
+      } catch {
+        failed.add(e.id);
+      }
+    }
+    if (!zoneHits.length) continue;
+
+    out[zone] = shape.map((poly) => poly.map((ring) => ring.map(toLL)));
+    for (const poly of lost) clipped.push({ zone, polygon: poly.map((r) => r.map(toLL)) });
+    zoneHits.forEach((id) => hit.add(id));
+  }
+
+  return { polygons: out, clipped, hit: [...hit], failed: [...failed] };
+}
@@ -0,0 +1,100 @@
+// Basemap catalogue: XYZ raster sources for the map, the offline downloader and exports.
+// `{s}` is a load-balancing subdomain, `{r}` is "@2x" on high-density screens (CARTO only).
+
+export type Basemap = {
+  id: string;
+  label: string;
+  url: string;
+  subdomains?: string[];
+  attribution: string;
+  maxZoom: number;
+  maxNativeZoom?: number; // beyond this the last level is scaled up
+  custom?: boolean; // added by the user on this device
+  local?: boolean; // served by /api/tiles from a file on this machine
+};
+
+const OSM = '&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a>';
+const ESRI = "Tiles &copy; Esri";
+const USGS = '<a href="https://www.usgs.gov/programs/national-geospatial-program/national-map">USGS The National Map</a>';
+
+export const BASEMAPS: Basemap[] = [
+  {
+    id: "neutral",
+    label: "Neutral (CARTO light)",
+    url: "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png",
+    subdomains: ["a", "b", "c"],
+    attribution: `${OSM} &copy; <a href="https://carto.com/attributions">CARTO</a>`,
+    maxZoom: 19,
+  },
+  {
+    id: "topo",
+    label: "Topographic (OpenTopoMap)",
+    url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png",
+    subdomains: ["a", "b", "c"],
+    attribution: `${OSM}, SRTM | style &copy; <a href="https://opentopomap.org">OpenTopoMap</a> (CC-BY-SA)`,
+    maxZoom: 19,
+    maxNativeZoom: 17,
+  },
+  {
+    id: "usgs-topo",
+    label: "USGS Topo (US only)",
+    url: "https://basemap.nationalmap.gov/arcgis/rest/services/USGSTopo/MapServer/tile/{z}/{y}/{x}",
+    attribution: USGS,
+    maxZoom: 19,
+    maxNativeZoom: 16,
+  },
+  {
+    id: "imagery",
+    label: "Imagery (Esri World Imagery)",
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution: `${ESRI} — Esri, Maxar, Earthstar Geographics, and the GIS User Community`,
+    maxZoom: 19,
+  },
+  {
+    id: "usgs-imagery",
+    label: "USGS Imagery (US only)",
+    url: "https://basemap.nationalmap.gov/arcgis/rest/services/USGSImageryOnly/MapServer/tile/{z}/{y}/{x}",
+    attribution: USGS,
+    maxZoom: 19,
+    maxNativeZoom: 16,
+  },
+];
+
+export const DEFAULT_BASEMAP = BASEMAPS[0];
+
+// shaded relief drawn over any basemap
+export const HILLSHADE_TILES = {
+  url: "https://server.arcgisonline.com/ArcGIS/rest/services/Elevation/World_Hillshade/MapServer/tile/{z}/{y}/{x}",
+  attribution: `${ESRI} — Esri, USGS, NGA, NASA, CGIAR, N Robinson, NCEAS, NLS, OS, NMA, Geodatastyrelsen, Rijkswaterstaat, GSA, Geoland, FEMA, Intermap and the GIS user community`,
+  maxNativeZoom: 16,
+};
+
+// What /api/tiles reports about the server's local MBTiles/PMTiles file
+export type LocalTilesInfo = {
+  name: string;
+  format: string;
+  minzoom: number;
+  maxzoom: number;
+  bounds: [number, number, number, number] | null; // west, south, east, north
+};
+
+export function localBasemap(info: LocalTilesInfo): Basemap {
+  return {
+    id: "local",
+    label: `Local: ${info.name}`,
+    url: "/api/tiles/{z}/{x}/{y}",
+    attribution: info.name,
+    maxZoom: Math.max(19, info.maxzoom),
+    maxNativeZoom: info.maxzoom,
+    local: true,
+  };
+}
+
+export function customBasemap(id: string, label: string, url: string): Basemap {
+  return { id, label, url, subdomains: /\{s\}/.test(url) ? ["a", "b", "c"] : undefined, attribution: label, maxZoom: 19, custom: true };
+}
+
+// A usable XYZ template: http(s) with {z}, {x} and {y}
+export function validTileTemplate(url: string) {
+  return /^https?:\/\//i.test(url) && ["{z}", "{x}", "{y}"].every((k) => url.includes(k));
+}
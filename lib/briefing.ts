@@ -0,0 +1,369 @@
+import { dataUrlToBytes } from "./kml";
+import { buildImagePdf } from "./pdf";
+import { coordFormatLabel, formatCoord, type CoordFormat } from "./coords";
+
+// Printable ICP briefing (browser only): letter pages drawn on canvases, saved as a multi-page
+// PDF or one tall PNG. Map first, then legend, conditions, confidence, notes and start points.
+// Team assignment sheets (ICS-204 style) use the same page layout.
+
+export type BriefingLegendItem = { label: string; color: string; style: "fill" | "line" | "dash" | "dot" };
+
+export type BriefingPoint = { label: string; lat: number; lon: number; detail?: string };
+
+export type BriefingInput = {
+  incidentName: string;
+  modelTimeISO: string;
+  mapDataUrl: string | null; // snapshot of the map; null when tiles would not rasterize
+  legend: BriefingLegendItem[];
+  conditions: [string, string][];
+  confidence: { score: number; band: string; resetMin: number } | null;
+  deploymentNotes: string[];
+  sources: BriefingPoint[];
+  startPoints: BriefingPoint[];
+  planningNotes: string;
+  coordFormat: CoordFormat;
+};
+
+// letter at 150 dpi
+const PAGE_W = 1275;
+const PAGE_H = 1650;
+const MARGIN = 75;
+const FOOTER_H = 70;
+const CONTENT_W = PAGE_W - 2 * MARGIN;
+
+const FONT = "system-ui, -apple-system, Segoe UI, Roboto, sans-serif";
+const DISCLAIMER = "Planning estimate only. Terrain, thermals and obstacles can significantly alter scent behavior.";
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load map snapshot"));
+    img.src = src;
+  });
+}
+
+function wrap(ctx: CanvasRenderingContext2D, text: string, width: number) {
+  const lines: string[] = [];
+  for (const para of text.split("\n")) {
+    let line = "";
+    for (const word of para.split(/\s+/)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(next).width > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// Lays content top to bottom and starts a new page when the next block will not fit
+function pageWriter(title: string, subtitle: string) {
+  const pages: HTMLCanvasElement[] = [];
+  let ctx!: CanvasRenderingContext2D;
+  let y = 0;
+
+  const newPage = () => {
+    const c = document.createElement("canvas");
+    c.width = PAGE_W;
+    c.height = PAGE_H;
+    const cx = c.getContext("2d");
+    if (!cx) throw new Error("Canvas not available");
+    ctx = cx;
+    pages.push(c);
+    ctx.fillStyle = "white";
+    ctx.fillRect(0, 0, PAGE_W, PAGE_H);
+
+    ctx.fillStyle = "#111827";
+    ctx.font = `bold 34px ${FONT}`;
+    ctx.fillText(pages.length === 1 ? title : `${title} (continued)`, MARGIN, MARGIN + 30);
+    ctx.font = `20px ${FONT}`;
+    ctx.fillStyle = "#4b5563";
+    ctx.fillText(subtitle, MARGIN, MARGIN + 62);
+    ctx.fillStyle = "#111827";
+    ctx.fillRect(MARGIN, MARGIN + 78, CONTENT_W, 3);
+    y = MARGIN + 110;
+  };
+
+  const ensure = (h: number) => {
+    if (y + h > PAGE_H - MARGIN - FOOTER_H) newPage();
+  };
+
+  newPage();
+
+  return {
+    pages,
+    get ctx() {
+      return ctx;
+    },
+    get y() {
+      return y;
+    },
+    advance(h: number) {
+      y += h;
+    },
+    ensure,
+
+    heading(text: string) {
+      ensure(90);
+      ctx.fillStyle = "#111827";
+      ctx.font = `bold 26px ${FONT}`;
+      ctx.fillText(text.toUpperCase(), MARGIN, y + 26);
+      ctx.fillStyle = "#d1d5db";
+      ctx.fillRect(MARGIN, y + 38, CONTENT_W, 2);
+      y += 56;
+    },
+
+    paragraph(text: string, opts: { bullet?: boolean; color?: string } = {}) {
+      ctx.font = `22px ${FONT}`;
+      const indent = opts.bullet ? 30 : 0;
+      for (const [i, line] of wrap(ctx, text, CONTENT_W - indent).entries()) {
+        ensure(32);
+        ctx.font = `22px ${FONT}`;
+        ctx.fillStyle = opts.color ?? "#111827";
+        if (opts.bullet && i === 0) ctx.fillText("•", MARGIN + 6, y + 22);
+        ctx.fillText(line, MARGIN + indent, y + 22);
+        y += 32;
+      }
+      y += 6;
+    },
+
+    table(rows: string[][], widths: number[]) {
+      rows.forEach((row, r) => {
+        ensure(38);
+        if (r % 2 === 0) {
+          ctx.fillStyle = "#f3f4f6";
+          ctx.fillRect(MARGIN, y, CONTENT_W, 38);
+        }
+        let x = MARGIN + 10;
+        row.forEach((cell, c) => {
+          ctx.font = `${c === 0 ? "bold " : ""}21px ${FONT}`;
+          ctx.fillStyle = "#111827";
+          const w = widths[c] * CONTENT_W - 16;
+          let s = cell;
+          while (s.length > 1 && ctx.measureText(s).width > w) s = s.slice(0, -2) + "…";
+          ctx.fillText(s, x, y + 26);
+          x += widths[c] * CONTENT_W;
+        });
+        y += 38;
+      });
+      y += 14;
+    },
+  };
+}
+
+function drawLegend(w: ReturnType<typeof pageWriter>, items: BriefingLegendItem[]) {
+  const cols = 3;
+  const colW = CONTENT_W / cols;
+  for (let i = 0; i < items.length; i += cols) {
+    w.ensure(36);
+    items.slice(i, i + cols).forEach((it, k) => {
+      const { ctx } = w;
+      const x = MARGIN + k * colW;
+      const y = w.y;
+      ctx.fillStyle = it.color;
+      ctx.strokeStyle = it.color;
+      if (it.style === "fill") {
+        ctx.globalAlpha = 0.35;
+        ctx.fillRect(x, y + 6, 36, 20);
+        ctx.globalAlpha = 1;
+        ctx.lineWidth = 2;
+        ctx.strokeRect(x, y + 6, 36, 20);
+      } else if (it.style === "line" || it.style === "dash") {
+        ctx.lineWidth = it.style === "dash" ? 3 : 4;
+        ctx.setLineDash(it.style === "dash" ? [8, 5] : []);
+        ctx.beginPath();
+        ctx.moveTo(x, y + 16);
+        ctx.lineTo(x + 36, y + 16);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      } else {
+        ctx.beginPath();
+        ctx.arc(x + 18, y + 16, 9, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      ctx.fillStyle = "#111827";
+      ctx.font = `20px ${FONT}`;
+      ctx.fillText(it.label, x + 48, y + 23, colW - 56);
+    });
+    w.advance(36);
+  }
+  w.advance(14);
+}
+
+export async function renderBriefingPages(input: BriefingInput): Promise<HTMLCanvasElement[]> {
+  const model = new Date(input.modelTimeISO);
+  const w = pageWriter(
+    input.incidentName,
+    `K9 scent briefing • model time ${model.toLocaleString()} (${model.toISOString().slice(0, 16).replace("T", " ")}Z) • printed ${new Date().toLocaleString()}`
+  );
+
+  if (input.mapDataUrl) {
+    const img = await loadImage(input.mapDataUrl);
+    const scale = Math.min(CONTENT_W / img.width, 880 / img.height);
+    const iw = img.width * scale;
+    const ih = img.height * scale;
+    w.ensure(ih);
+    w.ctx.drawImage(img, MARGIN + (CONTENT_W - iw) / 2, w.y, iw, ih);
+    w.ctx.strokeStyle = "#9ca3af";
+    w.ctx.lineWidth = 2;
+    w.ctx.strokeRect(MARGIN + (CONTENT_W - iw) / 2, w.y, iw, ih);
+    w.advance(ih + 20);
+  } else {
+    w.paragraph("(Map snapshot unavailable — basemap tiles could not be captured.)", { color: "#6b7280" });
+  }
+
+  if (input.legend.length) {
+    w.heading("Legend");
+    drawLegend(w, input.legend);
+  }
+
+  w.heading("Conditions");
+  w.table(input.conditions.map(([k, v]) => [k, v]), [0.3, 0.7]);
+
+  w.heading("Confidence");
+  w.paragraph(
+    input.confidence
+      ? `${input.confidence.score} (${input.confidence.band}) • re-run the model in ${input.confidence.resetMin} min`
+      : "No envelope (set a point and fetch wind)."
+  );
+
+  if (input.deploymentNotes.length) {
+    w.heading("Deployment notes");
+    input.deploymentNotes.forEach((n) => w.paragraph(n, { bullet: true }));
+  }
+
+  if (input.sources.length) {
+    w.heading(`LKPs & clues (${coordFormatLabel(input.coordFormat)})`);
+    w.table(input.sources.map((p) => [p.label, formatCoord(p, input.coordFormat), p.detail ?? ""]), [0.3, 0.35, 0.35]);
+  }
+
+  if (input.startPoints.length) {
+    w.heading(`Start points (${coordFormatLabel(input.coordFormat)})`);
+    w.table(input.startPoints.map((p) => [p.label, formatCoord(p, input.coordFormat), p.detail ?? ""]), [0.3, 0.35, 0.35]);
+  }
+
+  w.heading("Planning notes");
+  w.paragraph(input.planningNotes.trim() || "(none)");
+
+  drawFooters(w.pages);
+  return w.pages;
+}
+
+// footers once the page count is known
+function drawFooters(pages: HTMLCanvasElement[]) {
+  pages.forEach((page, i) => {
+    const ctx = page.getContext("2d");
+    if (!ctx) return;
+    const fy = PAGE_H - MARGIN - FOOTER_H + 30;
+    ctx.fillStyle = "#d1d5db";
+    ctx.fillRect(MARGIN, fy - 24, CONTENT_W, 2);
+    ctx.fillStyle = "#4b5563";
+    ctx.font = `18px ${FONT}`;
+    ctx.fillText(`Disclaimer: ${DISCLAIMER}`, MARGIN, fy + 4, CONTENT_W - 140);
+    ctx.textAlign = "right";
+    ctx.fillText(`Page ${i + 1} of ${pages.length}`, PAGE_W - MARGIN, fy + 4);
+    ctx.textAlign = "left";
+  });
+}
+
+export type AssignmentSheetTeam = {
+  name: string;
+  handler: string;
+  dog: string;
+  callSign: string;
+  assignments: { target: string; lat: number; lon: number; status: string; timeline: string; notes: string }[];
+};
+
+export type AssignmentSheetInput = {
+  incidentName: string;
+  operationalPeriod: string;
+  mapDataUrl: string | null;
+  teams: AssignmentSheetTeam[];
+  specialInstructions: string[]; // wind, conditions and deployment notes that apply to every team
+  coordFormat: CoordFormat;
+};
+
+// ICS-204-style assignment list: one sheet (new page) per team, same letter layout as the briefing
+export async function renderAssignmentPages(input: AssignmentSheetInput): Promise<HTMLCanvasElement[]> {
+  const img = input.mapDataUrl ? await loadImage(input.mapDataUrl) : null;
+  const pages: HTMLCanvasElement[] = [];
+
+  for (const team of input.teams) {
+    const w = pageWriter(
+      `ICS 204 • ${team.name}`,
+      `${input.incidentName} • operational period ${input.operationalPeriod} • printed ${new Date().toLocaleString()}`
+    );
+
+    w.heading("Resources assigned");
+    w.table(
+      [
+        ["Team", team.name],
+        ["Handler", team.handler || "—"],
+        ["Dog", team.dog || "—"],
+        ["Call sign", team.callSign || "—"],
+      ],
+      [0.3, 0.7]
+    );
+
+    w.heading(`Work assignment (${coordFormatLabel(input.coordFormat)})`);
+    if (team.assignments.length) {
+      w.table(team.assignments.map((a) => [a.target, formatCoord(a, input.coordFormat), a.status]), [0.35, 0.4, 0.25]);
+      team.assignments.forEach((a) => w.paragraph(`${a.target}: ${a.timeline}`, { bullet: true }));
+    } else {
+      w.paragraph("(no assignment)", { color: "#6b7280" });
+    }
+
+    if (img) {
+      const scale = Math.min(CONTENT_W / img.width, 600 / img.height);
+      const iw = img.width * scale;
+      const ih = img.height * scale;
+      w.ensure(ih + 20);
+      w.ctx.drawImage(img, MARGIN + (CONTENT_W - iw) / 2, w.y, iw, ih);
+      w.ctx.strokeStyle = "#9ca3af";
+      w.ctx.lineWidth = 2;
+      w.ctx.strokeRect(MARGIN + (CONTENT_W - iw) / 2, w.y, iw, ih);
+      w.advance(ih + 20);
+    }
+
+    w.heading("Special instructions");
+    const notes = team.assignments.filter((a) => a.notes.trim()).map((a) => `${a.target}: ${a.notes.trim()}`);
+    [...notes, ...input.specialInstructions].forEach((n) => w.paragraph(n, { bullet: true }));
+    if (!notes.length && !input.specialInstructions.length) w.paragraph("(none)");
+
+    w.heading("Communications");
+    w.table(input.teams.map((t) => [t.name, t.callSign || "—", t.handler || ""]), [0.35, 0.3, 0.35]);
+
+    w.heading("Prepared by");
+    w.paragraph("Name / position: ________________________    Date / time: ______________");
+
+    pages.push(...w.pages);
+  }
+
+  drawFooters(pages);
+  return pages;
+}
+
+export function briefingPdf(pages: HTMLCanvasElement[]): Uint8Array {
+  return buildImagePdf(
+    pages.map((c) => ({ jpeg: dataUrlToBytes(c.toDataURL("image/jpeg", 0.9)), widthPx: c.width, heightPx: c.height }))
+  );
+}
+
+// all pages stacked into one image, with a gap between them
+export function briefingPngDataUrl(pages: HTMLCanvasElement[]): string {
+  const gap = 24;
+  const out = document.createElement("canvas");
+  out.width = PAGE_W;
+  out.height = pages.length * PAGE_H + (pages.length - 1) * gap;
+  const ctx = out.getContext("2d");
+  if (!ctx) return "";
+  ctx.fillStyle = "#9ca3af";
+  ctx.fillRect(0, 0, out.width, out.height);
+  pages.forEach((p, i) => ctx.drawImage(p, 0, i * (PAGE_H + gap)));
+  return out.toDataURL("image/png");
+}
@@ -0,0 +1,72 @@
+import type { CloudType, PrecipType } from "./scentEnvelope";
+
+// Environmental conditions at the model point/time, already mapped to envelope enums
+export type ConditionsData = {
+  temperature_f: number;
+  rel_humidity_pct: number;
+  cloud_cover_pct: number;
+  cloud: Exclude<CloudType, "night">;
+  precip_mm: number; // last hour
+  precip: PrecipType;
+  recent_rain: boolean; // rained in the last rain_hours but not now
+  recent_rain_mm: number;
+  rain_hours: number;
+  time_utc?: string;
+  timezone?: string;
+  utc_offset_seconds?: number;
+  provider?: string;
+  model?: string;
+};
+
+export type ConditionField = "tempF" | "rh" | "cloud" | "precip" | "recentRain";
+
+// per-field manual override flags (true = use the hand-entered value)
+export type ConditionOverrides = Record<ConditionField, boolean>;
+
+export const NO_OVERRIDES: ConditionOverrides = {
+  tempF: false,
+  rh: false,
+  cloud: false,
+  precip: false,
+  recentRain: false,
+};
+
+export function cloudFromCover(pct: number): Exclude<CloudType, "night"> {
+  if (pct < 25) return "clear";
+  if (pct < 75) return "partly";
+  return "overcast";
+}
+
+// standard rain-rate classes (mm/h)
+export function precipFromRate(mmPerHour: number): PrecipType {
+  if (mmPerHour < 0.1) return "none";
+  if (mmPerHour < 2.5) return "light";
+  if (mmPerHour < 7.6) return "moderate";
+  return "heavy";
+}
+
+// "recent rain ended": measurable rain in the window, none falling now
+export function recentRainFrom(windowMm: number, nowMm: number) {
+  return windowMm >= 0.2 && precipFromRate(nowMm) === "none";
+}
+
+export function buildConditions(raw: {
+  temperature_f: number;
+  rel_humidity_pct: number;
+  cloud_cover_pct: number;
+  precip_mm: number;
+  window_precip_mm: number;
+  rain_hours: number;
+}): ConditionsData {
+  return {
+    temperature_f: raw.temperature_f,
+    rel_humidity_pct: raw.rel_humidity_pct,
+    cloud_cover_pct: raw.cloud_cover_pct,
+    cloud: cloudFromCover(raw.cloud_cover_pct),
+    precip_mm: raw.precip_mm,
+    precip: precipFromRate(raw.precip_mm),
+    recent_rain: recentRainFrom(raw.window_precip_mm, raw.precip_mm),
+    recent_rain_mm: Math.round(raw.window_precip_mm * 10) / 10,
+    rain_hours: raw.rain_hours,
+  };
+}
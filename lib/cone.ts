@@ -5,8 +5,30 @@ export type WindData = {
   time_local?: string;
   timezone?: string;
   utc_offset_seconds?: number;
+  gust_mps?: number;
+  provider?: string; // weather provider id, for citation in exports
+  model?: string;
 };
 
+// One hour of an hourly wind series (UTC)
+export type WindSeriesPoint = {
+  time_utc: string;
+  wind_speed_mps: number;
+  wind_dir_from_deg: number;
+  gust_mps?: number;
+};
+
+// The hourly sample in force at a moment: the last one at or before it, if under an hour old
+export function windAtTime(series: WindSeriesPoint[], iso: string): WindSeriesPoint | null {
+  const t = Date.parse(iso);
+  let hit: WindSeriesPoint | null = null;
+  for (const p of series) {
+    const pt = Date.parse(p.time_utc);
+    if (pt <= t && t - pt < 3600_000 && (!hit || pt > Date.parse(hit.time_utc))) hit = p;
+  }
+  return hit;
+}
+
 export function mpsToMph(mps: number) {
   return mps * 2.236936;
 }
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { formatCoord, parseCoord, toUtm, toUsng, type CoordFormat } from "./coords";
+import { distanceM } from "./geo";
+
+const PLACES = [
+  { lat: 38.88948, lon: -77.03531 }, // Washington
+  { lat: -33.8688, lon: 151.2093 }, // Sydney
+  { lat: -0.5, lon: 36.8 }, // just south of the equator
+  { lat: 60.39, lon: 5.32 }, // Bergen, in the widened zone 32V
+  { lat: 78.2232, lon: 15.6267 }, // Svalbard, zone 33X
+];
+
+test("UTM on the central meridian at the equator", () => {
+  assert.deepEqual(toUtm(0, 3), { zone: 31, band: "N", easting: 500000, northing: 0 });
+});
+
+test("UTM and USNG match published grid values", () => {
+  const u = toUtm(-33.8688, 151.2093)!;
+  assert.equal(`${u.zone}${u.band} ${Math.round(u.easting)} ${Math.round(u.northing)}`, "56H 334369 6250948");
+  assert.equal(toUsng(-33.8688, 151.2093), "56H LH 34368 50948");
+  assert.equal(toUsng(60.39, 5.32)?.slice(0, 3), "32V");
+  assert.equal(toUsng(78.2232, 15.6267)?.slice(0, 3), "33X");
+});
+
+test("every format parses back to within a couple of metres", () => {
+  const formats: CoordFormat[] = ["dd", "dms", "ddm", "utm", "usng"];
+  for (const p of PLACES) {
+    for (const f of formats) {
+      const text = formatCoord(p, f);
+      const back = parseCoord(text);
+      assert.ok(back, `${f}: ${text}`);
+      assert.ok(distanceM(p, back) < 2, `${f}: ${text} is ${distanceM(p, back)} m off`);
+    }
+  }
+});
+
+test("shorter USNG references land in the centre of their square", () => {
+  const p = parseCoord("18S UJ 234 064")!;
+  const u = toUtm(p.lat, p.lon)!;
+  assert.ok(Math.abs(u.easting - 323450) < 0.5 && Math.abs(u.northing - 4306450) < 0.5);
+});
+
+test("degrees parse with hemisphere letters in either order", () => {
+  const a = parseCoord("77°02'07.1\"W 38°53'22.1\"N")!;
+  assert.ok(Math.abs(a.lat - 38.88947) < 1e-4 && Math.abs(a.lon + 77.03531) < 1e-4);
+  assert.deepEqual(parseCoord("-33.5, 151.25"), { lat: -33.5, lon: 151.25 });
+});
+
+test("nonsense and out-of-range input is rejected", () => {
+  for (const s of ["", "hello", "61S 500000 4000000", "95, 10", "45 75 00 N 122 W"]) assert.equal(parseCoord(s), null, s);
+});
+
+test("grid formats fall back to decimal degrees past 84°N", () => {
+  assert.equal(formatCoord({ lat: 85, lon: 10 }, "usng"), "85.00000, 10.00000");
+});
@@ -0,0 +1,286 @@
+import type { LatLon } from "./scentEnvelope";
+
+// Coordinate display and entry: decimal degrees, DMS, DDM, UTM and USNG/MGRS (WGS84).
+// Pure math, no network, so it works offline in the field.
+
+export type CoordFormat = "dd" | "dms" | "ddm" | "utm" | "usng";
+
+export const COORD_FORMATS: { id: CoordFormat; label: string; example: string }[] = [
+  { id: "usng", label: "USNG / MGRS", example: "10T DQ 35123 96789" },
+  { id: "utm", label: "UTM", example: "10T 535123 4996789" },
+  { id: "dd", label: "Decimal degrees", example: "45.12345, -122.45678" },
+  { id: "ddm", label: "Degrees decimal minutes", example: "45°07.407'N 122°27.407'W" },
+  { id: "dms", label: "Degrees minutes seconds", example: "45°07'24.4\"N 122°27'24.4\"W" },
+];
+
+// --- UTM (Snyder's transverse Mercator series on WGS84) ---
+
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+const BANDS = "CDEFGHJKLMNPQRSTUVWX"; // 8° bands from 80°S; X runs to 84°N
+
+export type Utm = { zone: number; band: string; easting: number; northing: number };
+
+const rad = (d: number) => (d * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+function utmZone(lat: number, lon: number) {
+  let zone = Math.floor((lon + 180) / 6) + 1;
+  if (zone > 60) zone = 60;
+  // Norway and Svalbard exceptions
+  if (lat >= 56 && lat < 64 && lon >= 3 && lon < 12) zone = 32;
+  if (lat >= 72 && lat < 84) {
+    if (lon >= 0 && lon < 9) zone = 31;
+    else if (lon >= 9 && lon < 21) zone = 33;
+    else if (lon >= 21 && lon < 33) zone = 35;
+    else if (lon >= 33 && lon < 42) zone = 37;
+  }
+  return zone;
+}
+
+function latBand(lat: number) {
+  return BANDS[Math.min(BANDS.length - 1, Math.floor((lat + 80) / 8))];
+}
+
+function meridianArc(phi: number) {
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  return (
+    A *
+    ((1 - E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+      ((3 * E2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+      ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+      ((35 * e6) / 3072) * Math.sin(6 * phi))
+  );
+}
+
+function projectUtm(lat: number, lon: number, zone: number) {
+  const phi = rad(lat);
+  const lon0 = rad((zone - 1) * 6 - 180 + 3);
+  const sin = Math.sin(phi);
+  const cos = Math.cos(phi);
+  const tan = Math.tan(phi);
+  const n = A / Math.sqrt(1 - E2 * sin * sin);
+  const t = tan * tan;
+  const c = EP2 * cos * cos;
+  const a = cos * (rad(lon) - lon0);
+
+  const easting = K0 * n * (a + ((1 - t + c) * a ** 3) / 6 + ((5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5) / 120) + 500000;
+  let northing =
+    K0 *
+    (meridianArc(phi) +
+      n * tan * ((a * a) / 2 + ((5 - t + 9 * c + 4 * c * c) * a ** 4) / 24 + ((61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6) / 720));
+  if (lat < 0) northing += 10000000;
+  return { easting, northing };
+}
+
+export function toUtm(lat: number, lon: number): Utm | null {
+  if (lat < -80 || lat > 84) return null; // polar regions use UPS
+  const zone = utmZone(lat, lon);
+  return { zone, band: latBand(lat), ...projectUtm(lat, lon, zone) };
+}
+
+export function fromUtm(zone: number, north: boolean, easting: number, northing: number): LatLon {
+  const x = easting - 500000;
+  const y = north ? northing : northing - 10000000;
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  const mu = y / K0 / (A * (1 - E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 * e1) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sin = Math.sin(phi1);
+  const cos = Math.cos(phi1);
+  const tan = Math.tan(phi1);
+  const n1 = A / Math.sqrt(1 - E2 * sin * sin);
+  const t1 = tan * tan;
+  const c1 = EP2 * cos * cos;
+  const r1 = (A * (1 - E2)) / Math.pow(1 - E2 * sin * sin, 1.5);
+  const d = x / (n1 * K0);
+
+  const lat =
+    phi1 -
+    ((n1 * tan) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6) / 720);
+  const lon =
+    rad((zone - 1) * 6 - 180 + 3) +
+    (d - ((1 + 2 * t1 + c1) * d ** 3) / 6 + ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) / 120) / cos;
+
+  return { lat: deg(lat), lon: deg(lon) };
+}
+
+// --- USNG / MGRS 100 km square letters ---
+
+const COL_SETS = ["ABCDEFGH", "JKLMNPQR", "STUVWXYZ"];
+const ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV";
+
+function squareId(zone: number, easting: number, northing: number) {
+  const col = COL_SETS[(zone - 1) % 3][Math.floor(easting / 100000) - 1];
+  const row = ROW_LETTERS[(Math.floor(northing / 100000) + (zone % 2 === 0 ? 5 : 0)) % 20];
+  return `${col}${row}`;
+}
+
+export function toUsng(lat: number, lon: number, digits = 5): string | null {
+  const u = toUtm(lat, lon);
+  if (!u) return null;
+  const div = 10 ** (5 - digits);
+  const e = String(Math.floor((u.easting % 100000) / div)).padStart(digits, "0");
+  const n = String(Math.floor((u.northing % 100000) / div)).padStart(digits, "0");
+  return `${u.zone}${u.band} ${squareId(u.zone, u.easting, u.northing)} ${e} ${n}`;
+}
+
+function fromUsng(zone: number, band: string, col: string, row: string, e: number, n: number): LatLon | null {
+  const colIdx = COL_SETS[(zone - 1) % 3].indexOf(col);
+  const rowIdx = ROW_LETTERS.indexOf(row);
+  if (colIdx < 0 || rowIdx < 0) return null;
+
+  const easting = (colIdx + 1) * 100000 + e;
+  let northing = ((rowIdx - (zone % 2 === 0 ? 5 : 0) + 20) % 20) * 100000 + n;
+
+  // row letters repeat every 2000 km; take the first repeat at or above the band's southern edge
+  const bandIdx = BANDS.indexOf(band);
+  const bandSouth = -80 + bandIdx * 8;
+  const north = bandSouth >= 0;
+  const lon0 = (zone - 1) * 6 - 180 + 3;
+  const minN = Math.floor(projectUtm(bandSouth, lon0, zone).northing / 100000) * 100000;
+  while (northing < minN) northing += 2000000;
+
+  return fromUtm(zone, north, easting, northing);
+}
+
+// --- display ---
+
+function dm(value: number, pos: string, neg: string, withSeconds: boolean) {
+  const hemi = value < 0 ? neg : pos;
+  const v = Math.abs(value);
+  let d = Math.floor(v);
+  if (withSeconds) {
+    let m = Math.floor((v - d) * 60);
+    let s = Math.round(((v - d) * 60 - m) * 600) / 10;
+    if (s >= 60) { s = 0; m += 1; }
+    if (m >= 60) { m = 0; d += 1; }
+    return `${d}°${String(m).padStart(2, "0")}'${s.toFixed(1).padStart(4, "0")}"${hemi}`;
+  }
+  let m = Math.round((v - d) * 60 * 1000) / 1000;
+  if (m >= 60) { m = 0; d += 1; }
+  return `${d}°${m.toFixed(3).padStart(6, "0")}'${hemi}`;
+}
+
+export function formatCoord(p: LatLon, format: CoordFormat): string {
+  switch (format) {
+    case "dms":
+      return `${dm(p.lat, "N", "S", true)} ${dm(p.lon, "E", "W", true)}`;
+    case "ddm":
+      return `${dm(p.lat, "N", "S", false)} ${dm(p.lon, "E", "W", false)}`;
+    case "utm": {
+      const u = toUtm(p.lat, p.lon);
+      if (u) return `${u.zone}${u.band} ${Math.round(u.easting)} ${Math.round(u.northing)}`;
+      break;
+    }
+    case "usng": {
+      const s = toUsng(p.lat, p.lon);
+      if (s) return s;
+      break;
+    }
+  }
+  // decimal degrees, and the fallback near the poles
+  return `${p.lat.toFixed(5)}, ${p.lon.toFixed(5)}`;
+}
+
+export function coordFormatLabel(format: CoordFormat) {
+  return COORD_FORMATS.find((f) => f.id === format)?.label ?? format;
+}
+
+// --- entry ---
+
+function validLL(p: LatLon) {
+  return isFinite(p.lat) && isFinite(p.lon) && Math.abs(p.lat) <= 90 && Math.abs(p.lon) <= 180 ? p : null;
+}
+
+// Degrees in any of DD, DDM or DMS, with or without hemisphere letters and symbols
+function parseDegrees(s: string): LatLon | null {
+  const tokens = s
+    .toUpperCase()
+    .replace(/[°º'′"″:;]/g, " ")
+    .match(/[NSEW]|[-+]?\d+(?:\.\d+)?|,/g);
+  if (!tokens) return null;
+
+  type Group = { nums: string[]; hemi?: string };
+  const groups: Group[] = [];
+  let cur: Group = { nums: [] };
+  const close = () => {
+    if (cur.nums.length) groups.push(cur);
+    cur = { nums: [] };
+  };
+  for (const t of tokens) {
+    if (t === ",") close();
+    else if (/^[NSEW]$/.test(t)) {
+      if (cur.nums.length && !cur.hemi) { cur.hemi = t; close(); }
+      else { close(); cur.hemi = t; }
+    } else cur.nums.push(t);
+  }
+  close();
+
+  // no separators: split the numbers evenly between lat and lon
+  if (groups.length === 1 && [2, 4, 6].includes(groups[0].nums.length)) {
+    const nums = groups[0].nums;
+    groups.splice(0, 1, { nums: nums.slice(0, nums.length / 2) }, { nums: nums.slice(nums.length / 2) });
+  }
+  if (groups.length !== 2 || groups.some((g) => g.nums.length > 3)) return null;
+
+  const value = (g: Group) => {
+    const [d, m = "0", sec = "0"] = g.nums;
+    const mm = Number(m);
+    const ss = Number(sec);
+    if (mm >= 60 || ss >= 60 || mm < 0 || ss < 0) return NaN;
+    const v = Math.abs(Number(d)) + mm / 60 + ss / 3600;
+    const neg = d.startsWith("-") || g.hemi === "S" || g.hemi === "W";
+    return neg ? -v : v;
+  };
+
+  const [g1, g2] = groups;
+  const latFirst = !(g1.hemi === "E" || g1.hemi === "W" || g2.hemi === "N" || g2.hemi === "S");
+  const lat = value(latFirst ? g1 : g2);
+  const lon = value(latFirst ? g2 : g1);
+  return validLL({ lat, lon });
+}
+
+// Parse a typed coordinate in any supported format. Zone letters are read as MGRS latitude
+// bands (so "10S" is band S in the northern hemisphere, as on USNG maps).
+export function parseCoord(text: string): LatLon | null {
+  const s = text.trim().toUpperCase();
+  if (!s) return null;
+
+  const usng = s.replace(/\s+/g, "").match(/^(\d{1,2})([C-HJ-NP-X])([A-HJ-NP-Z])([A-HJ-NP-V])(\d{0,10})$/);
+  if (usng && usng[5].length % 2 === 0) {
+    const zone = Number(usng[1]);
+    if (zone < 1 || zone > 60) return null;
+    const digits = usng[5];
+    const half = digits.length / 2;
+    const unit = 10 ** (5 - half);
+    // centre of the square the digits name
+    const e = half ? Number(digits.slice(0, half)) * unit + unit / 2 : 50000;
+    const n = half ? Number(digits.slice(half)) * unit + unit / 2 : 50000;
+    const p = fromUsng(zone, usng[2], usng[3], usng[4], e, n);
+    return p && validLL(p);
+  }
+
+  const utm = s.match(/^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*M?E?\s+(\d+(?:\.\d+)?)\s*M?N?$/);
+  if (utm) {
+    const zone = Number(utm[1]);
+    if (zone < 1 || zone > 60) return null;
+    return validLL(fromUtm(zone, utm[2] >= "N", Number(utm[3]), Number(utm[4])));
+  }
+
+  return parseDegrees(s);
+}
@@ -0,0 +1,171 @@
+import { inShape, localProjection, type XY } from "./geo";
+import type { EnvelopePolys, LatLon } from "./scentEnvelope";
+import type { Track } from "./tracks";
+
+// How much of the scent envelope the teams actually worked.
+// A dog working a path clears a strip `detection_width_m` wide on the downwind
+// side of it (plus a small buffer around the path itself so legs run straight
+// into the wind still count). The envelope is rasterized onto a local metre grid
+// and each cell is tested against those swept strips. With several LKPs/clues a
+// cell belongs to a zone if any source's polygon for that zone contains it.
+
+type Zone = keyof EnvelopePolys;
+const ZONES: Zone[] = ["core", "fringe", "residual"];
+
+export type ZoneCoverage = { area_m2: number; covered_m2: number; fraction: number };
+
+export type CoverageGap = { zone: Zone; polygon: LatLon[] };
+
+export type CoverageResult = {
+  zones: Record<Zone, ZoneCoverage>;
+  gaps: CoverageGap[];
+  cell_m: number;
+};
+
+// grid cells along the long side of the envelope; keeps the test cheap enough to run per render
+const GRID_CELLS = 90;
+
+function distToSegment(p: XY, a: XY, b: XY) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// segment AB swept `w` metres along unit vector d is the parallelogram A, B, B+wd, A+wd
+function inSweep(p: XY, a: XY, b: XY, d: XY, w: number) {
+  const ex = b.x - a.x;
+  const ey = b.y - a.y;
+  const cross = ex * d.y - ey * d.x;
+  if (Math.abs(cross) < 1e-9) return false; // leg runs along the wind; handled by the path buffer
+  const px = p.x - a.x;
+  const py = p.y - a.y;
+  // solve p = s*e + t*d
+  const s = (px * d.y - py * d.x) / cross;
+  const t = (ex * py - ey * px) / cross;
+  return s >= 0 && s <= 1 && t >= 0 && t <= w;
+}
+
+export function computeCoverage(input: {
+  polygons: EnvelopePolys[];
+  tracks: Track[];
+  wind_from_deg: number;
+  detection_width_m: number;
+}): CoverageResult | null {
+  const sources = input.polygons.filter((e) => e.residual.length);
+  if (!sources.length) return null;
+
+  const proj = localProjection(sources[0].residual[0][0][0]);
+  const polys = Object.fromEntries(
+    ZONES.map((z) => [z, sources.flatMap((e) => e[z].map((poly) => poly.map((ring) => ring.map(proj.toXY))))])
+  ) as Record<Zone, XY[][][]>;
+
+  const all = ZONES.flatMap((z) => polys[z].flat(2));
+  const minX = Math.min(...all.map((p) => p.x));
+  const maxX = Math.max(...all.map((p) => p.x));
+  const minY = Math.min(...all.map((p) => p.y));
+  const maxY = Math.max(...all.map((p) => p.y));
+  const cell = Math.max(2, Math.max(maxX - minX, maxY - minY) / GRID_CELLS);
+  const nx = Math.ceil((maxX - minX) / cell);
+  const ny = Math.ceil((maxY - minY) / cell);
+
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const downBr = toRad((input.wind_from_deg + 180) % 360);
+  const d: XY = { x: Math.sin(downBr), y: Math.cos(downBr) };
+  const w = Math.max(0, input.detection_width_m);
+  const pathBuffer = Math.max(5, w * 0.15);
+
+  // only segments whose swept box can touch the envelope
+  const segs: [XY, XY][] = [];
+  for (const t of input.tracks) {
+    const pts = t.points.map(proj.toXY);
+    for (let i = 1; i < pts.length; i++) {
+      const a = pts[i - 1];
+      const b = pts[i];
+      const xs = [a.x, b.x, a.x + d.x * w, b.x + d.x * w];
+      const ys = [a.y, b.y, a.y + d.y * w, b.y + d.y * w];
+      if (Math.max(...xs) + pathBuffer < minX || Math.min(...xs) - pathBuffer > maxX) continue;
+      if (Math.max(...ys) + pathBuffer < minY || Math.min(...ys) - pathBuffer > maxY) continue;
+      segs.push([a, b]);
+    }
+  }
+
+  const zones = Object.fromEntries(ZONES.map((z) => [z, { area_m2: 0, covered_m2: 0, fraction: 0 }])) as Record<Zone, ZoneCoverage>;
+  const cellArea = cell * cell;
+
+  // innermost zone of each uncovered cell, row-major; null = covered or outside
+  const gapZone: (Zone | null)[] = new Array(nx * ny).fill(null);
+
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const p = { x: minX + (i + 0.5) * cell, y: minY + (j + 0.5) * cell };
+      const inside = ZONES.filter((z) => inShape(p, polys[z]));
+      if (!inside.length) continue;
+
+      const covered = segs.some(([a, b]) => distToSegment(p, a, b) <= pathBuffer || inSweep(p, a, b, d, w));
+      for (const z of inside) {
+        zones[z].area_m2 += cellArea;
+        if (covered) zones[z].covered_m2 += cellArea;
+      }
+      if (!covered) gapZone[j * nx + i] = inside[0];
+    }
+  }
+
+  for (const z of ZONES) {
+    zones[z].fraction = zones[z].area_m2 > 0 ? zones[z].covered_m2 / zones[z].area_m2 : 0;
+  }
+
+  return { zones, gaps: mergeGaps(gapZone, nx, ny, minX, minY, cell, proj.toLL), cell_m: cell };
+}
+
+// Merge uncovered cells into rectangles: horizontal runs per row, then stack identical runs
+// from consecutive rows. Far fewer polygons for Leaflet than one per cell.
+function mergeGaps(
+  gapZone: (Zone | null)[],
+  nx: number,
+  ny: number,
+  minX: number,
+  minY: number,
+  cell: number,
+  toLL: (p: XY) => LatLon
+): CoverageGap[] {
+  type Run = { zone: Zone; i0: number; i1: number; j0: number; j1: number };
+  const done: Run[] = [];
+  let open = new Map<string, Run>();
+
+  for (let j = 0; j < ny; j++) {
+    const next = new Map<string, Run>();
+    let i = 0;
+    while (i < nx) {
+      const z = gapZone[j * nx + i];
+      if (!z) { i++; continue; }
+      let k = i;
+      while (k + 1 < nx && gapZone[j * nx + k + 1] === z) k++;
+      const key = `${z}:${i}:${k}`;
+      const prev = open.get(key);
+      if (prev) {
+        prev.j1 = j;
+        open.delete(key);
+        next.set(key, prev);
+      } else {
+        next.set(key, { zone: z, i0: i, i1: k, j0: j, j1: j });
+      }
+      i = k + 1;
+    }
+    done.push(...open.values());
+    open = next;
+  }
+  done.push(...open.values());
+
+  return done.map((r) => {
+    const x0 = minX + r.i0 * cell;
+    const x1 = minX + (r.i1 + 1) * cell;
+    const y0 = minY + r.j0 * cell;
+    const y1 = minY + (r.j1 + 1) * cell;
+    return {
+      zone: r.zone,
+      polygon: [toLL({ x: x0, y: y0 }), toLL({ x: x1, y: y0 }), toLL({ x: x1, y: y1 }), toLL({ x: x0, y: y1 })],
+    };
+  });
+}
@@ -0,0 +1,124 @@
+import type { LatLon } from "./scentEnvelope";
+
+// Elevation grid around the LKP (client-safe). The server resamples whatever local DEM is
+// configured (RGB tiles or a GeoTIFF) onto a regular lat/lon grid; the model and the
+// hillshade only ever see this shape.
+
+export type DemGrid = {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+  nx: number;
+  ny: number;
+  elev: number[]; // row-major, first row = north edge; NaN = no data
+  source: string; // "terrarium tiles", "geotiff", ...
+};
+
+// Elevation gradient in metres of rise per metre east/north
+export type Slope = { dzdx: number; dzdy: number };
+
+export type DemSampler = {
+  elevationAt: (p: LatLon) => number | null;
+  slopeAt: (p: LatLon) => Slope | null;
+};
+
+export function decodeTerrarium(r: number, g: number, b: number) {
+  return r * 256 + g + b / 256 - 32768;
+}
+
+export function decodeMapboxRgb(r: number, g: number, b: number) {
+  return -10000 + (r * 65536 + g * 256 + b) * 0.1;
+}
+
+function cellSizeM(grid: DemGrid) {
+  const midLat = (grid.north + grid.south) / 2;
+  return {
+    dx: ((grid.east - grid.west) / (grid.nx - 1)) * 111_320 * Math.cos((midLat * Math.PI) / 180),
+    dy: ((grid.north - grid.south) / (grid.ny - 1)) * 111_320,
+  };
+}
+
+export function demSampler(grid: DemGrid): DemSampler {
+  const { dx, dy } = cellSizeM(grid);
+
+  const at = (i: number, j: number) => grid.elev[j * grid.nx + i];
+
+  // fractional column/row (row 0 = north)
+  const toIJ = (p: LatLon) => ({
+    fi: ((p.lon - grid.west) / (grid.east - grid.west)) * (grid.nx - 1),
+    fj: ((grid.north - p.lat) / (grid.north - grid.south)) * (grid.ny - 1),
+  });
+
+  const elevationAt = (p: LatLon) => {
+    const { fi, fj } = toIJ(p);
+    if (fi < 0 || fj < 0 || fi > grid.nx - 1 || fj > grid.ny - 1) return null;
+    const i = Math.min(grid.nx - 2, Math.floor(fi));
+    const j = Math.min(grid.ny - 2, Math.floor(fj));
+    const u = fi - i;
+    const v = fj - j;
+    const z = (1 - u) * (1 - v) * at(i, j) + u * (1 - v) * at(i + 1, j) + (1 - u) * v * at(i, j + 1) + u * v * at(i + 1, j + 1);
+    return isFinite(z) ? z : null;
+  };
+
+  // central differences at the sample point, one cell either side
+  const slopeAt = (p: LatLon): Slope | null => {
+    const e = elevationAt({ lat: p.lat, lon: p.lon + (grid.east - grid.west) / (grid.nx - 1) });
+    const w = elevationAt({ lat: p.lat, lon: p.lon - (grid.east - grid.west) / (grid.nx - 1) });
+    const n = elevationAt({ lat: p.lat + (grid.north - grid.south) / (grid.ny - 1), lon: p.lon });
+    const s = elevationAt({ lat: p.lat - (grid.north - grid.south) / (grid.ny - 1), lon: p.lon });
+    if (e == null || w == null || n == null || s == null) return null;
+    return { dzdx: (e - w) / (2 * dx), dzdy: (n - s) / (2 * dy) };
+  };
+
+  return { elevationAt, slopeAt };
+}
+
+// Hillshade (sun from the NW at 45° by default) as RGBA, same layout as the grid
+export function hillshadeRGBA(grid: DemGrid, azimuthDeg = 315, altitudeDeg = 45): Uint8ClampedArray {
+  const { dx, dy } = cellSizeM(grid);
+  const az = (azimuthDeg * Math.PI) / 180;
+  const alt = (altitudeDeg * Math.PI) / 180;
+  // unit vector toward the sun, x = east, y = north, z = up
+  const sun = { x: Math.sin(az) * Math.cos(alt), y: Math.cos(az) * Math.cos(alt), z: Math.sin(alt) };
+  const out = new Uint8ClampedArray(grid.nx * grid.ny * 4);
+  const z = (i: number, j: number) => {
+    const v = grid.elev[Math.min(grid.ny - 1, Math.max(0, j)) * grid.nx + Math.min(grid.nx - 1, Math.max(0, i))];
+    return isFinite(v) ? v : 0;
+  };
+
+  for (let j = 0; j < grid.ny; j++) {
+    for (let i = 0; i < grid.nx; i++) {
+      const dzdx = (z(i + 1, j) - z(i - 1, j)) / (2 * dx);
+      const dzdy = (z(i, j - 1) - z(i, j + 1)) / (2 * dy); // row 0 is north
+      const len = Math.hypot(dzdx, dzdy, 1);
+      const shade = (-dzdx * sun.x - dzdy * sun.y + sun.z) / len;
+      const k = (j * grid.nx + i) * 4;
+      const v = Math.round(255 * Math.max(0, shade));
+      out[k] = v;
+      out[k + 1] = v;
+      out[k + 2] = v;
+      // flat ground stays see-through so the basemap reads through
+      out[k + 3] = isFinite(grid.elev[j * grid.nx + i]) ? Math.min(200, 40 + Math.round(600 * Math.hypot(dzdx, dzdy) / len)) : 0;
+    }
+  }
+  return out;
+}
+
+// /api/dem sends no-data cells as null
+export function demFromJson(js: Omit<DemGrid, "elev"> & { elev: (number | null)[] }): DemGrid {
+  return { ...js, elev: js.elev.map((v) => (v == null ? NaN : v)) };
+}
+
+// Browser only: hillshade as a PNG data URL for an image overlay
+export function hillshadeDataUrl(grid: DemGrid): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = grid.nx;
+  canvas.height = grid.ny;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+  const img = ctx.createImageData(grid.nx, grid.ny);
+  img.data.set(hillshadeRGBA(grid));
+  ctx.putImageData(img, 0, 0);
+  return canvas.toDataURL("image/png");
+}
@@ -0,0 +1,139 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { decode as decodePng } from "fast-png";
+import { fromFile } from "geotiff";
+import { decodeMapboxRgb, decodeTerrarium, type DemGrid } from "./dem";
+
+// Server-only local elevation sources.
+//
+//   DEM_TILES_DIR=/data/dem        z/x/y.png RGB tiles (web mercator)
+//   DEM_ENCODING=terrarium         or "mapbox" (terrain-RGB); default terrarium
+//   DEM_ZOOM=13                    tile zoom to read; default 13 (~15 m cells at mid latitudes)
+//   DEM_GEOTIFF=/data/dem.tif      single-band GeoTIFF in geographic lat/lon (EPSG:4326)
+//
+// The GeoTIFF wins when both are set.
+
+export type DemBox = { west: number; south: number; east: number; north: number };
+
+// output grid size; plenty for a few km around the LKP and cheap to ship as JSON
+const GRID_N = 160;
+
+export function demConfigured() {
+  return !!(process.env.DEM_GEOTIFF || process.env.DEM_TILES_DIR);
+}
+
+export async function loadDemGrid(box: DemBox): Promise<DemGrid> {
+  if (process.env.DEM_GEOTIFF) return geotiffGrid(process.env.DEM_GEOTIFF, box);
+  if (process.env.DEM_TILES_DIR) return tilesGrid(process.env.DEM_TILES_DIR, box);
+  throw new Error("No DEM configured (set DEM_TILES_DIR or DEM_GEOTIFF)");
+}
+
+function emptyGrid(box: DemBox, source: string): DemGrid {
+  return { ...box, nx: GRID_N, ny: GRID_N, elev: new Array(GRID_N * GRID_N).fill(NaN), source };
+}
+
+function gridLatLon(box: DemBox, i: number, j: number) {
+  return {
+    lon: box.west + ((box.east - box.west) * i) / (GRID_N - 1),
+    lat: box.north - ((box.north - box.south) * j) / (GRID_N - 1),
+  };
+}
+
+// --- RGB tiles ---
+
+type Tile = { width: number; height: number; elev: Float32Array } | null;
+
+function lonToTileX(lon: number, z: number) {
+  return ((lon + 180) / 360) * 2 ** z;
+}
+
+function latToTileY(lat: number, z: number) {
+  const r = (lat * Math.PI) / 180;
+  return ((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * 2 ** z;
+}
+
+async function readTile(dir: string, z: number, x: number, y: number, encoding: "terrarium" | "mapbox"): Promise<Tile> {
+  let buf: Buffer;
+  try {
+    buf = await fs.readFile(path.join(dir, String(z), String(x), `${y}.png`));
+  } catch {
+    return null; // outside the coverage on disk
+  }
+
+  const png = decodePng(buf);
+  const ch = png.channels;
+  const decodeRgb = encoding === "mapbox" ? decodeMapboxRgb : decodeTerrarium;
+  const elev = new Float32Array(png.width * png.height);
+  for (let k = 0; k < elev.length; k++) {
+    const o = k * ch;
+    elev[k] = ch === 4 && png.data[o + 3] === 0 ? NaN : decodeRgb(png.data[o], png.data[o + 1], png.data[o + 2]);
+  }
+  return { width: png.width, height: png.height, elev };
+}
+
+async function tilesGrid(dir: string, box: DemBox): Promise<DemGrid> {
+  const z = Number(process.env.DEM_ZOOM ?? 13);
+  const encoding = process.env.DEM_ENCODING === "mapbox" ? "mapbox" : "terrarium";
+  const grid = emptyGrid(box, `${encoding} tiles z${z}`);
+  const cache = new Map<string, Tile>();
+
+  for (let j = 0; j < GRID_N; j++) {
+    for (let i = 0; i < GRID_N; i++) {
+      const { lat, lon } = gridLatLon(box, i, j);
+      const tx = lonToTileX(lon, z);
+      const ty = latToTileY(lat, z);
+      const x = Math.floor(tx);
+      const y = Math.floor(ty);
+      const key = `${x}/${y}`;
+      if (!cache.has(key)) cache.set(key, await readTile(dir, z, x, y, encoding));
+      const tile = cache.get(key);
+      if (!tile) continue;
+      const px = Math.min(tile.width - 1, Math.floor((tx - x) * tile.width));
+      const py = Math.min(tile.height - 1, Math.floor((ty - y) * tile.height));
+      grid.elev[j * GRID_N + i] = tile.elev[py * tile.width + px];
+    }
+  }
+
+  if (!grid.elev.some((v) => isFinite(v))) throw new Error(`No DEM tiles on disk cover this area (${dir}, z${z})`);
+  return grid;
+}
+
+// --- GeoTIFF ---
+
+async function geotiffGrid(file: string, box: DemBox): Promise<DemGrid> {
+  const tiff = await fromFile(file);
+  const image = await tiff.getImage();
+  const keys = image.getGeoKeys() as Record<string, number> | null;
+  if (keys?.ProjectedCSTypeGeoKey && !keys.GeographicTypeGeoKey) {
+    throw new Error("DEM GeoTIFF must be in geographic lat/lon (EPSG:4326); reproject it with gdalwarp -t_srs EPSG:4326");
+  }
+
+  const [west, south, east, north] = image.getBoundingBox();
+  const w = image.getWidth();
+  const h = image.getHeight();
+  const noData = image.getGDALNoData();
+
+  // pixel window covering the requested box (clamped to the file)
+  const x0 = Math.max(0, Math.floor(((box.west - west) / (east - west)) * w));
+  const x1 = Math.min(w, Math.ceil(((box.east - west) / (east - west)) * w));
+  const y0 = Math.max(0, Math.floor(((north - box.north) / (north - south)) * h));
+  const y1 = Math.min(h, Math.ceil(((north - box.south) / (north - south)) * h));
+  if (x1 <= x0 || y1 <= y0) throw new Error("DEM GeoTIFF does not cover this area");
+
+  const raster = (await image.readRasters({ window: [x0, y0, x1, y1], samples: [0], interleave: true })) as unknown as ArrayLike<number>;
+  const ww = x1 - x0;
+  const wh = y1 - y0;
+
+  const grid = emptyGrid(box, `geotiff ${path.basename(file)}`);
+  for (let j = 0; j < GRID_N; j++) {
+    for (let i = 0; i < GRID_N; i++) {
+      const { lat, lon } = gridLatLon(box, i, j);
+      const px = Math.floor(((lon - west) / (east - west)) * w) - x0;
+      const py = Math.floor(((north - lat) / (north - south)) * h) - y0;
+      if (px < 0 || py < 0 || px >= ww || py >= wh) continue;
+      const v = raster[py * ww + px];
+      grid.elev[j * GRID_N + i] = noData != null && v === noData ? NaN : v;
+    }
+  }
+  return grid;
+}
@@ -0,0 +1,23 @@
+// Browser download helpers shared by the export features
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadText(text: string, filename: string, mime = "text/plain") {
+  downloadBlob(new Blob([text], { type: `${mime};charset=utf-8` }), filename);
+}
+
+export function fileStamp(d = new Date()) {
+  return d.toISOString().replace(/[:.]/g, "-");
+}
+
+export function safeFileName(name: string) {
+  return name.trim().replace(/[^a-z0-9_-]+/gi, "_").replace(/^_+|_+$/g, "") || "incident";
+}
@@ -0,0 +1,20 @@
+import polygonClipping from "polygon-clipping";
+import { fromMulti, toMulti } from "./geo";
+import type { EnvelopePolys, ZoneShape } from "./scentEnvelope";
+
+// Merge the envelopes of several LKPs/clues into one picture per zone.
+// Each zone comes back as a list of polygons, each a list of rings (outer first, then holes).
+
+function unionZone(shapes: ZoneShape[]): ZoneShape {
+  const valid = shapes.filter((s) => s.length).map(toMulti);
+  if (!valid.length) return [];
+  return fromMulti(polygonClipping.union(valid[0], ...valid.slice(1)));
+}
+
+export function mergeEnvelopes(list: EnvelopePolys[]): EnvelopePolys {
+  return {
+    core: unionZone(list.map((e) => e.core)),
+    fringe: unionZone(list.map((e) => e.fringe)),
+    residual: unionZone(list.map((e) => e.residual)),
+  };
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { pgSigmas, plumeProfile } from "./gaussianPlume";
+import { computeScentEnvelope } from "./scentEnvelope";
+
+const close = (a: number, b: number, tol: number) => assert.ok(Math.abs(a - b) <= tol, `${a} not within ${tol} of ${b}`);
+
+test("Briggs rural sigmas for class D at 1 km", () => {
+  const s = pgSigmas("D", 1000);
+  close(s.sy, 80 / Math.sqrt(1.1), 1e-9);
+  close(s.sz, 60 / Math.sqrt(2.5), 1e-9);
+});
+
+test("sigmas narrow from A to F and widen over urban ground", () => {
+  const sy = (["A", "B", "C", "D", "E", "F"] as const).map((c) => pgSigmas(c, 500).sy);
+  sy.slice(1).forEach((v, i) => assert.ok(v < sy[i]));
+  assert.ok(pgSigmas("D", 500, true).sy > pgSigmas("D", 500).sy);
+});
+
+test("zones close in order and never past the plume front", () => {
+  const p = plumeProfile({ pasquill: "D", wind_speed_mps: 3, minutes_since_lkp: 120 });
+  assert.equal(p.front_m, 3 * 120 * 60);
+  assert.ok(p.length_m.core > 0);
+  assert.ok(p.length_m.core < p.length_m.fringe && p.length_m.fringe <= p.length_m.residual);
+  assert.ok(p.length_m.residual <= p.front_m);
+  assert.ok(p.halfWidth("core", p.length_m.core / 2) > 0);
+  assert.equal(p.halfWidth("core", p.length_m.core * 1.01), 0);
+});
+
+test("a short run is cut off by the plume front", () => {
+  const p = plumeProfile({ pasquill: "F", wind_speed_mps: 1, minutes_since_lkp: 2 });
+  assert.equal(p.length_m.residual, p.front_m);
+  assert.equal(p.halfWidth("residual", p.front_m + 1), 0);
+});
+
+test("at the LKP time the Gaussian envelope has no zones yet", () => {
+  const env = computeScentEnvelope({
+    lkp_lat: 40,
+    lkp_lon: -105,
+    lkp_time_iso: "2026-01-01T10:00:00Z",
+    now_time_iso: "2026-01-01T10:00:00Z",
+    wind_from_deg: 270,
+    wind_speed_mph: 8,
+    temperature_f: 60,
+    rel_humidity_pct: 50,
+    cloud: "partly",
+    precip: "none",
+    recent_rain: false,
+    terrain: "mixed",
+    stability: "neutral",
+    engine: "gaussian",
+  });
+  assert.deepEqual(env.polygons, { core: [], fringe: [], residual: [] });
+  assert.equal(env.metrics.residual.area_m2, 0);
+});
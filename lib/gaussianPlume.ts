@@ -0,0 +1,119 @@
+// Gaussian plume dispersion (ground-level source and receptor) with Pasquill–Gifford sigmas.
+// Pure math in local metres: x = distance downwind, y = crosswind offset.
+
+export type PasquillClass = "A" | "B" | "C" | "D" | "E" | "F";
+
+export type PlumeZone = "core" | "fringe" | "residual";
+
+// Concentration thresholds relative to a fixed reference: the centerline REF_X_M downwind
+// of the source in neutral (D) conditions at REF_WIND_MPS. A fixed reference keeps the
+// physics of dilution (stronger wind / more mixing -> shorter contours).
+const ZONE_THRESHOLDS: Record<PlumeZone, number> = {
+  core: 3e-3,
+  fringe: 4e-4,
+  residual: 5e-5,
+};
+
+const REF_X_M = 10;
+const REF_WIND_MPS = 2;
+const MIN_WIND_MPS = 0.5;
+
+// Briggs (1973) fits to the Pasquill–Gifford curves, x in metres
+function sigmasRural(c: PasquillClass, x: number) {
+  const sy = (k: number) => k * x * Math.pow(1 + 0.0001 * x, -0.5);
+  switch (c) {
+    case "A": return { sy: sy(0.22), sz: 0.2 * x };
+    case "B": return { sy: sy(0.16), sz: 0.12 * x };
+    case "C": return { sy: sy(0.11), sz: 0.08 * x * Math.pow(1 + 0.0002 * x, -0.5) };
+    case "D": return { sy: sy(0.08), sz: 0.06 * x * Math.pow(1 + 0.0015 * x, -0.5) };
+    case "E": return { sy: sy(0.06), sz: (0.03 * x) / (1 + 0.0003 * x) };
+    case "F": return { sy: sy(0.04), sz: (0.016 * x) / (1 + 0.0003 * x) };
+  }
+}
+
+// McElroy–Pooler (Briggs urban) fits
+function sigmasUrban(c: PasquillClass, x: number) {
+  const sy = (k: number) => k * x * Math.pow(1 + 0.0004 * x, -0.5);
+  switch (c) {
+    case "A":
+    case "B": return { sy: sy(0.32), sz: 0.24 * x * Math.pow(1 + 0.001 * x, 0.5) };
+    case "C": return { sy: sy(0.22), sz: 0.2 * x };
+    case "D": return { sy: sy(0.16), sz: 0.14 * x * Math.pow(1 + 0.0003 * x, -0.5) };
+    case "E":
+    case "F": return { sy: sy(0.11), sz: 0.08 * x * Math.pow(1 + 0.0015 * x, -0.5) };
+  }
+}
+
+export function pgSigmas(c: PasquillClass, x: number, urban = false) {
+  const xm = Math.max(1, x);
+  return urban ? sigmasUrban(c, xm) : sigmasRural(c, xm);
+}
+
+export type PlumeInput = {
+  pasquill: PasquillClass;
+  wind_speed_mps: number;
+  minutes_since_lkp: number;
+  urban?: boolean;
+  // scent decay time constant (minutes of travel)
+  tau_min?: number;
+};
+
+export type PlumeProfile = {
+  // distance from the source where each zone contour closes (or is cut by the plume front)
+  length_m: Record<PlumeZone, number>;
+  // crosswind half-width (m) of a zone contour at downwind distance x
+  halfWidth: (zone: PlumeZone, x: number) => number;
+  // plume front: how far scent released at LKP time has travelled
+  front_m: number;
+};
+
+export function plumeProfile(input: PlumeInput): PlumeProfile {
+  const u = Math.max(MIN_WIND_MPS, input.wind_speed_mps);
+  const tau = input.tau_min ?? 180;
+  const urban = !!input.urban;
+
+  // PG sigmas are ~10 min averages; longer exposure adds meander (Turner's 0.2 power law)
+  const avgMin = Math.min(60, Math.max(10, input.minutes_since_lkp));
+  const meander = Math.pow(avgMin / 10, 0.2);
+
+  const front = u * input.minutes_since_lkp * 60;
+
+  // ground-level centerline of a ground-level source: C = Q / (pi u sy sz), Q = 1
+  const centerline = (x: number) => {
+    const s = pgSigmas(input.pasquill, x, urban);
+    const travelMin = x / u / 60;
+    return Math.exp(-travelMin / tau) / (Math.PI * u * s.sy * meander * s.sz);
+  };
+
+  const refS = pgSigmas("D", REF_X_M);
+  const ref = 1 / (Math.PI * REF_WIND_MPS * refS.sy * refS.sz);
+
+  const halfWidth = (zone: PlumeZone, x: number) => {
+    if (x <= 0 || x > front) return 0;
+    const c0 = centerline(x) / ref;
+    const k = ZONE_THRESHOLDS[zone];
+    if (c0 <= k) return 0;
+    const sy = pgSigmas(input.pasquill, x, urban).sy * meander;
+    return sy * Math.sqrt(2 * Math.log(c0 / k));
+  };
+
+  // centerline decreases monotonically, so bisect for where it crosses each threshold
+  const closeAt = (zone: PlumeZone) => {
+    const k = ZONE_THRESHOLDS[zone];
+    let lo = 0;
+    let hi = 200_000;
+    if (centerline(hi) / ref > k) return Math.min(hi, front);
+    for (let i = 0; i < 60; i++) {
+      const mid = (lo + hi) / 2;
+      if (centerline(mid) / ref > k) lo = mid;
+      else hi = mid;
+    }
+    return Math.min(lo, front);
+  };
+
+  return {
+    length_m: { core: closeAt("core"), fringe: closeAt("fringe"), residual: closeAt("residual") },
+    halfWidth,
+    front_m: front,
+  };
+}
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { destination, distanceM, inverse, localProjection, offsetLL, ringAreaM2, toLocal } from "./geo";
+
+const close = (a: number, b: number, tol: number) => assert.ok(Math.abs(a - b) <= tol, `${a} not within ${tol} of ${b}`);
+const dms = (d: number, m: number, s: number) => Math.sign(d) * (Math.abs(d) + m / 60 + s / 3600);
+
+// Vincenty's own worked example (1975)
+const flinders = { lat: dms(-37, 57, 3.7203), lon: dms(144, 25, 29.5244) };
+const buninyong = { lat: dms(-37, 39, 10.1561), lon: dms(143, 55, 35.3839) };
+
+test("inverse matches Flinders Peak to Buninyong", () => {
+  const g = inverse(flinders, buninyong);
+  close(g.distance_m, 54972.271, 0.001);
+  close(g.initial_bearing_deg, dms(306, 52, 5.37), 0.01 / 3600);
+  close(g.final_bearing_deg, dms(127, 10, 25.07) + 180, 0.01 / 3600);
+});
+
+test("direct lands back on Buninyong", () => {
+  const p = destination(flinders, dms(306, 52, 5.37), 54972.271);
+  assert.ok(distanceM(p, buninyong) < 0.001);
+});
+
+test("a degree of the equator and a quarter meridian", () => {
+  close(distanceM({ lat: 0, lon: 0 }, { lat: 0, lon: 1 }), 111319.491, 0.001);
+  close(distanceM({ lat: 0, lon: 0 }, { lat: 90, lon: 0 }), 10001965.729, 0.001);
+  assert.equal(distanceM(flinders, flinders), 0);
+});
+
+test("nearly antipodal points still get a distance", () => {
+  const d = distanceM({ lat: 0, lon: 0 }, { lat: 0.5, lon: 179.7 });
+  assert.ok(Number.isFinite(d) && d > 19_900_000 && d < 20_040_000, String(d));
+});
+
+test("local offsets and projections go there and back", () => {
+  const o = { lat: 45, lon: -122 };
+  const p = offsetLL(o, 300, -400);
+  close(distanceM(o, p), 500, 1e-4);
+  const xy = toLocal(o, p);
+  close(xy.x, 300, 1e-4);
+  close(xy.y, -400, 1e-4);
+
+  const proj = localProjection(o);
+  const back = proj.toLL(proj.toXY(p));
+  close(back.lat, p.lat, 1e-12);
+  close(back.lon, p.lon, 1e-12);
+});
+
+test("ring area of a 1 km square", () => {
+  const o = { lat: 45, lon: -122 };
+  const ring = [offsetLL(o, 0, 0), offsetLL(o, 1000, 0), offsetLL(o, 1000, 1000), offsetLL(o, 0, 1000)];
+  close(ringAreaM2(ring), 1e6, 1e6 * 0.002);
+});
@@ -0,0 +1,234 @@
+import type { MultiPolygon, Polygon } from "polygon-clipping";
+import type { LatLon } from "./scentEnvelope";
+
+// Geodesics on the WGS84 ellipsoid (Vincenty's direct and inverse formulae). Used for every
+// destination/bearing/distance in the model, the envelope metrics and the map measuring tool.
+
+const A = 6378137;
+const F = 1 / 298.257223563;
+const B = A * (1 - F);
+
+const rad = (d: number) => (d * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+const norm360 = (d: number) => ((d % 360) + 360) % 360;
+const norm180 = (d: number) => ((((d + 180) % 360) + 360) % 360) - 180;
+
+export type XY = { x: number; y: number }; // local east/north metres
+
+export type Geodesic = {
+  distance_m: number;
+  initial_bearing_deg: number; // true bearing leaving `from`
+  final_bearing_deg: number; // true bearing arriving at `to`
+};
+
+// Point `distanceM` from `start` along the geodesic leaving at `bearingDeg` (true)
+export function destination(start: LatLon, bearingDeg: number, distanceM: number): LatLon {
+  if (distanceM === 0) return { lat: start.lat, lon: start.lon };
+  const a1 = rad(bearingDeg);
+  const sinA1 = Math.sin(a1);
+  const cosA1 = Math.cos(a1);
+
+  const tanU1 = (1 - F) * Math.tan(rad(start.lat));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const s1 = Math.atan2(tanU1, cosA1);
+  const sinA = cosU1 * sinA1;
+  const cos2A = 1 - sinA * sinA;
+  const u2 = (cos2A * (A * A - B * B)) / (B * B);
+  const k = u2 / 1024;
+  const bigA = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+  const bigB = k * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+
+  let s = distanceM / (B * bigA);
+  let sinS = 0;
+  let cosS = 1;
+  let cos2Sm = 1;
+  for (let i = 0; i < 100; i++) {
+    cos2Sm = Math.cos(2 * s1 + s);
+    sinS = Math.sin(s);
+    cosS = Math.cos(s);
+    const dS =
+      bigB * sinS * (cos2Sm + (bigB / 4) * (cosS * (-1 + 2 * cos2Sm * cos2Sm) - (bigB / 6) * cos2Sm * (-3 + 4 * sinS * sinS) * (-3 + 4 * cos2Sm * cos2Sm)));
+    const next = distanceM / (B * bigA) + dS;
+    if (Math.abs(next - s) < 1e-12) {
+      s = next;
+      break;
+    }
+    s = next;
+  }
+  sinS = Math.sin(s);
+  cosS = Math.cos(s);
+  cos2Sm = Math.cos(2 * s1 + s);
+
+  const x = sinU1 * sinS - cosU1 * cosS * cosA1;
+  const lat = Math.atan2(sinU1 * cosS + cosU1 * sinS * cosA1, (1 - F) * Math.sqrt(sinA * sinA + x * x));
+  const lambda = Math.atan2(sinS * sinA1, cosU1 * cosS - sinU1 * sinS * cosA1);
+  const C = (F / 16) * cos2A * (4 + F * (4 - 3 * cos2A));
+  const L = lambda - (1 - C) * F * sinA * (s + C * sinS * (cos2Sm + C * cosS * (-1 + 2 * cos2Sm * cos2Sm)));
+
+  return { lat: deg(lat), lon: norm180(start.lon + deg(L)) };
+}
+
+// great circle on a mean-radius sphere; only used where Vincenty's inverse does not converge
+function sphericalInverse(from: LatLon, to: LatLon): Geodesic {
+  const p1 = rad(from.lat);
+  const p2 = rad(to.lat);
+  const dl = rad(to.lon - from.lon);
+  const h = Math.sin((p2 - p1) / 2) ** 2 + Math.cos(p1) * Math.cos(p2) * Math.sin(dl / 2) ** 2;
+  const bearing = (a: number, b: number, d: number) =>
+    norm360(deg(Math.atan2(Math.sin(d) * Math.cos(b), Math.cos(a) * Math.sin(b) - Math.sin(a) * Math.cos(b) * Math.cos(d))));
+  return {
+    distance_m: 2 * 6371008.8 * Math.asin(Math.min(1, Math.sqrt(h))),
+    initial_bearing_deg: bearing(p1, p2, dl),
+    final_bearing_deg: norm360(bearing(p2, p1, -dl) + 180),
+  };
+}
+
+// Distance and bearings between two points
+export function inverse(from: LatLon, to: LatLon): Geodesic {
+  const L = rad(to.lon - from.lon);
+  const tanU1 = (1 - F) * Math.tan(rad(from.lat));
+  const cosU1 = 1 / Math.sqrt(1 + tanU1 * tanU1);
+  const sinU1 = tanU1 * cosU1;
+  const tanU2 = (1 - F) * Math.tan(rad(to.lat));
+  const cosU2 = 1 / Math.sqrt(1 + tanU2 * tanU2);
+  const sinU2 = tanU2 * cosU2;
+
+  let lambda = L;
+  let sinL = 0;
+  let cosL = 1;
+  let sinS = 0;
+  let cosS = 1;
+  let s = 0;
+  let cos2A = 1;
+  let cos2Sm = 0;
+  let converged = false;
+  for (let i = 0; i < 200; i++) {
+    sinL = Math.sin(lambda);
+    cosL = Math.cos(lambda);
+    const t = cosU2 * sinL;
+    const u = cosU1 * sinU2 - sinU1 * cosU2 * cosL;
+    sinS = Math.sqrt(t * t + u * u);
+    if (sinS === 0) return { distance_m: 0, initial_bearing_deg: 0, final_bearing_deg: 0 }; // same point
+    cosS = sinU1 * sinU2 + cosU1 * cosU2 * cosL;
+    s = Math.atan2(sinS, cosS);
+    const sinA = (cosU1 * cosU2 * sinL) / sinS;
+    cos2A = 1 - sinA * sinA;
+    cos2Sm = cos2A !== 0 ? cosS - (2 * sinU1 * sinU2) / cos2A : 0; // equatorial line
+    const C = (F / 16) * cos2A * (4 + F * (4 - 3 * cos2A));
+    const prev = lambda;
+    lambda = L + (1 - C) * F * sinA * (s + C * sinS * (cos2Sm + C * cosS * (-1 + 2 * cos2Sm * cos2Sm)));
+    if (Math.abs(lambda - prev) < 1e-12) {
+      converged = true;
+      break;
+    }
+  }
+  if (!converged) return sphericalInverse(from, to); // nearly antipodal
+
+  const u2 = (cos2A * (A * A - B * B)) / (B * B);
+  const bigA = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+  const bigB = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+  const dS =
+    bigB * sinS * (cos2Sm + (bigB / 4) * (cosS * (-1 + 2 * cos2Sm * cos2Sm) - (bigB / 6) * cos2Sm * (-3 + 4 * sinS * sinS) * (-3 + 4 * cos2Sm * cos2Sm)));
+
+  return {
+    distance_m: B * bigA * (s - dS),
+    initial_bearing_deg: norm360(deg(Math.atan2(cosU2 * sinL, cosU1 * sinU2 - sinU1 * cosU2 * cosL))),
+    final_bearing_deg: norm360(deg(Math.atan2(cosU1 * sinL, -sinU1 * cosU2 + cosU1 * sinU2 * cosL))),
+  };
+}
+
+export function distanceM(a: LatLon, b: LatLon) {
+  return inverse(a, b).distance_m;
+}
+
+export function bearingDeg(a: LatLon, b: LatLon) {
+  return inverse(a, b).initial_bearing_deg;
+}
+
+// Local east/north metres around `origin` (azimuthal equidistant), and back
+export function offsetLL(origin: LatLon, eastM: number, northM: number): LatLon {
+  return destination(origin, deg(Math.atan2(eastM, northM)), Math.hypot(eastM, northM));
+}
+
+export function toLocal(origin: LatLon, p: LatLon): XY {
+  const g = inverse(origin, p);
+  const br = rad(g.initial_bearing_deg);
+  return { x: Math.sin(br) * g.distance_m, y: Math.cos(br) * g.distance_m };
+}
+
+// Flat east/north metres around `origin` (equirectangular), and back. Far cheaper than toLocal;
+// for clipping, rasterizing and ring tests on search-area sized shapes.
+export function localProjection(origin: LatLon) {
+  const mLat = 111_320;
+  const mLon = 111_320 * Math.cos(rad(origin.lat));
+  return {
+    toXY: (p: LatLon): XY => ({ x: (p.lon - origin.lon) * mLon, y: (p.lat - origin.lat) * mLat }),
+    toLL: (p: XY): LatLon => ({ lat: origin.lat + p.y / mLat, lon: origin.lon + p.x / mLon }),
+  };
+}
+
+// Area enclosed by a ring (m²), in local metres around its mean point; plenty for search-area
+// sized polygons.
+export function ringAreaM2(ring: LatLon[]) {
+  if (ring.length < 3) return 0;
+  const origin = {
+    lat: ring.reduce((t, p) => t + p.lat, 0) / ring.length,
+    lon: ring.reduce((t, p) => t + p.lon, 0) / ring.length,
+  };
+  return planarArea(ring.map((p) => toLocal(origin, p)));
+}
+
+// --- planar polygon helpers ---
+
+// polygon-clipping's float arithmetic can fail to close an output ring when vertices sit a
+// rounding error apart; on a fixed grid such vertices are either identical or clearly apart
+export function snapToGrid(mp: MultiPolygon, perUnit: number): MultiPolygon {
+  return mp.map((poly) => poly.map((ring) => ring.map(([x, y]) => [Math.round(x * perUnit) / perUnit, Math.round(y * perUnit) / perUnit] as [number, number])));
+}
+
+export const CLIP_GRID_PER_DEG = 1e7; // ~1 cm
+
+// polygon-clipping works on [lon, lat] rings, here already on the grid
+export function toPolygon(poly: LatLon[]): Polygon {
+  return snapToGrid([[poly.map((p) => [p.lon, p.lat] as [number, number])]], CLIP_GRID_PER_DEG)[0];
+}
+
+export function fromMulti(mp: MultiPolygon): LatLon[][][] {
+  return mp.map((poly) => poly.map((ring) => ring.map(([lon, lat]) => ({ lat, lon }))));
+}
+
+export function toMulti(shape: LatLon[][][]): MultiPolygon {
+  return snapToGrid(shape.map((poly) => poly.map((ring) => ring.map((p) => [p.lon, p.lat] as [number, number]))), CLIP_GRID_PER_DEG);
+}
+
+// shoelace area of a ring in local metres
+export function planarArea(ring: XY[]) {
+  let sum = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const p = ring[i];
+    const q = ring[(i + 1) % ring.length];
+    sum += p.x * q.y - q.x * p.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+// even-odd ray cast, in local metres or straight on lon/lat (fine at envelope scale)
+export function inRing(p: LatLon, ring: LatLon[]): boolean;
+export function inRing(p: XY, ring: XY[]): boolean;
+export function inRing(p: LatLon | XY, ring: (LatLon | XY)[]) {
+  const x = (q: LatLon | XY) => ("x" in q ? q.x : q.lon);
+  const y = (q: LatLon | XY) => ("x" in q ? q.y : q.lat);
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if (y(a) > y(p) !== y(b) > y(p) && x(p) < ((x(b) - x(a)) * (y(p) - y(a))) / (y(b) - y(a)) + x(a)) inside = !inside;
+  }
+  return inside;
+}
+
+// inside one of the polygons (rings: outer first, then holes) and not in one of its holes
+export function inShape(p: XY, shape: XY[][][]) {
+  return shape.some((rings) => rings.reduce((inside, ring) => inside !== inRing(p, ring), false));
+}
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { MultiPolygon, Polygon } from "geojson";
+import { buildIncidentGeoJSON, parseIncidentGeoJSON, type ExportInput } from "./geojson";
+
+const sq = (lat: number, lon: number, d: number) => [
+  { lat, lon },
+  { lat, lon: lon + d },
+  { lat: lat + d, lon: lon + d },
+  { lat: lat + d, lon },
+];
+
+const input: ExportInput = {
+  incidentName: "Test search",
+  modelTimeISO: "2026-01-01T12:00:00.000Z",
+  envelope: {
+    polygons: {
+      residual: [[sq(40, -105, 0.02), sq(40.005, -104.995, 0.005)]],
+      fringe: [[sq(40, -105, 0.004)], [sq(40.01, -105, 0.004)]],
+      core: [],
+    },
+    minutes_since_lkp: 30,
+    confidence_score: 70,
+    confidence_band: "Medium",
+    recommended_start_points: [{ label: "Downwind edge", point: { lat: 40.01, lon: -104.99 } }],
+  },
+  bands: null,
+  lkps: [
+    { id: "lkp_a", lat: 40, lon: -105, timeISO: "2026-01-01T11:30:00.000Z", label: "PLS", kind: "lkp", color: "#dc2626" },
+    { id: "lkp_b", lat: 40.002, lon: -105.001, timeISO: "2026-01-01T11:45:00.000Z", label: "Glove", kind: "clue", hidden: true },
+  ],
+  activeLkpId: "lkp_b",
+  traps: [{ id: "trap_a", lat: 40.003, lon: -104.998, label: "Creek", type: "drainage", radiusM: 55, orientationDeg: 120 }],
+  wind: { from_deg: 270, speed_mph: 8 },
+};
+
+// drop undefined keys the importer fills in
+const plain = <T>(v: T): T => JSON.parse(JSON.stringify(v));
+
+test("sources and traps survive an export/import round-trip", () => {
+  const back = parseIncidentGeoJSON(plain(buildIncidentGeoJSON(input)));
+  assert.deepEqual(plain(back.lkps), input.lkps);
+  assert.deepEqual(plain(back.traps), input.traps);
+  assert.equal(back.activeLkpId, "lkp_b");
+  assert.equal(back.skipped, 0);
+});
+
+test("zones export as closed polygons with holes, multipolygons when split, and empty when absent", () => {
+  const fc = buildIncidentGeoJSON(input);
+  const zone = (z: string) => fc.features.find((f) => f.properties?.kind === "envelope" && f.properties.zone === z)!.geometry;
+
+  const residual = zone("residual") as Polygon;
+  assert.equal(residual.type, "Polygon");
+  assert.equal(residual.coordinates.length, 2);
+  for (const ring of residual.coordinates) assert.deepEqual(ring[0], ring[ring.length - 1]);
+  assert.deepEqual(residual.coordinates[0][1], [-104.98, 40]);
+
+  const fringe = zone("fringe") as MultiPolygon;
+  assert.equal(fringe.type, "MultiPolygon");
+  assert.equal(fringe.coordinates.length, 2);
+
+  assert.deepEqual(zone("core"), { type: "MultiPolygon", coordinates: [] });
+});
+
+test("points without a kind come in as traps and bad geometry is skipped", () => {
+  const back = parseIncidentGeoJSON({
+    type: "FeatureCollection",
+    features: [
+      { type: "Feature", geometry: { type: "Point", coordinates: [-105, 40] }, properties: { name: "Culvert" } },
+      { type: "Feature", geometry: { type: "Point", coordinates: [-105, 95] }, properties: {} },
+      { type: "Feature", geometry: { type: "LineString", coordinates: [[-105, 40], [-105.1, 40]] }, properties: {} },
+    ],
+  });
+  assert.equal(back.traps.length, 1);
+  assert.equal(back.traps[0].label, "Culvert");
+  assert.equal(back.traps[0].type, undefined);
+  assert.equal(back.skipped, 2);
+});
+
+test("anything but a FeatureCollection is rejected", () => {
+  assert.throws(() => parseIncidentGeoJSON({ type: "Feature" }), /FeatureCollection/);
+  assert.throws(() => parseIncidentGeoJSON(null), /FeatureCollection/);
+});
@@ -0,0 +1,256 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import type { LKP, SourceKind, Trap } from "./incident";
+import { uid } from "./incident";
+import type { EnvelopeMetrics, EnvelopePolys, LatLon, StartPoint, ZoneShape } from "./scentEnvelope";
+import { TRAP_TYPES, type TrapType } from "./traps";
+import { formatCoord, type CoordFormat } from "./coords";
+import { formatArea, formatDistance, type UnitSystem } from "./units";
+import { mphToMps } from "./cone";
+
+// GeoJSON export/import of the incident picture. Every feature carries a `kind`
+// property so the file round-trips; other GIS tools just see plain features.
+
+export type FeatureKind = "envelope" | "band" | "start_point" | "lkp" | "trap";
+
+type Zone = keyof EnvelopePolys;
+const ZONES: Zone[] = ["residual", "fringe", "core"];
+
+export type ExportEnvelope = {
+  polygons: EnvelopePolys;
+  minutes_since_lkp: number;
+  confidence_score: number;
+  confidence_band: string;
+  reset_recommendation_minutes?: number;
+  recommended_start_points: StartPoint[];
+  metrics?: EnvelopeMetrics;
+};
+
+export type ExportBand = {
+  minutes: number;
+  polygons: EnvelopePolys;
+  confidence_score: number;
+  confidence_band: string;
+};
+
+export type ExportInput = {
+  incidentName: string;
+  modelTimeISO: string;
+  envelope: ExportEnvelope | null;
+  bands: ExportBand[] | null;
+  lkps: LKP[];
+  activeLkpId: string | null;
+  traps: Trap[];
+  wind: { from_deg: number; speed_mph: number; source?: string; model?: string } | null;
+  engine?: string;
+  coordFormat?: CoordFormat; // written as a `coord` text property on point features
+  units?: UnitSystem; // wind speed field and the `size` text; metric sizes are always included too
+};
+
+function ring(poly: LatLon[]): Position[] {
+  const out = poly.map((p) => [p.lon, p.lat]);
+  if (out.length) {
+    const a = out[0];
+    const b = out[out.length - 1];
+    if (a[0] !== b[0] || a[1] !== b[1]) out.push([a[0], a[1]]);
+  }
+  return out;
+}
+
+// one piece stays a Polygon; a zone cut apart by barriers becomes a MultiPolygon
+function zoneGeometry(shape: ZoneShape): Geometry {
+  return shape.length === 1
+    ? { type: "Polygon", coordinates: shape[0].map(ring) }
+    : { type: "MultiPolygon", coordinates: shape.map((poly) => poly.map(ring)) };
+}
+
+function point(p: LatLon): Geometry {
+  return { type: "Point", coordinates: [p.lon, p.lat] };
+}
+
+export function buildIncidentGeoJSON(input: ExportInput): FeatureCollection {
+  const windProps = input.wind
+    ? {
+        wind_from_deg: Math.round(input.wind.from_deg),
+        ...(input.units === "metric"
+          ? { wind_speed_mps: Math.round(mphToMps(input.wind.speed_mph) * 10) / 10 }
+          : { wind_speed_mph: Math.round(input.wind.speed_mph * 10) / 10 }),
+        wind_source: input.wind.source,
+        wind_model: input.wind.model,
+      }
+    : {};
+
+  const features: Feature[] = [];
+  const coord = (p: LatLon) => formatCoord(p, input.coordFormat ?? "dd");
+  const units = input.units ?? "imperial";
+
+  if (input.envelope) {
+    const e = input.envelope;
+    for (const zone of ZONES) {
+      const m = e.metrics?.[zone];
+      features.push({
+        type: "Feature",
+        geometry: zoneGeometry(e.polygons[zone]),
+        properties: {
+          kind: "envelope",
+          zone,
+          ...(m
+            ? {
+                length_m: Math.round(m.length_m),
+                max_width_m: Math.round(m.max_width_m),
+                area_m2: Math.round(m.area_m2),
+                size: `${formatDistance(m.length_m, units)} × ${formatDistance(m.max_width_m, units)}, ${formatArea(m.area_m2, units)}`,
+              }
+            : {}),
+          minutes_since_lkp: e.minutes_since_lkp,
+          confidence_score: e.confidence_score,
+          confidence_band: e.confidence_band,
+          reset_recommendation_minutes: e.reset_recommendation_minutes,
+          model_time: input.modelTimeISO,
+          engine: input.engine,
+          ...windProps,
+        },
+      });
+    }
+
+    e.recommended_start_points.forEach((sp, i) => {
+      features.push({
+        type: "Feature",
+        geometry: point(sp.point),
+        properties: { kind: "start_point", name: sp.label, order: i + 1, coord: coord(sp.point) },
+      });
+    });
+  }
+
+  for (const b of input.bands ?? []) {
+    for (const zone of ZONES) {
+      features.push({
+        type: "Feature",
+        geometry: zoneGeometry(b.polygons[zone]),
+        properties: {
+          kind: "band",
+          zone,
+          minutes_since_lkp: b.minutes,
+          confidence_score: b.confidence_score,
+          confidence_band: b.confidence_band,
+          ...windProps,
+        },
+      });
+    }
+  }
+
+  for (const k of input.lkps) {
+    features.push({
+      type: "Feature",
+      geometry: point(k),
+      // features stay kind "lkp" so older files and readers keep working; clues are told apart by source_kind
+      properties: {
+        kind: "lkp",
+        source_kind: k.kind ?? "lkp",
+        id: k.id,
+        name: k.label ?? (k.kind === "clue" ? "Clue" : "LKP"),
+        time: k.timeISO,
+        active: k.id === input.activeLkpId,
+        color: k.color,
+        hidden: k.hidden,
+        coord: coord(k),
+      },
+    });
+  }
+
+  for (const t of input.traps) {
+    features.push({
+      type: "Feature",
+      geometry: point(t),
+      properties: {
+        kind: "trap",
+        id: t.id,
+        name: t.label,
+        trap_type: t.type,
+        radius_m: t.radiusM,
+        orientation_deg: t.orientationDeg,
+        coord: coord(t),
+      },
+    });
+  }
+
+  // foreign members (name/exported/generator) are allowed by RFC 7946 and ignored by most tools
+  const fc: FeatureCollection & { name: string; exported: string; generator: string } = {
+    type: "FeatureCollection",
+    name: input.incidentName,
+    exported: new Date().toISOString(),
+    generator: "k9-scent-cone",
+    features,
+  };
+  return fc;
+}
+
+export type ImportedPicture = {
+  lkps: LKP[];
+  activeLkpId: string | null;
+  traps: Trap[];
+  skipped: number;
+};
+
+function str(v: unknown) {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+// Restore LKPs and traps. Points without a `kind` (e.g. drawn in a GIS) come in as traps.
+export function parseIncidentGeoJSON(js: unknown): ImportedPicture {
+  const fc = js as Partial<FeatureCollection> | null;
+  if (!fc || fc.type !== "FeatureCollection" || !Array.isArray(fc.features)) {
+    throw new Error("Not a GeoJSON FeatureCollection");
+  }
+
+  const lkps: LKP[] = [];
+  const traps: Trap[] = [];
+  let activeLkpId: string | null = null;
+  let skipped = 0;
+
+  for (const f of fc.features) {
+    const props = (f?.properties ?? {}) as Record<string, unknown>;
+    const kind = props.kind as FeatureKind | undefined;
+
+    // envelope/band/start points are derived from the LKPs, so they are recomputed not imported
+    if (kind === "envelope" || kind === "band" || kind === "start_point") continue;
+
+    if (f?.geometry?.type !== "Point") { skipped++; continue; }
+    const [lon, lat] = f.geometry.coordinates;
+    if (typeof lat !== "number" || typeof lon !== "number" || Math.abs(lat) > 90 || Math.abs(lon) > 180) { skipped++; continue; }
+
+    const name = str(props.name) ?? str(props.label) ?? str(props.title);
+
+    if (kind === "lkp") {
+      const time = str(props.time) ?? str(props.timeISO);
+      const id = str(props.id) ?? uid("lkp");
+      const sourceKind: SourceKind = props.source_kind === "clue" ? "clue" : "lkp";
+      const color = str(props.color);
+      lkps.push({
+        id,
+        lat,
+        lon,
+        timeISO: time && !isNaN(Date.parse(time)) ? new Date(time).toISOString() : new Date().toISOString(),
+        label: name ?? (sourceKind === "clue" ? "Clue" : "LKP"),
+        kind: sourceKind,
+        color: color && /^#[0-9a-f]{6}$/i.test(color) ? color : undefined,
+        hidden: props.hidden === true ? true : undefined,
+      });
+      if (props.active === true) activeLkpId = id;
+      continue;
+    }
+
+    const type = str(props.trap_type);
+    traps.push({
+      id: str(props.id) ?? uid("trap"),
+      lat,
+      lon,
+      label: name ?? "Terrain trap",
+      type: type && type in TRAP_TYPES ? (type as TrapType) : undefined,
+      radiusM: typeof props.radius_m === "number" ? props.radius_m : undefined,
+      orientationDeg: typeof props.orientation_deg === "number" ? props.orientation_deg : undefined,
+    });
+  }
+
+  if (!activeLkpId && lkps.length) activeLkpId = lkps[0].id;
+  return { lkps, activeLkpId, traps, skipped };
+}
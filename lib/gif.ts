@@ -0,0 +1,156 @@
+// Minimal animated GIF writer for scenario recordings. Each frame gets its own 256-colour
+// palette (the most common colours at 5 bits per channel), LZW-compressed as it is captured
+// so a long recording never holds raw RGBA frames.
+
+export type GifFrame = {
+  width: number;
+  height: number;
+  delayMs: number;
+  palette: Uint8Array; // 256 * rgb
+  data: Uint8Array; // LZW code stream, already split into sub-blocks
+};
+
+const MIN_CODE_SIZE = 8;
+
+function bucket(r: number, g: number, b: number) {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+function quantize(rgba: Uint8ClampedArray) {
+  const count = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const k = bucket(rgba[i], rgba[i + 1], rgba[i + 2]);
+    count[k]++;
+    sums[k * 3] += rgba[i];
+    sums[k * 3 + 1] += rgba[i + 1];
+    sums[k * 3 + 2] += rgba[i + 2];
+  }
+
+  const used: number[] = [];
+  for (let k = 0; k < 32768; k++) if (count[k]) used.push(k);
+  used.sort((a, b) => count[b] - count[a]);
+  const top = used.slice(0, 256);
+
+  const palette = new Uint8Array(256 * 3);
+  top.forEach((k, i) => {
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.round(sums[k * 3 + c] / count[k]);
+  });
+
+  // every bucket in the frame -> nearest palette entry
+  const lookup = new Int16Array(32768).fill(-1);
+  top.forEach((k, i) => (lookup[k] = i));
+  for (const k of used) {
+    if (lookup[k] >= 0) continue;
+    const r = sums[k * 3] / count[k];
+    const g = sums[k * 3 + 1] / count[k];
+    const b = sums[k * 3 + 2] / count[k];
+    let best = 0;
+    let bestD = Infinity;
+    for (let i = 0; i < top.length; i++) {
+      const d = (palette[i * 3] - r) ** 2 + (palette[i * 3 + 1] - g) ** 2 + (palette[i * 3 + 2] - b) ** 2;
+      if (d < bestD) {
+        bestD = d;
+        best = i;
+      }
+    }
+    lookup[k] = best;
+  }
+
+  const indices = new Uint8Array(rgba.length / 4);
+  for (let i = 0, p = 0; i < rgba.length; i += 4, p++) indices[p] = lookup[bucket(rgba[i], rgba[i + 1], rgba[i + 2])];
+  return { palette, indices };
+}
+
+// GIF-flavoured LZW: variable code size up to 12 bits, clear code when the table fills
+function lzw(indices: Uint8Array) {
+  const clear = 1 << MIN_CODE_SIZE;
+  const eoi = clear + 1;
+  const bytes: number[] = [];
+  let acc = 0;
+  let bits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let next = eoi + 1;
+  const table = new Map<number, number>();
+
+  const emit = (code: number) => {
+    acc |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      bytes.push(acc & 0xff);
+      acc >>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clear);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const hit = table.get(key);
+    if (hit !== undefined) {
+      prefix = hit;
+      continue;
+    }
+    emit(prefix);
+    if (next < 4096) {
+      table.set(key, next++);
+      if (next > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clear);
+      table.clear();
+      next = eoi + 1;
+      codeSize = MIN_CODE_SIZE + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(eoi);
+  if (bits > 0) bytes.push(acc & 0xff);
+
+  // sub-blocks of at most 255 bytes, then the block terminator
+  const out = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let o = 0;
+  for (let i = 0; i < bytes.length; i += 255) {
+    const n = Math.min(255, bytes.length - i);
+    out[o++] = n;
+    for (let j = 0; j < n; j++) out[o++] = bytes[i + j];
+  }
+  out[o] = 0;
+  return out;
+}
+
+export function gifFrame(rgba: Uint8ClampedArray, width: number, height: number, delayMs: number): GifFrame {
+  const { palette, indices } = quantize(rgba);
+  return { width, height, delayMs, palette, data: lzw(indices) };
+}
+
+// Frames play in order and loop forever; the first frame sets the canvas size.
+export function encodeGif(frames: GifFrame[]): Uint8Array {
+  if (!frames.length) throw new Error("No frames to encode");
+  const chunks: Uint8Array[] = [];
+  const u16 = (n: number) => [n & 0xff, (n >> 8) & 0xff];
+  const { width, height } = frames[0];
+
+  chunks.push(new Uint8Array([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, ...u16(width), ...u16(height), 0, 0, 0])); // GIF89a, no global palette
+  chunks.push(new Uint8Array([0x21, 0xff, 0x0b, ...Array.from("NETSCAPE2.0", (c) => c.charCodeAt(0)), 0x03, 0x01, 0, 0, 0])); // loop forever
+
+  for (const f of frames) {
+    const delay = Math.max(2, Math.round(f.delayMs / 10)); // hundredths; browsers slow down anything shorter
+    chunks.push(new Uint8Array([0x21, 0xf9, 0x04, 0, ...u16(delay), 0, 0]));
+    chunks.push(new Uint8Array([0x2c, 0, 0, 0, 0, ...u16(f.width), ...u16(f.height), 0x87])); // local 256-colour palette
+    chunks.push(f.palette);
+    chunks.push(new Uint8Array([MIN_CODE_SIZE]));
+    chunks.push(f.data);
+  }
+  chunks.push(new Uint8Array([0x3b]));
+
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let o = 0;
+  for (const c of chunks) {
+    out.set(c, o);
+    o += c.length;
+  }
+  return out;
+}
@@ -0,0 +1,215 @@
+import type { WindData, WindSeriesPoint } from "./cone";
+import { NO_OVERRIDES, type ConditionOverrides, type ConditionsData } from "./conditions";
+import type { WeatherProviderId } from "./weatherProvider";
+import type { CloudType, EnvelopeEngine, PrecipType, StabilityType, TerrainType } from "./scentEnvelope";
+import type { Track } from "./tracks";
+import type { DogAlert } from "./alerts";
+import type { TrapType } from "./traps";
+import type { LandCoverPolygon } from "./landCover";
+import type { Barrier } from "./barriers";
+import type { Assignment, Team } from "./teams";
+
+export type AppMode = "live" | "scenario";
+export type WindMode = "current" | "hourly" | "historical" | "manual";
+
+export type SourceKind = "lkp" | "clue";
+
+// An LKP or clue; each gets its own envelope from its own time. Array order is priority.
+export type LKP = {
+  id: string;
+  lat: number;
+  lon: number;
+  timeISO: string;
+  label?: string;
+  kind?: SourceKind;
+  color?: string;
+  hidden?: boolean;
+};
+
+// warm hues so sources read as "scent" next to the cooler team track colors
+export const SOURCE_COLORS = ["#dc2626", "#ea580c", "#d97706", "#c026d3", "#e11d48", "#92400e"];
+
+export function nextSourceColor(lkps: LKP[]) {
+  const used = new Set(lkps.map((k) => k.color));
+  return SOURCE_COLORS.find((c) => !used.has(c)) ?? SOURCE_COLORS[lkps.length % SOURCE_COLORS.length];
+}
+
+export function sourceColor(k: LKP, idx: number) {
+  return k.color ?? SOURCE_COLORS[idx % SOURCE_COLORS.length];
+}
+export type Trap = {
+  id: string;
+  lat: number;
+  lon: number;
+  label: string;
+  type?: TrapType; // older records have none -> "other"
+  radiusM?: number;
+  orientationDeg?: number; // bearing of the feature's long axis
+};
+
+// Everything needed to rebuild the LiveMap picture after a reload
+export type IncidentSnapshot = {
+  appMode: AppMode;
+
+  // live
+  lkps: LKP[];
+  activeLkpId: string | null;
+  lockSource: boolean;
+
+  // scenario
+  scenarioLL: { lat: number; lon: number } | null;
+  scenarioLabel: string;
+  scenarioLkpISO: string;
+  scenarioElapsedMin: number;
+
+  // wind
+  weatherProvider: WeatherProviderId;
+  windMode: WindMode;
+  wind: WindData | null;
+  manualSpeedMph: number;
+  manualFromDeg: number;
+  useWindHistory: boolean;
+  windSeries: WindSeriesPoint[] | null;
+  windTimeline: { series: WindSeriesPoint[]; provider?: string; model?: string } | null;
+  selectedWindHour: string | null; // time_utc of the timeline hour driving the envelope
+
+  // envelope + conditions
+  engine: EnvelopeEngine;
+  bandSet: number[];
+  tempF: number;
+  rh: number;
+  cloud: CloudType;
+  precip: PrecipType;
+  recentRain: boolean;
+  terrain: TerrainType;
+  stability: StabilityType;
+  stabilitySource: "auto" | "manual";
+  autoNight: boolean;
+
+  // fetched conditions + which fields the user has overridden by hand
+  conditions: ConditionsData | null;
+  conditionOverrides: ConditionOverrides;
+  rainHours: number;
+
+  envelopeView: "sources" | "merged"; // how several LKPs/clues are drawn
+  useTerrain: boolean; // bend the envelope with the local DEM (grid itself is refetched, not stored)
+  showHillshade: boolean;
+
+  traps: Trap[];
+
+  // land-cover patches overriding `terrain` where the plume crosses them
+  landCover: LandCoverPolygon[];
+
+  // lakes, cliffs, roads... the envelope is clipped or deflected around
+  barriers: Barrier[];
+
+  // team GPS tracks + coverage settings
+  tracks: Track[];
+  detectionWidthM: number;
+  showCoverageGaps: boolean;
+
+  // dog alerts + upwind back-projection range
+  alerts: DogAlert[];
+  alertRangeM: number;
+
+  // K9 team roster + where each team was sent (ICS-204 sheets)
+  teams: Team[];
+  assignments: Assignment[];
+
+  // free text for the planning section of the briefing export
+  briefingNotes: string;
+
+  // live sync room this incident is shared through (lib/sync.ts); null = this device only
+  syncRoom: string | null;
+};
+
+export type IncidentRecord = {
+  id: string;
+  name: string;
+  mode: AppMode;
+  createdISO: string;
+  updatedISO: string;
+  archived: boolean;
+  snapshot: IncidentSnapshot;
+};
+
+export function uid(prefix = "id") {
+  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now().toString(16)}`;
+}
+
+export function defaultSnapshot(mode: AppMode = "live"): IncidentSnapshot {
+  return {
+    appMode: mode,
+    lkps: [],
+    activeLkpId: null,
+    lockSource: true,
+    scenarioLL: null,
+    scenarioLabel: "Scenario",
+    scenarioLkpISO: new Date().toISOString(),
+    scenarioElapsedMin: 60,
+    weatherProvider: "open-meteo",
+    windMode: "current",
+    wind: null,
+    manualSpeedMph: 11,
+    manualFromDeg: 315,
+    useWindHistory: false,
+    windSeries: null,
+    windTimeline: null,
+    selectedWindHour: null,
+    engine: "empirical",
+    bandSet: [15, 30, 60, 120],
+    tempF: 75,
+    rh: 50,
+    cloud: "partly",
+    precip: "none",
+    recentRain: false,
+    terrain: "mixed",
+    stability: "neutral",
+    stabilitySource: "auto",
+    autoNight: true,
+    conditions: null,
+    conditionOverrides: { ...NO_OVERRIDES },
+    rainHours: 6,
+    envelopeView: "sources",
+    useTerrain: false,
+    showHillshade: true,
+    traps: [],
+    landCover: [],
+    barriers: [],
+    tracks: [],
+    detectionWidthM: 50,
+    showCoverageGaps: true,
+    alerts: [],
+    alertRangeM: 500,
+    teams: [],
+    assignments: [],
+    briefingNotes: "",
+    syncRoom: null,
+  };
+}
+
+// the snapshot as text with keys in defaultSnapshot order, the order stored records come back in
+// (see normalize in incidentStore.ts), so an unchanged snapshot compares equal
+export function snapshotJson(s: IncidentSnapshot) {
+  return JSON.stringify({ ...defaultSnapshot(s.appMode), ...s });
+}
+
+export function defaultIncidentName(mode: AppMode, iso = new Date().toISOString()) {
+  const d = new Date(iso);
+  const stamp = d.toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+  return mode === "scenario" ? `Scenario ${stamp}` : `Incident ${stamp}`;
+}
+
+export function newIncident(mode: AppMode, name?: string, snapshot?: IncidentSnapshot): IncidentRecord {
+  const now = new Date().toISOString();
+  return {
+    id: uid("inc"),
+    name: name || defaultIncidentName(mode, now),
+    mode,
+    createdISO: now,
+    updatedISO: now,
+    archived: false,
+    // older records may be missing fields added later, so always fill from defaults
+    snapshot: { ...defaultSnapshot(mode), ...snapshot, appMode: mode },
+  };
+}
@@ -0,0 +1,101 @@
+import { defaultSnapshot, newIncident, type IncidentRecord } from "./incident";
+
+// IndexedDB-backed incident store (works offline, survives reloads / phone sleep)
+const DB_NAME = "k9-scent-cone";
+const DB_VERSION = 1;
+const STORE = "incidents";
+const LAST_OPEN_KEY = "k9sc:lastIncidentId";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB not available"));
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error("Failed to open incident store"));
+  });
+
+  // allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? new Error("Incident store transaction failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("Incident store transaction aborted"));
+  });
+}
+
+function normalize(rec: IncidentRecord): IncidentRecord {
+  // fill fields added in later versions
+  return { ...rec, snapshot: { ...defaultSnapshot(rec.mode), ...rec.snapshot } };
+}
+
+export async function listIncidents(opts: { includeArchived?: boolean } = {}): Promise<IncidentRecord[]> {
+  const all = await withStore<IncidentRecord[]>("readonly", (s) => s.getAll());
+  return all
+    .map(normalize)
+    .filter((r) => opts.includeArchived || !r.archived)
+    .sort((a, b) => Date.parse(b.updatedISO) - Date.parse(a.updatedISO));
+}
+
+export async function getIncident(id: string): Promise<IncidentRecord | null> {
+  const rec = await withStore<IncidentRecord | undefined>("readonly", (s) => s.get(id));
+  return rec ? normalize(rec) : null;
+}
+
+export async function saveIncident(rec: IncidentRecord, opts: { touch?: boolean } = {}): Promise<IncidentRecord> {
+  const out = opts.touch === false ? rec : { ...rec, updatedISO: new Date().toISOString() };
+  await withStore("readwrite", (s) => s.put(out));
+  return out;
+}
+
+export async function deleteIncident(id: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(id));
+  if (getLastOpenIncidentId() === id) setLastOpenIncidentId(null);
+}
+
+export async function duplicateIncident(id: string): Promise<IncidentRecord> {
+  const src = await getIncident(id);
+  if (!src) throw new Error("Incident not found");
+  // a copy is a separate incident, so it leaves the original's sync room
+  const copy = newIncident(src.mode, `${src.name} (copy)`, { ...structuredClone(src.snapshot), syncRoom: null });
+  return saveIncident(copy);
+}
+
+export async function setIncidentArchived(id: string, archived: boolean): Promise<IncidentRecord> {
+  const rec = await getIncident(id);
+  if (!rec) throw new Error("Incident not found");
+  return saveIncident({ ...rec, archived });
+}
+
+export function getLastOpenIncidentId(): string | null {
+  try { return localStorage.getItem(LAST_OPEN_KEY); } catch { return null; }
+}
+
+export function setLastOpenIncidentId(id: string | null) {
+  try {
+    if (id) localStorage.setItem(LAST_OPEN_KEY, id);
+    else localStorage.removeItem(LAST_OPEN_KEY);
+  } catch {
+    // private mode / storage disabled: nothing to remember
+  }
+}
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { strFromU8, unzipSync } from "fflate";
+import { buildIncidentKML, buildIncidentKMZ, type KmlInput } from "./kml";
+import type { LatLon } from "./scentEnvelope";
+
+const sq = (lat: number, lon: number, d: number) => [
+  { lat, lon },
+  { lat, lon: lon + d },
+  { lat: lat + d, lon: lon + d },
+  { lat: lat + d, lon },
+];
+
+const input: KmlInput = {
+  incidentName: "Smith & Sons <north>",
+  modelTimeISO: "2026-01-01T12:00:00.000Z",
+  envelope: {
+    polygons: {
+      residual: [[sq(40, -105, 0.02), sq(40.005, -104.995, 0.005)]],
+      fringe: [[sq(40, -105, 0.004)], [sq(40.01, -105, 0.004)]],
+      core: [],
+    },
+    minutes_since_lkp: 30,
+    confidence_score: 70,
+    confidence_band: "Medium",
+    recommended_start_points: [{ label: "Downwind edge", point: { lat: 40.01, lon: -104.99 } }],
+  },
+  bands: null,
+  lkps: [{ id: "lkp_a", lat: 40, lon: -105, timeISO: "2026-01-01T11:30:00.000Z", label: "PLS" }],
+  activeLkpId: "lkp_a",
+  traps: [{ id: "trap_a", lat: 40.003, lon: -104.998, label: "Creek", type: "drainage" }],
+  wind: { from_deg: 270, speed_mph: 8 },
+  deploymentNotes: ["Start <downwind>"],
+};
+
+function placemark(kml: string, name: string) {
+  return kml.split("<Placemark>").find((p) => p.includes(`<name>${name}</name>`));
+}
+
+function rings(xml: string, tag: string): LatLon[][] {
+  return [...xml.matchAll(new RegExp(`<${tag}><LinearRing><coordinates>([^<]*)</coordinates>`, "g"))].map((m) =>
+    m[1].split(" ").map((c) => {
+      const [lon, lat] = c.split(",").map(Number);
+      return { lat, lon };
+    })
+  );
+}
+
+// coordinates are written to 7 decimals
+function sameRing(a: LatLon[], b: LatLon[]) {
+  assert.equal(a.length, b.length);
+  a.forEach((p, i) => assert.ok(Math.abs(p.lat - b[i].lat) < 1e-7 && Math.abs(p.lon - b[i].lon) < 1e-7));
+}
+
+test("zone rings read back from the KML, holes as inner boundaries", () => {
+  const kml = buildIncidentKML(input);
+  const residual = placemark(kml, "Residual")!;
+  const [outer] = rings(residual, "outerBoundaryIs");
+  const [hole] = rings(residual, "innerBoundaryIs");
+  // closed on export
+  sameRing(outer.slice(0, -1), input.envelope!.polygons.residual[0][0]);
+  assert.deepEqual(outer[outer.length - 1], outer[0]);
+  sameRing(hole.slice(0, -1), input.envelope!.polygons.residual[0][1]);
+});
+
+test("a split zone is a MultiGeometry and an empty zone is left out", () => {
+  const kml = buildIncidentKML(input);
+  const fringe = placemark(kml, "Fringe")!;
+  assert.match(fringe, /<MultiGeometry>/);
+  assert.equal(rings(fringe, "outerBoundaryIs").length, 2);
+  assert.equal(placemark(kml, "Core"), undefined);
+});
+
+test("points and user text are written safely", () => {
+  const kml = buildIncidentKML(input);
+  assert.match(kml, /<name>Smith &amp; Sons &lt;north&gt;<\/name>/);
+  assert.match(kml, /<li>Start &lt;downwind&gt;<\/li>/);
+  assert.match(placemark(kml, "PLS")!, /<Point><coordinates>-105\.0000000,40\.0000000,0<\/coordinates><\/Point>/);
+  assert.match(placemark(kml, "Creek")!, /Drainage/);
+  assert.ok(placemark(kml, "1. Downwind edge"));
+});
+
+test("the KMZ holds doc.kml and the snapshot overlay", () => {
+  const png = new Uint8Array([137, 80, 78, 71]);
+  const files = unzipSync(buildIncidentKMZ(input, png));
+  assert.deepEqual(Object.keys(files), ["doc.kml", "files/snapshot.png"]);
+  assert.match(strFromU8(files["doc.kml"]), /<href>files\/snapshot\.png<\/href>/);
+  assert.deepEqual(files["files/snapshot.png"], png);
+});
@@ -0,0 +1,207 @@
+import { strToU8, zipSync, type Zippable } from "fflate";
+import type { ExportInput } from "./geojson";
+import type { EnvelopePolys, LatLon } from "./scentEnvelope";
+import { TRAP_TYPES } from "./traps";
+import { formatCoord } from "./coords";
+import { formatArea, formatDistance, formatSpeed } from "./units";
+import { mphToMps } from "./cone";
+
+// KML/KMZ export for Google Earth and partner mapping tools
+
+type Zone = keyof EnvelopePolys;
+const ZONES: Zone[] = ["residual", "fringe", "core"];
+
+// KML colors are aabbggrr
+const ZONE_STYLE: Record<Zone, { line: string; fill: string; label: string }> = {
+  core: { line: "ff2626dc", fill: "8c2626dc", label: "Core" },
+  fringe: { line: "ff1673f9", fill: "661673f9", label: "Fringe" },
+  residual: { line: "ff24bffb", fill: "4024bffb", label: "Residual" },
+};
+
+export type KmlInput = ExportInput & {
+  deploymentNotes?: string[];
+  // relative path of a snapshot image inside the KMZ
+  overlayHref?: string;
+};
+
+function esc(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// a literal "]]>" in user text would end the section early, so it is split across two
+function cdata(s: string) {
+  return `<![CDATA[${s.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function coords(poly: LatLon[]) {
+  const pts = poly.map((p) => `${p.lon.toFixed(7)},${p.lat.toFixed(7)},0`);
+  if (pts.length && pts[0] !== pts[pts.length - 1]) pts.push(pts[0]);
+  return pts.join(" ");
+}
+
+function polygon([outer, ...holes]: LatLon[][]) {
+  const boundary = (tag: string, ring: LatLon[]) => `<${tag}><LinearRing><coordinates>${coords(ring)}</coordinates></LinearRing></${tag}>`;
+  return `<Polygon><tessellate>1</tessellate>${boundary("outerBoundaryIs", outer)}${holes.map((h) => boundary("innerBoundaryIs", h)).join("")}</Polygon>`;
+}
+
+// a zone cut apart by barriers goes out as a MultiGeometry; an empty one is left out
+function polygonPlacemark(name: string, styleId: string, shape: LatLon[][][], description?: string) {
+  if (!shape.length) return "";
+  return `
+      <Placemark>
+        <name>${esc(name)}</name>${description ? `\n        <description>${cdata(description)}</description>` : ""}
+        <styleUrl>#${styleId}</styleUrl>
+        ${shape.length === 1 ? polygon(shape[0]) : `<MultiGeometry>${shape.map(polygon).join("")}</MultiGeometry>`}
+      </Placemark>`;
+}
+
+function pointPlacemark(name: string, styleId: string, p: LatLon, description?: string) {
+  return `
+      <Placemark>
+        <name>${esc(name)}</name>${description ? `\n        <description>${cdata(description)}</description>` : ""}
+        <styleUrl>#${styleId}</styleUrl>
+        <Point><coordinates>${p.lon.toFixed(7)},${p.lat.toFixed(7)},0</coordinates></Point>
+      </Placemark>`;
+}
+
+function styles() {
+  const poly = ZONES.map((z) => `
+    <Style id="zone_${z}">
+      <LineStyle><color>${ZONE_STYLE[z].line}</color><width>2</width></LineStyle>
+      <PolyStyle><color>${ZONE_STYLE[z].fill}</color></PolyStyle>
+    </Style>
+    <Style id="band_${z}">
+      <LineStyle><color>${ZONE_STYLE[z].line}</color><width>1.5</width></LineStyle>
+      <PolyStyle><color>${ZONE_STYLE[z].fill.replace(/^../, "26")}</color></PolyStyle>
+    </Style>`).join("");
+
+  const icon = (id: string, color: string, href: string) => `
+    <Style id="${id}">
+      <IconStyle><color>${color}</color><scale>1.1</scale><Icon><href>${href}</href></Icon></IconStyle>
+    </Style>`;
+
+  return (
+    poly +
+    icon("lkp", "ff0000ff", "http://maps.google.com/mapfiles/kml/shapes/placemark_circle.png") +
+    icon("trap", "ff00a5ff", "http://maps.google.com/mapfiles/kml/shapes/caution.png") +
+    icon("start", "ff00ff00", "http://maps.google.com/mapfiles/kml/shapes/flag.png")
+  );
+}
+
+function windLine(input: KmlInput) {
+  if (!input.wind) return "Wind: n/a";
+  const src = input.wind.source ? ` (${input.wind.source}${input.wind.model ? `/${input.wind.model}` : ""})` : "";
+  return `Wind from ${Math.round(input.wind.from_deg)}° @ ${formatSpeed(mphToMps(input.wind.speed_mph), input.units ?? "imperial")}${src}`;
+}
+
+export function buildIncidentKML(input: KmlInput): string {
+  const parts: string[] = [];
+  const coord = (p: LatLon) => formatCoord(p, input.coordFormat ?? "dd");
+  const units = input.units ?? "imperial";
+  const e = input.envelope;
+  const sizeLine = (z: keyof EnvelopePolys) => {
+    const m = e?.metrics?.[z];
+    return m ? `<br/><b>Size:</b> ${formatDistance(m.length_m, units)} × ${formatDistance(m.max_width_m, units)}, ${esc(formatArea(m.area_m2, units))}` : "";
+  };
+
+  if (e) {
+    const notes = (input.deploymentNotes ?? []).map((n) => `<li>${esc(n)}</li>`).join("");
+    const desc =
+      `<b>Confidence:</b> ${e.confidence_score} (${esc(e.confidence_band)})<br/>` +
+      (e.reset_recommendation_minutes != null ? `<b>Reset:</b> ${e.reset_recommendation_minutes} min<br/>` : "") +
+      `<b>Minutes since LKP:</b> ${e.minutes_since_lkp}<br/>` +
+      `<b>Model time:</b> ${esc(new Date(input.modelTimeISO).toLocaleString())}<br/>` +
+      `${esc(windLine(input))}` +
+      (notes ? `<br/><b>Deployment notes:</b><ul>${notes}</ul>` : "");
+
+    parts.push(`
+    <Folder>
+      <name>Scent envelope (${e.minutes_since_lkp} min)</name>
+      <description>${cdata(desc)}</description>${ZONES.map((z) => polygonPlacemark(ZONE_STYLE[z].label, `zone_${z}`, e.polygons[z], desc + sizeLine(z))).join("")}
+    </Folder>`);
+
+    parts.push(`
+    <Folder>
+      <name>Recommended start points</name>${e.recommended_start_points.map((sp, i) => pointPlacemark(`${i + 1}. ${sp.label}`, "start", sp.point, esc(coord(sp.point)))).join("")}
+    </Folder>`);
+  }
+
+  if (input.bands?.length) {
+    const bandFolders = input.bands.map((b) => {
+      const desc = `<b>${b.minutes} min since LKP</b><br/><b>Confidence:</b> ${b.confidence_score} (${esc(b.confidence_band)})`;
+      return `
+      <Folder>
+        <name>${b.minutes} min</name>
+        <visibility>0</visibility>
+        <description>${cdata(desc)}</description>${ZONES.map((z) => polygonPlacemark(`${b.minutes} min ${ZONE_STYLE[z].label}`, `band_${z}`, b.polygons[z], desc)).join("")}
+      </Folder>`;
+    });
+    parts.push(`
+    <Folder>
+      <name>Time bands</name>${bandFolders.join("")}
+    </Folder>`);
+  }
+
+  if (input.lkps.length) {
+    parts.push(`
+    <Folder>
+      <name>LKPs</name>${input.lkps
+        .map((k) =>
+          pointPlacemark(
+            k.label ?? "LKP",
+            "lkp",
+            k,
+            `${esc(coord(k))}<br/>Time: ${esc(new Date(k.timeISO).toLocaleString())}${k.id === input.activeLkpId ? "<br/>(active)" : ""}`
+          )
+        )
+        .join("")}
+    </Folder>`);
+  }
+
+  if (input.traps.length) {
+    parts.push(`
+    <Folder>
+      <name>Terrain traps</name>${input.traps
+        .map((t) => pointPlacemark(t.label, "trap", t, `${esc(coord(t))}<br/>${TRAP_TYPES[t.type ?? "other"].label} • ${formatDistance(t.radiusM ?? TRAP_TYPES[t.type ?? "other"].defaultRadiusM, units)}`))
+        .join("")}
+    </Folder>`);
+  }
+
+  if (input.overlayHref) {
+    parts.push(`
+    <ScreenOverlay>
+      <name>Map snapshot</name>
+      <visibility>0</visibility>
+      <Icon><href>${esc(input.overlayHref)}</href></Icon>
+      <overlayXY x="0" y="1" xunits="fraction" yunits="fraction"/>
+      <screenXY x="0.01" y="0.99" xunits="fraction" yunits="fraction"/>
+      <size x="0.4" y="0" xunits="fraction" yunits="fraction"/>
+    </ScreenOverlay>`);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${esc(input.incidentName)}</name>
+    <description>${cdata(`K9 scent envelope planning export (decision support). ${esc(windLine(input))}. Exported ${esc(new Date().toLocaleString())}.`)}</description>${styles()}${parts.join("")}
+  </Document>
+</kml>
+`;
+}
+
+// KMZ = zip with doc.kml first; snapshot bundled as files/snapshot.png
+export function buildIncidentKMZ(input: KmlInput, snapshotPng?: Uint8Array): Uint8Array {
+  const withOverlay = snapshotPng ? { ...input, overlayHref: "files/snapshot.png" } : input;
+  const files: Zippable = { "doc.kml": strToU8(buildIncidentKML(withOverlay)) };
+  // PNG is already compressed
+  if (snapshotPng) files["files/snapshot.png"] = [snapshotPng, { level: 0 }];
+  return zipSync(files, { level: 6 });
+}
+
+export function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const b64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const bin = atob(b64);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
@@ -0,0 +1,104 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import { inRing } from "./geo";
+import { uid } from "./incident";
+import type { LatLon, TerrainType } from "./scentEnvelope";
+
+// Land-cover patches (forest block, town, marsh...) that override the incident-wide
+// terrain wherever the plume crosses them. Imported from GeoJSON or drawn on the map.
+
+export type LandCoverInput = { terrain: TerrainType; polygon: LatLon[] };
+
+export type LandCoverPolygon = LandCoverInput & { id: string; label: string };
+
+export const TERRAIN_INFO: Record<TerrainType, { label: string; color: string }> = {
+  mixed: { label: "Mixed", color: "#a8a29e" },
+  open: { label: "Open", color: "#facc15" },
+  forest: { label: "Forest", color: "#16a34a" },
+  urban: { label: "Urban", color: "#64748b" },
+  swamp: { label: "Swamp/Brush", color: "#0d9488" },
+  beach: { label: "Beach/Sand", color: "#f59e0b" },
+};
+
+export const TERRAIN_ORDER: TerrainType[] = ["mixed", "open", "forest", "urban", "swamp", "beach"];
+
+// OSM landuse/natural tags and common land-cover class names -> model terrain
+const KEYWORDS: [RegExp, TerrainType][] = [
+  [/forest|wood|tree|conifer|deciduous/, "forest"],
+  [/urban|residential|commercial|industrial|retail|built|building|developed|town/, "urban"],
+  [/swamp|marsh|wetland|bog|fen|scrub|brush|shrub|heath/, "swamp"],
+  [/beach|sand|dune|shingle/, "beach"],
+  [/open|grass|meadow|farm|field|pasture|crop|park|bare/, "open"],
+  [/mixed/, "mixed"],
+];
+
+export function terrainFromText(v: unknown): TerrainType | null {
+  if (typeof v !== "string") return null;
+  const s = v.trim().toLowerCase();
+  if (s in TERRAIN_INFO) return s as TerrainType;
+  return KEYWORDS.find(([re]) => re.test(s))?.[1] ?? null;
+}
+
+function terrainFromProps(props: Record<string, unknown>): TerrainType | null {
+  for (const k of ["terrain", "landcover", "land_cover", "class", "type", "landuse", "natural", "name"]) {
+    const t = terrainFromText(props[k]);
+    if (t) return t;
+  }
+  return null;
+}
+
+// outer rings only; holes in a cover patch are rare enough to ignore here
+function outerRings(g: Geometry | null | undefined): Position[][] {
+  if (!g) return [];
+  if (g.type === "Polygon") return g.coordinates.slice(0, 1);
+  if (g.type === "MultiPolygon") return g.coordinates.map((p) => p[0]).filter(Boolean);
+  if (g.type === "GeometryCollection") return g.geometries.flatMap(outerRings);
+  return [];
+}
+
+// Parse a GeoJSON file of polygons. Features whose properties do not name a cover type
+// fall back to `fallback` so a single-class file (e.g. "woods.geojson") still imports.
+export function parseLandCoverFile(fileName: string, text: string, fallback: TerrainType): { cover: LandCoverPolygon[]; skipped: number } {
+  const obj = JSON.parse(text) as { type?: string; features?: unknown } | null;
+  const features: Feature[] =
+    obj?.type === "FeatureCollection" && Array.isArray(obj.features)
+      ? (obj as FeatureCollection).features
+      : obj?.type === "Feature"
+        ? [obj as Feature]
+        : [];
+  if (!features.length) throw new Error("Not a GeoJSON Feature or FeatureCollection");
+
+  const base = fileName.replace(/\.[^.]+$/, "");
+  const fileTerrain = terrainFromText(base);
+  const cover: LandCoverPolygon[] = [];
+  let skipped = 0;
+
+  for (const f of features) {
+    const props = (f.properties ?? {}) as Record<string, unknown>;
+    const rings = outerRings(f.geometry);
+    if (!rings.length) { skipped++; continue; }
+
+    const terrain = terrainFromProps(props) ?? fileTerrain ?? fallback;
+    const name = typeof props.name === "string" && props.name.trim() ? props.name.trim() : TERRAIN_INFO[terrain].label;
+    for (const ring of rings) {
+      const polygon = ring
+        .filter(([lon, lat]) => isFinite(lat) && isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180)
+        .map(([lon, lat]) => ({ lat, lon }));
+      if (polygon.length < 3) { skipped++; continue; }
+      cover.push({ id: uid("lc"), terrain, label: name, polygon });
+    }
+  }
+
+  if (!cover.length) throw new Error("No land-cover polygons found in file");
+  return { cover, skipped };
+}
+
+// Terrain at a point: the last-added patch wins where patches overlap, else the incident-wide terrain
+export function coverLookup(cover: LandCoverInput[], fallback: TerrainType) {
+  return (p: LatLon): TerrainType => {
+    for (let i = cover.length - 1; i >= 0; i--) {
+      if (inRing(p, cover[i].polygon)) return cover[i].terrain;
+    }
+    return fallback;
+  };
+}
+
@@ -0,0 +1,223 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { gunzipSync } from "zlib";
+import type { LocalTilesInfo } from "./basemaps";
+
+// Server-only local basemap for offline laptops, served by /api/tiles.
+//
+//   LOCAL_TILES=/data/county.pmtiles     PMTiles v3 archive of raster tiles
+//   LOCAL_TILES=/data/county.mbtiles     MBTiles (needs Node 22.5+ for the built-in node:sqlite)
+//
+// Raster tiles only (png/jpg/webp); vector archives would need a client-side renderer.
+
+export type LocalTile = { data: Buffer; contentType: string };
+
+type Source = {
+  info: LocalTilesInfo;
+  tile(z: number, x: number, y: number): Promise<LocalTile | null>;
+};
+
+const CONTENT_TYPES: Record<string, string> = { png: "image/png", jpg: "image/jpeg", jpeg: "image/jpeg", webp: "image/webp", avif: "image/avif" };
+
+let sourcePromise: Promise<Source> | null = null;
+
+export function localTilesConfigured() {
+  return !!process.env.LOCAL_TILES;
+}
+
+function openSource(): Promise<Source> {
+  const file = process.env.LOCAL_TILES;
+  if (!file) return Promise.reject(new Error("No local tiles configured (set LOCAL_TILES)"));
+  if (!sourcePromise) {
+    sourcePromise = (/\.mbtiles$/i.test(file) ? openMbtiles(file) : openPmtiles(file)).catch((e) => {
+      sourcePromise = null; // let a fixed file be picked up on the next request
+      throw e;
+    });
+  }
+  return sourcePromise;
+}
+
+export async function localTilesInfo(): Promise<LocalTilesInfo> {
+  return (await openSource()).info;
+}
+
+export async function readLocalTile(z: number, x: number, y: number): Promise<LocalTile | null> {
+  if (z < 0 || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) return null;
+  return (await openSource()).tile(z, x, y);
+}
+
+function rasterFormat(format: string, file: string) {
+  const f = format.toLowerCase();
+  if (!CONTENT_TYPES[f]) throw new Error(`${path.basename(file)} holds ${format || "unknown"} tiles; only raster png/jpg/webp is supported`);
+  return f;
+}
+
+// --- MBTiles (SQLite; rows are TMS, y counted from the south) ---
+
+type SqliteStatement = { get(...params: unknown[]): Record<string, unknown> | undefined; all(): Record<string, unknown>[] };
+type SqliteModule = { DatabaseSync: new (file: string, opts?: { readOnly?: boolean }) => { prepare(sql: string): SqliteStatement } };
+
+async function openMbtiles(file: string): Promise<Source> {
+  const sqlite = process.getBuiltinModule?.("node:sqlite") as SqliteModule | undefined;
+  if (!sqlite) throw new Error("MBTiles needs Node 22.5 or newer (node:sqlite); convert to PMTiles for older Node");
+  await fs.access(file);
+  const db = new sqlite.DatabaseSync(file, { readOnly: true });
+
+  const meta: Record<string, string> = {};
+  for (const row of db.prepare("SELECT name, value FROM metadata").all()) meta[String(row.name)] = String(row.value);
+  const format = rasterFormat(meta.format ?? "png", file);
+  const bounds = meta.bounds?.split(",").map(Number);
+
+  const stmt = db.prepare("SELECT tile_data FROM tiles WHERE zoom_level = ? AND tile_column = ? AND tile_row = ?");
+  return {
+    info: {
+      name: meta.name || path.basename(file),
+      format,
+      minzoom: Number(meta.minzoom ?? 0),
+      maxzoom: Number(meta.maxzoom ?? 18),
+      bounds: bounds?.length === 4 && bounds.every(isFinite) ? (bounds as [number, number, number, number]) : null,
+    },
+    async tile(z, x, y) {
+      const row = stmt.get(z, x, 2 ** z - 1 - y);
+      if (!row?.tile_data) return null;
+      return { data: Buffer.from(row.tile_data as Uint8Array), contentType: CONTENT_TYPES[format] };
+    },
+  };
+}
+
+// --- PMTiles v3 (single file, tiles addressed along a Hilbert curve) ---
+
+type DirEntry = { tileId: number; offset: number; length: number; runLength: number };
+
+const PM_TILE_TYPES: Record<number, string> = { 2: "png", 3: "jpg", 4: "webp", 5: "avif" };
+
+function readVarint(buf: Buffer, pos: { i: number }) {
+  let v = 0;
+  let shift = 1;
+  for (;;) {
+    const b = buf[pos.i++];
+    v += (b & 0x7f) * shift;
+    if (b < 0x80) return v;
+    shift *= 128;
+  }
+}
+
+function decompress(buf: Buffer, compression: number) {
+  if (compression === 0 || compression === 1) return buf; // unknown / none
+  if (compression === 2) return gunzipSync(buf);
+  throw new Error("Unsupported PMTiles compression (only none or gzip)");
+}
+
+function parseDirectory(buf: Buffer): DirEntry[] {
+  const pos = { i: 0 };
+  const n = readVarint(buf, pos);
+  const entries: DirEntry[] = [];
+  let id = 0;
+  for (let k = 0; k < n; k++) {
+    id += readVarint(buf, pos);
+    entries.push({ tileId: id, offset: 0, length: 0, runLength: 0 });
+  }
+  for (const e of entries) e.runLength = readVarint(buf, pos);
+  for (const e of entries) e.length = readVarint(buf, pos);
+  entries.forEach((e, k) => {
+    const v = readVarint(buf, pos);
+    // 0 means "right after the previous entry"
+    e.offset = v === 0 && k > 0 ? entries[k - 1].offset + entries[k - 1].length : v - 1;
+  });
+  return entries;
+}
+
+// tile id = tiles on all lower zooms + position along the Hilbert curve at this zoom
+function tileId(z: number, x: number, y: number) {
+  let acc = 0;
+  for (let i = 0; i < z; i++) acc += 4 ** i;
+  const n = 2 ** z;
+  let d = 0;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (x & s) > 0 ? 1 : 0;
+    const ry = (y & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    if (ry === 0) {
+      if (rx === 1) {
+        x = n - 1 - x;
+        y = n - 1 - y;
+      }
+      [x, y] = [y, x];
+    }
+  }
+  return acc + d;
+}
+
+function findEntry(entries: DirEntry[], id: number) {
+  let lo = 0;
+  let hi = entries.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (entries[mid].tileId < id) lo = mid + 1;
+    else if (entries[mid].tileId > id) hi = mid - 1;
+    else return entries[mid];
+  }
+  // run-length entries cover the ids after their first one
+  const prev = entries[hi];
+  if (prev && (prev.runLength === 0 || id - prev.tileId < prev.runLength)) return prev;
+  return null;
+}
+
+async function openPmtiles(file: string): Promise<Source> {
+  const fh = await fs.open(file, "r");
+  const read = async (offset: number, length: number) => {
+    const buf = Buffer.alloc(length);
+    await fh.read(buf, 0, length, offset);
+    return buf;
+  };
+
+  const h = await read(0, 127);
+  if (h.toString("ascii", 0, 7) !== "PMTiles" || h[7] !== 3) throw new Error(`${path.basename(file)} is not a PMTiles v3 archive`);
+  const u64 = (o: number) => Number(h.readBigUInt64LE(o));
+  const rootOffset = u64(8);
+  const rootLength = u64(16);
+  const metaOffset = u64(24);
+  const metaLength = u64(32);
+  const leafOffset = u64(40);
+  const dataOffset = u64(56);
+  const internalCompression = h[97];
+  const tileCompression = h[98];
+  const format = rasterFormat(PM_TILE_TYPES[h[99]] ?? "mvt", file);
+  const e7 = (o: number) => h.readInt32LE(o) / 1e7;
+
+  let name = path.basename(file);
+  try {
+    const meta = JSON.parse(decompress(await read(metaOffset, metaLength), internalCompression).toString("utf8")) as { name?: string };
+    if (meta.name) name = meta.name;
+  } catch {
+    // metadata is optional
+  }
+
+  const root = parseDirectory(decompress(await read(rootOffset, rootLength), internalCompression));
+  const leaves = new Map<number, DirEntry[]>();
+
+  return {
+    info: { name, format, minzoom: h[100], maxzoom: h[101], bounds: [e7(102), e7(106), e7(110), e7(114)] },
+    async tile(z, x, y) {
+      const id = tileId(z, x, y);
+      let dir = root;
+      for (let depth = 0; depth < 4; depth++) {
+        const e = findEntry(dir, id);
+        if (!e) return null;
+        if (e.runLength > 0) {
+          const data = decompress(await read(dataOffset + e.offset, e.length), tileCompression);
+          return { data, contentType: CONTENT_TYPES[format] };
+        }
+        // leaf directory
+        let leaf = leaves.get(e.offset);
+        if (!leaf) {
+          leaf = parseDirectory(decompress(await read(leafOffset + e.offset, e.length), internalCompression));
+          if (leaves.size > 64) leaves.clear();
+          leaves.set(e.offset, leaf);
+        }
+        dir = leaf;
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  clipToWindow,
+  nearestIndex,
+  type ConditionsHour,
+  type WeatherProvider,
+  type WeatherProviderId,
+  type WindPoint,
+} from "./weatherProvider";
+
+// Server-only providers backed by a JSON document (file on disk or a station feed URL).
+//
+// {
+//   "model": "my-station",
+//   "repeat_daily": false,          // stub: reuse observations by UTC hour-of-day for any date
+//   "observations": [
+//     { "time_utc": "2025-01-01T10:00:00Z", "wind_speed_mps": 3.1, "wind_dir_from_deg": 270,
+//       "gust_mps": 5.0, "temperature_f": 68, "rel_humidity_pct": 60, "cloud_cover_pct": 40, "precip_mm": 0 }
+//   ]
+// }
+
+type LocalObservation = WindPoint & Partial<Omit<ConditionsHour, "time_utc">>;
+
+type LocalFeed = {
+  model?: string;
+  timezone?: string;
+  utc_offset_seconds?: number;
+  repeat_daily?: boolean;
+  observations: LocalObservation[];
+};
+
+const DEFAULT_STUB_FILE = "data/weather-stub.json";
+
+function parseFeed(js: unknown, source: string): LocalFeed {
+  const feed = js as Partial<LocalFeed> | null;
+  if (!feed || !Array.isArray(feed.observations) || !feed.observations.length) {
+    throw new Error(`Weather feed ${source} has no observations`);
+  }
+  const observations = feed.observations
+    .filter((o) => typeof o?.wind_speed_mps === "number" && typeof o?.wind_dir_from_deg === "number" && !isNaN(Date.parse(o.time_utc)))
+    .sort((a, b) => Date.parse(a.time_utc) - Date.parse(b.time_utc));
+  if (!observations.length) throw new Error(`Weather feed ${source} has no valid observations`);
+  return { ...feed, observations } as LocalFeed;
+}
+
+async function readFileFeed(file: string) {
+  const abs = path.isAbsolute(file) ? file : path.join(process.cwd(), file);
+  const text = await fs.readFile(abs, "utf8");
+  return parseFeed(JSON.parse(text), file);
+}
+
+async function readUrlFeed(url: string) {
+  const r = await fetch(url);
+  if (!r.ok) throw new Error(`Weather station feed failed (${r.status})`);
+  return parseFeed(await r.json(), url);
+}
+
+// Observations covering the window; repeat_daily feeds are re-stamped hour by hour
+function windowRows(feed: LocalFeed, fromMs: number, toMs: number): LocalObservation[] {
+  if (!feed.repeat_daily) return clipToWindow(feed.observations, fromMs, toMs);
+
+  const byHour = feed.observations.map((o) => new Date(o.time_utc).getUTCHours());
+  const out: LocalObservation[] = [];
+  const start = Math.floor(fromMs / 3_600_000) * 3_600_000 - 3_600_000;
+  for (let t = start; t <= toMs + 3_600_000; t += 3_600_000) {
+    const h = new Date(t).getUTCHours();
+    const i = nearestIndex(byHour, h);
+    out.push({ ...feed.observations[i], time_utc: new Date(t).toISOString() });
+  }
+  return out;
+}
+
+function toWind(o: LocalObservation): WindPoint {
+  return { time_utc: o.time_utc, wind_speed_mps: o.wind_speed_mps, wind_dir_from_deg: o.wind_dir_from_deg, gust_mps: o.gust_mps };
+}
+
+function recordsProvider(id: WeatherProviderId, label: string, load: () => Promise<LocalFeed>): WeatherProvider {
+  const meta = (feed: LocalFeed) => ({
+    provider: id,
+    model: feed.model || id,
+    timezone: feed.timezone,
+    utc_offset_seconds: feed.utc_offset_seconds,
+  });
+
+  const series = async (fromMs: number, toMs: number) => {
+    const feed = await load();
+    const rows = windowRows(feed, fromMs, toMs);
+    if (!rows.length) throw new Error(`${label}: no observations between ${new Date(fromMs).toISOString()} and ${new Date(toMs).toISOString()}`);
+    return { ...meta(feed), series: rows.map(toWind) };
+  };
+
+  return {
+    id,
+    label,
+    archiveLagDays: 0,
+
+    async current() {
+      const feed = await load();
+      const now = Date.now();
+      const rows = feed.repeat_daily ? windowRows(feed, now, now) : feed.observations;
+      const i = nearestIndex(rows.map((o) => Date.parse(o.time_utc)), now);
+      return { ...meta(feed), ...toWind(rows[i]) };
+    },
+
+    hourlySeries: (_lat, _lon, fromMs, toMs) => series(fromMs, toMs),
+    historical: (_lat, _lon, fromMs, toMs) => series(fromMs, toMs),
+
+    async conditions(_lat, _lon, fromMs, toMs) {
+      const feed = await load();
+      const hours: ConditionsHour[] = windowRows(feed, fromMs, toMs)
+        .filter((o) => typeof o.temperature_f === "number" && typeof o.rel_humidity_pct === "number")
+        .map((o) => ({
+          time_utc: o.time_utc,
+          temperature_f: o.temperature_f as number,
+          rel_humidity_pct: o.rel_humidity_pct as number,
+          cloud_cover_pct: o.cloud_cover_pct ?? 0,
+          precip_mm: o.precip_mm ?? 0,
+        }));
+      if (!hours.length) throw new Error(`${label}: feed has no temperature/humidity in window`);
+      return { ...meta(feed), hours };
+    },
+  };
+}
+
+// File-backed stub for training and offline demos (WEATHER_STUB_FILE, default data/weather-stub.json)
+export const stubProvider = recordsProvider("stub", "Offline stub", () =>
+  readFileFeed(process.env.WEATHER_STUB_FILE || DEFAULT_STUB_FILE)
+);
+
+// Local weather-station JSON feed (WEATHER_STATION_URL, or WEATHER_STATION_FILE on disk)
+export const stationProvider = recordsProvider("station", "Local weather station", () => {
+  if (process.env.WEATHER_STATION_URL) return readUrlFeed(process.env.WEATHER_STATION_URL);
+  if (process.env.WEATHER_STATION_FILE) return readFileFeed(process.env.WEATHER_STATION_FILE);
+  throw new Error("Set WEATHER_STATION_URL or WEATHER_STATION_FILE for the station provider");
+});
@@ -0,0 +1,201 @@
+import { uid } from "./incident";
+import { DEFAULT_BASEMAP, type Basemap } from "./basemaps";
+
+// Offline basemap (browser only): tiles for an operating area are fetched ahead of time into
+// Cache Storage, and the service worker answers tile requests from that cache first.
+
+// must match TILE_CACHE in public/service-worker.js
+const TILE_CACHE = "k9sc-tiles";
+const AREAS_KEY = "k9sc:tileAreas";
+
+export const MAX_AREA_TILES = 6000;
+
+// rough average for light raster tiles, for the size estimate before downloading
+const EST_TILE_BYTES = 18_000;
+
+export type Bounds = { north: number; south: number; east: number; west: number };
+
+type TileSource = Pick<Basemap, "id" | "label" | "url" | "subdomains">;
+
+export type TileArea = {
+  id: string;
+  label: string;
+  basemap?: TileSource; // missing on areas saved before basemaps were selectable (CARTO light)
+  bounds: Bounds;
+  minZoom: number;
+  maxZoom: number;
+  tiles: number;
+  bytes: number;
+  createdISO: string;
+};
+
+type TileXYZ = { x: number; y: number; z: number };
+
+function lonToTileX(lon: number, z: number) {
+  return Math.floor(((lon + 180) / 360) * 2 ** z);
+}
+
+function latToTileY(lat: number, z: number) {
+  const r = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(r) + 1 / Math.cos(r)) / Math.PI) / 2) * 2 ** z);
+}
+
+function tileRange(b: Bounds, z: number) {
+  const n = 2 ** z - 1;
+  const clampT = (v: number) => Math.max(0, Math.min(n, v));
+  return {
+    x0: clampT(lonToTileX(b.west, z)),
+    x1: clampT(lonToTileX(b.east, z)),
+    y0: clampT(latToTileY(b.north, z)),
+    y1: clampT(latToTileY(b.south, z)),
+  };
+}
+
+export function countTiles(b: Bounds, minZoom: number, maxZoom: number) {
+  let n = 0;
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    n += (r.x1 - r.x0 + 1) * (r.y1 - r.y0 + 1);
+  }
+  return n;
+}
+
+export function estimateBytes(tiles: number) {
+  return tiles * EST_TILE_BYTES;
+}
+
+function* tilesIn(b: Bounds, minZoom: number, maxZoom: number): Generator<TileXYZ> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const r = tileRange(b, z);
+    for (let x = r.x0; x <= r.x1; x++) for (let y = r.y0; y <= r.y1; y++) yield { x, y, z };
+  }
+}
+
+// Leaflet's {r}: high-density screens get the @2x tiles
+function retina() {
+  return typeof window !== "undefined" && window.devicePixelRatio > 1 ? "@2x" : "";
+}
+
+function tileUrl(src: TileSource, { x, y, z }: TileXYZ) {
+  const subs = src.subdomains?.length ? src.subdomains : ["a"];
+  const s = subs[Math.abs(x + y) % subs.length];
+  return src.url.replace("{s}", s).replace("{z}", String(z)).replace("{x}", String(x)).replace("{y}", String(y)).replace("{r}", retina());
+}
+
+// Cache key without the load-balancing subdomain, so a tile is found whichever host Leaflet asks.
+// Same rule as tileKey() in the service worker.
+function tileKey(url: string) {
+  return url.replace(/^(https?:\/\/)[a-d]\./, "$1");
+}
+
+export function listTileAreas(): TileArea[] {
+  try {
+    const raw = localStorage.getItem(AREAS_KEY);
+    return raw ? (JSON.parse(raw) as TileArea[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveTileAreas(areas: TileArea[]) {
+  try {
+    localStorage.setItem(AREAS_KEY, JSON.stringify(areas));
+  } catch {
+    // storage disabled: the tiles stay cached but the area list is lost on reload
+  }
+}
+
+export function offlineTilesSupported() {
+  return typeof window !== "undefined" && "caches" in window && "serviceWorker" in navigator;
+}
+
+// Fetch and cache every tile of the area. Tiles already cached are skipped (and not re-counted).
+export async function downloadTileArea(
+  basemap: Basemap,
+  label: string,
+  bounds: Bounds,
+  minZoom: number,
+  maxZoom: number,
+  opts: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+): Promise<{ area: TileArea; failed: number }> {
+  const total = countTiles(bounds, minZoom, maxZoom);
+  if (total > MAX_AREA_TILES) throw new Error(`Area needs ${total} tiles; the limit is ${MAX_AREA_TILES}. Zoom in or lower the max zoom.`);
+
+  const cache = await caches.open(TILE_CACHE);
+  const queue = tilesIn(bounds, minZoom, maxZoom);
+  let done = 0;
+  let failed = 0;
+  let bytes = 0;
+
+  const worker = async () => {
+    for (let next = queue.next(); !next.done; next = queue.next()) {
+      if (opts.signal?.aborted) return;
+      const url = tileUrl(basemap, next.value);
+      const key = tileKey(url);
+      try {
+        if (!(await cache.match(key))) {
+          const res = await fetch(url, { mode: "cors", signal: opts.signal });
+          if (!res.ok) throw new Error(`HTTP ${res.status}`);
+          const blob = await res.blob();
+          bytes += blob.size;
+          await cache.put(key, new Response(blob, { headers: { "Content-Type": res.headers.get("Content-Type") ?? "image/png" } }));
+        }
+      } catch {
+        if (opts.signal?.aborted) return;
+        failed++;
+      }
+      done++;
+      opts.onProgress?.(done, total);
+    }
+  };
+  // a few requests at a time; tile servers throttle bulk downloads
+  await Promise.all(Array.from({ length: 4 }, worker));
+  if (opts.signal?.aborted) throw new Error("Download cancelled");
+
+  const area: TileArea = {
+    id: uid("tiles"),
+    label,
+    basemap: { id: basemap.id, label: basemap.label, url: basemap.url, subdomains: basemap.subdomains },
+    bounds,
+    minZoom,
+    maxZoom,
+    tiles: total - failed,
+    bytes,
+    createdISO: new Date().toISOString(),
+  };
+  saveTileAreas([...listTileAreas(), area]);
+  return { area, failed };
+}
+
+// Remove an area's tiles, keeping any that another saved area still covers
+export async function purgeTileArea(id: string) {
+  const areas = listTileAreas();
+  const area = areas.find((a) => a.id === id);
+  const rest = areas.filter((a) => a.id !== id);
+  if (area) {
+    const keep = new Set<string>();
+    for (const a of rest) for (const t of tilesIn(a.bounds, a.minZoom, a.maxZoom)) keep.add(tileKey(tileUrl(a.basemap ?? DEFAULT_BASEMAP, t)));
+    const cache = await caches.open(TILE_CACHE);
+    for (const t of tilesIn(area.bounds, area.minZoom, area.maxZoom)) {
+      const key = tileKey(tileUrl(area.basemap ?? DEFAULT_BASEMAP, t));
+      if (!keep.has(key)) await cache.delete(key);
+    }
+  }
+  saveTileAreas(rest);
+}
+
+// Origin-wide storage use (tiles, app shell, incidents) as the browser reports it
+export async function storageUsage(): Promise<{ usage: number; quota: number } | null> {
+  try {
+    const est = await navigator.storage?.estimate();
+    return est ? { usage: est.usage ?? 0, quota: est.quota ?? 0 } : null;
+  } catch {
+    return null;
+  }
+}
+
+export function formatBytes(n: number) {
+  if (n < 1024 * 1024) return `${Math.round(n / 1024)} KB`;
+  if (n < 1024 ** 3) return `${(n / 1024 ** 2).toFixed(1)} MB`;
+  return `${(n / 1024 ** 3).toFixed(2)} GB`;
+}
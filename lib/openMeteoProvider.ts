@@ -0,0 +1,129 @@
+import {
+  clipToWindow,
+  isoDateUTC,
+  type ConditionsHour,
+  type WeatherProvider,
+  type WindPoint,
+} from "./weatherProvider";
+
+const FORECAST_URL = "https://api.open-meteo.com/v1/forecast";
+const ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive";
+
+// m/s and unix seconds everywhere, so no per-branch unit or timezone juggling
+const COMMON = "wind_speed_unit=ms&timezone=auto&timeformat=unixtime";
+const WIND_FIELDS = "wind_speed_10m,wind_direction_10m,wind_gusts_10m";
+const COND_FIELDS = "temperature_2m,relative_humidity_2m,cloud_cover,precipitation";
+
+type Hourly = Record<string, number[] | undefined> & { time?: number[] };
+
+async function getJson(url: string) {
+  const r = await fetch(url);
+  const js = await r.json();
+  if (!r.ok) throw new Error(js?.reason || `Open-Meteo request failed (${r.status})`);
+  return js;
+}
+
+function forecastDaysParams(fromMs: number, toMs: number) {
+  const now = Date.now();
+  const pastDays = Math.min(92, Math.max(0, Math.ceil((now - fromMs) / 86_400_000)));
+  const forecastDays = Math.min(16, Math.max(1, Math.ceil((toMs - now) / 86_400_000) + 1));
+  return `past_days=${pastDays}&forecast_days=${forecastDays}`;
+}
+
+function archiveDatesParams(fromMs: number, toMs: number) {
+  return `start_date=${isoDateUTC(new Date(fromMs))}&end_date=${isoDateUTC(new Date(toMs))}`;
+}
+
+function windRows(hourly: Hourly | undefined): WindPoint[] {
+  const times = hourly?.time || [];
+  const spd = hourly?.wind_speed_10m || [];
+  const dir = hourly?.wind_direction_10m || [];
+  const gst = hourly?.wind_gusts_10m || [];
+
+  const out: WindPoint[] = [];
+  for (let i = 0; i < times.length; i++) {
+    if (spd[i] == null || dir[i] == null) continue;
+    out.push({
+      time_utc: new Date(times[i] * 1000).toISOString(),
+      wind_speed_mps: spd[i],
+      wind_dir_from_deg: dir[i],
+      gust_mps: gst[i] ?? undefined,
+    });
+  }
+  return out;
+}
+
+function conditionRows(hourly: Hourly | undefined): ConditionsHour[] {
+  const times = hourly?.time || [];
+  const out: ConditionsHour[] = [];
+  for (let i = 0; i < times.length; i++) {
+    const t = hourly?.temperature_2m?.[i];
+    const rh = hourly?.relative_humidity_2m?.[i];
+    if (t == null || rh == null) continue;
+    out.push({
+      time_utc: new Date(times[i] * 1000).toISOString(),
+      temperature_f: t,
+      rel_humidity_pct: rh,
+      cloud_cover_pct: hourly?.cloud_cover?.[i] ?? 0,
+      precip_mm: hourly?.precipitation?.[i] ?? 0,
+    });
+  }
+  return out;
+}
+
+export const openMeteoProvider: WeatherProvider = {
+  id: "open-meteo",
+  label: "Open-Meteo",
+  archiveLagDays: 5,
+
+  async current(lat, lon) {
+    const js = await getJson(`${FORECAST_URL}?latitude=${lat}&longitude=${lon}&current=${WIND_FIELDS}&${COMMON}`);
+    const c = js?.current;
+    if (c?.wind_speed_10m == null || c?.wind_direction_10m == null) throw new Error("Open-Meteo missing current wind");
+
+    return {
+      provider: "open-meteo",
+      model: "open-meteo-forecast",
+      time_utc: new Date(c.time * 1000).toISOString(),
+      wind_speed_mps: c.wind_speed_10m,
+      wind_dir_from_deg: c.wind_direction_10m,
+      gust_mps: c.wind_gusts_10m ?? undefined,
+      timezone: js?.timezone,
+      utc_offset_seconds: js?.utc_offset_seconds,
+    };
+  },
+
+  async hourlySeries(lat, lon, fromMs, toMs) {
+    const js = await getJson(
+      `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&hourly=${WIND_FIELDS}&${COMMON}&${forecastDaysParams(fromMs, toMs)}`
+    );
+    const series = clipToWindow(windRows(js?.hourly), fromMs, toMs);
+    if (!series.length) throw new Error("Open-Meteo missing hourly wind");
+    return { provider: "open-meteo", model: "open-meteo-forecast", series, timezone: js?.timezone, utc_offset_seconds: js?.utc_offset_seconds };
+  },
+
+  async historical(lat, lon, fromMs, toMs) {
+    const js = await getJson(
+      `${ARCHIVE_URL}?latitude=${lat}&longitude=${lon}&hourly=${WIND_FIELDS}&${COMMON}&${archiveDatesParams(fromMs, toMs)}`
+    );
+    const series = clipToWindow(windRows(js?.hourly), fromMs, toMs);
+    if (!series.length) throw new Error("Open-Meteo archive missing hourly wind");
+    return { provider: "open-meteo", model: "open-meteo-archive", series, timezone: js?.timezone, utc_offset_seconds: js?.utc_offset_seconds };
+  },
+
+  async conditions(lat, lon, fromMs, toMs, opts) {
+    const url = opts.historical
+      ? `${ARCHIVE_URL}?latitude=${lat}&longitude=${lon}&hourly=${COND_FIELDS}&temperature_unit=fahrenheit&${COMMON}&${archiveDatesParams(fromMs, toMs)}`
+      : `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&hourly=${COND_FIELDS}&temperature_unit=fahrenheit&${COMMON}&${forecastDaysParams(fromMs, toMs)}`;
+    const js = await getJson(url);
+    const hours = clipToWindow(conditionRows(js?.hourly), fromMs, toMs);
+    if (!hours.length) throw new Error("Open-Meteo missing hourly conditions");
+    return {
+      provider: "open-meteo",
+      model: opts.historical ? "open-meteo-archive" : "open-meteo-forecast",
+      hours,
+      timezone: js?.timezone,
+      utc_offset_seconds: js?.utc_offset_seconds,
+    };
+  },
+};
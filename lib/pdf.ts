@@ -0,0 +1,78 @@
+// Minimal PDF writer: one full-page JPEG per page. Enough for printable briefings
+// without pulling in a PDF library; text is part of the page image.
+
+export type PdfPage = {
+  jpeg: Uint8Array;
+  widthPx: number;
+  heightPx: number;
+};
+
+const LETTER_PT = { w: 612, h: 792 }; // 8.5 x 11 in
+
+function ascii(s: string) {
+  const out = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) out[i] = s.charCodeAt(i) & 0xff;
+  return out;
+}
+
+export function buildImagePdf(pages: PdfPage[], pageSize = LETTER_PT): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const push = (c: Uint8Array) => {
+    chunks.push(c);
+    length += c.length;
+  };
+  const obj = (n: number, body: string, stream?: Uint8Array) => {
+    offsets[n] = length;
+    if (!stream) return push(ascii(`${n} 0 obj\n${body}\nendobj\n`));
+    push(ascii(`${n} 0 obj\n${body}\nstream\n`));
+    push(stream);
+    push(ascii("\nendstream\nendobj\n"));
+  };
+
+  // objects: 1 catalog, 2 page tree, then per page: page, image, content
+  const pageIds = pages.map((_, i) => 3 + i * 3);
+  push(ascii("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n"));
+  obj(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  obj(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+
+  pages.forEach((p, i) => {
+    const pageId = pageIds[i];
+    const imgId = pageId + 1;
+    const contentId = pageId + 2;
+
+    // fit the image to the page, keeping its aspect ratio
+    const scale = Math.min(pageSize.w / p.widthPx, pageSize.h / p.heightPx);
+    const w = p.widthPx * scale;
+    const h = p.heightPx * scale;
+    const x = (pageSize.w - w) / 2;
+    const y = (pageSize.h - h) / 2;
+    const content = ascii(`q ${w.toFixed(2)} 0 0 ${h.toFixed(2)} ${x.toFixed(2)} ${y.toFixed(2)} cm /Im0 Do Q`);
+
+    obj(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageSize.w} ${pageSize.h}] /Resources << /XObject << /Im0 ${imgId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    obj(
+      imgId,
+      `<< /Type /XObject /Subtype /Image /Width ${p.widthPx} /Height ${p.heightPx} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${p.jpeg.length} >>`,
+      p.jpeg
+    );
+    obj(contentId, `<< /Length ${content.length} >>`, content);
+  });
+
+  const count = 3 + pages.length * 3;
+  const xref = length;
+  let table = `xref\n0 ${count}\n0000000000 65535 f \n`;
+  for (let n = 1; n < count; n++) table += `${String(offsets[n]).padStart(10, "0")} 00000 n \n`;
+  push(ascii(`${table}trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`));
+
+  const out = new Uint8Array(length);
+  let o = 0;
+  for (const c of chunks) {
+    out.set(c, o);
+    o += c.length;
+  }
+  return out;
+}
@@ -0,0 +1,80 @@
+import { COORD_FORMATS, type CoordFormat } from "./coords";
+import { UNIT_SYSTEMS, type UnitSystem } from "./units";
+import { DEFAULT_BASEMAP, validTileTemplate } from "./basemaps";
+import { PALETTES, type PaletteId, type Zone, type ZoneStyle } from "./symbology";
+
+// Per-device display preferences (not part of an incident: two handlers on one incident
+// can read coordinates differently). Stored in localStorage.
+const PREFS_KEY = "k9sc:prefs";
+
+export type Preferences = {
+  coordFormat: CoordFormat;
+  units: UnitSystem;
+  basemap: string; // Basemap id; an id that no longer exists falls back to the default at render
+  customBasemaps: { id: string; label: string; url: string }[];
+  hillshadeTiles: boolean;
+  hillshadeOpacity: number; // 0–1, shared by the tiled and the DEM hillshade
+  palette: PaletteId;
+  zoneStyles: Partial<Record<Zone, ZoneStyle>>; // per-zone overrides of the palette
+  showLegend: boolean;
+  syncServer: string; // live sync server origin; "" = the server this app was loaded from
+};
+
+export const defaultPreferences: Preferences = {
+  coordFormat: "dd",
+  units: "imperial",
+  basemap: DEFAULT_BASEMAP.id,
+  customBasemaps: [],
+  hillshadeTiles: false,
+  hillshadeOpacity: 0.45,
+  palette: "standard",
+  zoneStyles: {},
+  showLegend: true,
+  syncServer: "",
+};
+
+function validZoneStyles(v: unknown): Partial<Record<Zone, ZoneStyle>> {
+  const out: Partial<Record<Zone, ZoneStyle>> = {};
+  if (!v || typeof v !== "object") return out;
+  for (const z of ["core", "fringe", "residual"] as const) {
+    const s = (v as Record<string, Partial<ZoneStyle> | undefined>)[z];
+    if (s && typeof s.color === "string" && /^#[0-9a-f]{6}$/i.test(s.color) && typeof s.fillOpacity === "number") {
+      out[z] = { color: s.color, fillOpacity: Math.max(0, Math.min(1, s.fillOpacity)) };
+    }
+  }
+  return out;
+}
+
+export function loadPreferences(): Preferences {
+  try {
+    const raw = localStorage.getItem(PREFS_KEY);
+    const saved = raw ? (JSON.parse(raw) as Partial<Preferences>) : {};
+    return {
+      coordFormat: COORD_FORMATS.some((f) => f.id === saved.coordFormat) ? (saved.coordFormat as CoordFormat) : defaultPreferences.coordFormat,
+      units: UNIT_SYSTEMS.some((u) => u.id === saved.units) ? (saved.units as UnitSystem) : defaultPreferences.units,
+      basemap: typeof saved.basemap === "string" ? saved.basemap : defaultPreferences.basemap,
+      customBasemaps: Array.isArray(saved.customBasemaps)
+        ? saved.customBasemaps.filter((b) => b && typeof b.id === "string" && typeof b.label === "string" && validTileTemplate(String(b.url)))
+        : [],
+      hillshadeTiles: saved.hillshadeTiles === true,
+      hillshadeOpacity:
+        typeof saved.hillshadeOpacity === "number" && saved.hillshadeOpacity >= 0 && saved.hillshadeOpacity <= 1
+          ? saved.hillshadeOpacity
+          : defaultPreferences.hillshadeOpacity,
+      palette: PALETTES.some((p) => p.id === saved.palette) ? (saved.palette as PaletteId) : defaultPreferences.palette,
+      zoneStyles: validZoneStyles(saved.zoneStyles),
+      showLegend: saved.showLegend !== false,
+      syncServer: typeof saved.syncServer === "string" && /^(https?:\/\/\S+)?$/.test(saved.syncServer) ? saved.syncServer : "",
+    };
+  } catch {
+    return defaultPreferences;
+  }
+}
+
+export function savePreferences(patch: Partial<Preferences>) {
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify({ ...loadPreferences(), ...patch }));
+  } catch {
+    // private mode / storage disabled: the choice lasts for this session only
+  }
+}
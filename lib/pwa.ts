@@ -0,0 +1,21 @@
+// Service worker registration (browser only). Production only: in dev the worker would
+// serve stale hot-reload chunks.
+
+const SHELL_CACHE = "k9sc-shell-v2"; // must match public/service-worker.js
+
+export async function registerServiceWorker() {
+  if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+  try {
+    await navigator.serviceWorker.register("/service-worker.js");
+    await navigator.serviceWorker.ready;
+    // the first visit loaded its scripts before the worker existed; cache them now
+    const assets = performance
+      .getEntriesByType("resource")
+      .map((r) => r.name)
+      .filter((u) => u.startsWith(`${location.origin}/_next/static/`));
+    const cache = await caches.open(SHELL_CACHE);
+    await Promise.all(assets.map((u) => cache.match(u).then((hit) => (hit ? undefined : cache.add(u)))));
+  } catch {
+    // unsupported or blocked (private mode, http): the app still works online
+  }
+}
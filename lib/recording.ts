@@ -0,0 +1,107 @@
+import { encodeGif, gifFrame, type GifFrame } from "./gif";
+
+// Scenario playback recordings (browser only). Frames are captured one at a time from the map
+// (slowly: each is a DOM snapshot) and timed by the recorder, not by how long capture took.
+
+export type RecordFormat = "gif" | "webm";
+
+export const RECORD_FORMATS: { id: RecordFormat; label: string }[] = [
+  { id: "gif", label: "GIF (plays anywhere)" },
+  { id: "webm", label: "WebM video (smaller, sharper)" },
+];
+
+const MAX_FRAME_W = 960;
+const CAPTION_H = 36;
+
+export type FrameRecorder = {
+  add(frame: HTMLCanvasElement): Promise<void>;
+  finish(): Promise<Blob>;
+};
+
+function webmType() {
+  if (typeof MediaRecorder === "undefined") return null;
+  return ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find((t) => MediaRecorder.isTypeSupported(t)) ?? null;
+}
+
+export function webmSupported() {
+  return !!webmType();
+}
+
+// Map snapshot scaled to at most MAX_FRAME_W wide, with a caption strip along the bottom
+export function captionFrame(map: HTMLCanvasElement, caption: string): HTMLCanvasElement {
+  const scale = Math.min(1, MAX_FRAME_W / map.width);
+  // even sizes: some video encoders reject odd dimensions
+  const w = Math.round((map.width * scale) / 2) * 2;
+  const mapH = Math.round((map.height * scale) / 2) * 2;
+  const out = document.createElement("canvas");
+  out.width = w;
+  out.height = mapH + CAPTION_H;
+  const ctx = out.getContext("2d");
+  if (!ctx) throw new Error("Canvas not available");
+  ctx.drawImage(map, 0, 0, w, mapH);
+  ctx.fillStyle = "rgba(0,0,0,0.85)";
+  ctx.fillRect(0, mapH, w, CAPTION_H);
+  ctx.fillStyle = "white";
+  ctx.font = "15px system-ui";
+  ctx.textBaseline = "middle";
+  ctx.fillText(caption, 10, mapH + CAPTION_H / 2, w - 20);
+  return out;
+}
+
+function gifRecorder(fps: number): FrameRecorder {
+  const frames: GifFrame[] = [];
+  return {
+    async add(frame) {
+      const ctx = frame.getContext("2d");
+      if (!ctx) throw new Error("Canvas not available");
+      frames.push(gifFrame(ctx.getImageData(0, 0, frame.width, frame.height).data, frame.width, frame.height, 1000 / fps));
+    },
+    async finish() {
+      return new Blob([encodeGif(frames) as BlobPart], { type: "image/gif" });
+    },
+  };
+}
+
+// MediaRecorder stamps frames by wall clock, so it runs only while a frame is on show
+// and is paused while the next one is captured.
+function webmRecorder(fps: number): FrameRecorder {
+  const type = webmType();
+  if (!type) throw new Error("This browser cannot record WebM video; choose GIF");
+  const canvas = document.createElement("canvas");
+  const chunks: Blob[] = [];
+  let rec: MediaRecorder | null = null;
+
+  return {
+    async add(frame) {
+      const ctx = canvas.getContext("2d");
+      if (!ctx) throw new Error("Canvas not available");
+      if (!rec) {
+        canvas.width = frame.width;
+        canvas.height = frame.height;
+        ctx.drawImage(frame, 0, 0);
+        rec = new MediaRecorder(canvas.captureStream(fps), { mimeType: type, videoBitsPerSecond: 4_000_000 });
+        rec.ondataavailable = (e) => {
+          if (e.data.size) chunks.push(e.data);
+        };
+        rec.start();
+      } else {
+        ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+        rec.resume();
+      }
+      await new Promise((r) => setTimeout(r, 1000 / fps));
+      rec.pause();
+    },
+    async finish() {
+      if (!rec) throw new Error("No frames recorded");
+      const r = rec;
+      const stopped = new Promise((resolve) => (r.onstop = resolve));
+      r.stop();
+      await stopped;
+      return new Blob(chunks, { type: "video/webm" });
+    },
+  };
+}
+
+export function frameRecorder(format: RecordFormat, fps: number): FrameRecorder {
+  return format === "webm" ? webmRecorder(fps) : gifRecorder(fps);
+}
@@ -1,50 +1,67 @@
 import { clamp } from "./cone";
+import { plumeProfile, type PasquillClass, type PlumeProfile, type PlumeZone } from "./gaussianPlume";
+import { flagTraps, TRAP_TYPES, type TrapInput } from "./traps";
+import { pasquillForStability } from "./stability";
+import type { DemSampler } from "./dem";
+import { applyBarriers, type Barrier } from "./barriers";
+import { coverLookup, TERRAIN_INFO, type LandCoverInput } from "./landCover";
+import { destination, distanceM, offsetLL, ringAreaM2, toLocal } from "./geo";
 
 export type TerrainType = "mixed" | "open" | "forest" | "urban" | "swamp" | "beach";
 export type StabilityType = "neutral" | "stable" | "convective";
+export type EnvelopeEngine = "empirical" | "gaussian";
 export type PrecipType = "none" | "light" | "moderate" | "heavy";
+export type CloudType = "clear" | "partly" | "overcast" | "night";
 
 export type LatLon = { lat: number; lon: number };
 
+// A zone's area as polygons -> rings (outer first, then holes). The modelled fan is one polygon;
+// barriers can cut it into several, or leave it with holes or nothing at all.
+export type ZoneShape = LatLon[][][];
+
 export type EnvelopePolys = {
-  core: LatLon[];
-  fringe: LatLon[];
-  residual: LatLon[];
+  core: ZoneShape;
+  fringe: ZoneShape;
+  residual: ZoneShape;
 };
 
 export type StartPoint = { label: string; point: LatLon };
 
+// Size of one zone: reach from the source, widest extent across the downwind axis, area
+export type ZoneMetrics = { length_m: number; max_width_m: number; area_m2: number };
+
+export type EnvelopeMetrics = Record<keyof EnvelopePolys, ZoneMetrics>;
+
+// One hourly wind observation/forecast used by the time-varying model
+export type WindSample = { time_iso: string; wind_from_deg: number; wind_speed_mph: number };
+
 export function addMinutesIso(iso: string, mins: number) {
   const d = new Date(iso);
   d.setMinutes(d.getMinutes() + mins);
   return d.toISOString();
 }
 
-function metersPerDegreeLat() {
-  return 111_320;
-}
-
-function metersPerDegreeLon(latDeg: number) {
-  return 111_320 * Math.cos((latDeg * Math.PI) / 180);
-}
-
-function moveLL(start: LatLon, bearingDeg: number, distanceMeters: number): LatLon {
-  // simple flat-earth approx (fine for local SAR)
-  const br = (bearingDeg * Math.PI) / 180;
-  const dNorth = Math.cos(br) * distanceMeters;
-  const dEast = Math.sin(br) * distanceMeters;
-
-  const dLat = dNorth / metersPerDegreeLat();
-  const dLon = dEast / metersPerDegreeLon(start.lat);
-
-  return { lat: start.lat + dLat, lon: start.lon + dLon };
-}
-
 // wind FROM -> downwind TO
 function downwind(fromDeg: number) {
   return (fromDeg + 180) % 360;
 }
 
+function zoneMetrics(lkp: LatLon, shape: ZoneShape, axisDeg: number): ZoneMetrics {
+  const br = (axisDeg * Math.PI) / 180;
+  let length = 0;
+  let minAcross = 0;
+  let maxAcross = 0;
+  for (const p of shape.flatMap((poly) => poly[0])) {
+    length = Math.max(length, distanceM(lkp, p));
+    const v = toLocal(lkp, p);
+    const across = v.x * Math.cos(br) - v.y * Math.sin(br);
+    minAcross = Math.min(minAcross, across);
+    maxAcross = Math.max(maxAcross, across);
+  }
+  const area = shape.reduce((sum, poly) => sum + poly.reduce((s, ring, i) => s + (i === 0 ? 1 : -1) * ringAreaM2(ring), 0), 0);
+  return { length_m: length, max_width_m: maxAcross - minAcross, area_m2: area };
+}
+
 function terrainLenMult(t: TerrainType) {
   switch (t) {
     case "open": return 1.1;
@@ -126,8 +143,8 @@ function resetRecommendation(c: number) {
   return 60;
 }
 
-function coneFan(lkp: LatLon, axisDeg: number, lengthM: number, widthEndM: number, points = 28): LatLon[] {
-  // Create a "fan" polygon: lkp -> arc -> lkp
+export function coneFan(lkp: LatLon, axisDeg: number, lengthM: number, widthEndM: number, points = 28): LatLon[] {
+  // Create a "fan" polygon: lkp -> arc -> lkp (axisDeg is the bearing it opens toward)
   const halfAngle = Math.atan2(widthEndM, lengthM); // radians
   const start = axisDeg - (halfAngle * 180) / Math.PI;
   const end = axisDeg + (halfAngle * 180) / Math.PI;
@@ -138,13 +155,293 @@ function coneFan(lkp: LatLon, axisDeg: number, lengthM: number, widthEndM: numbe
   for (let i = 0; i <= points; i++) {
     const t = i / points;
     const b = start + (end - start) * t;
-    poly.push(moveLL(lkp, b, lengthM));
+    poly.push(destination(lkp, b, lengthM));
   }
 
   poly.push(lkp);
   return poly;
 }
 
+type Vec = { x: number; y: number }; // x = east (m), y = north (m)
+
+// Downwind drift velocity (m/s) at time t, interpolated between samples as u/v vectors
+function windVelocityAt(series: { t: number; fromDeg: number; mph: number }[], t: number): Vec {
+  const toVec = (fromDeg: number, mph: number): Vec => {
+    const br = (downwind(fromDeg) * Math.PI) / 180;
+    const mps = mph * 0.44704;
+    return { x: Math.sin(br) * mps, y: Math.cos(br) * mps };
+  };
+
+  if (t <= series[0].t) return toVec(series[0].fromDeg, series[0].mph);
+  const last = series[series.length - 1];
+  if (t >= last.t) return toVec(last.fromDeg, last.mph);
+
+  let i = 0;
+  while (i < series.length - 2 && series[i + 1].t < t) i++;
+  const a = series[i];
+  const b = series[i + 1];
+  const f = b.t === a.t ? 0 : (t - a.t) / (b.t - a.t);
+  const va = toVec(a.fromDeg, a.mph);
+  const vb = toVec(b.fromDeg, b.mph);
+  return { x: va.x + (vb.x - va.x) * f, y: va.y + (vb.y - va.y) * f };
+}
+
+export type TerrainFlow = "drainage" | "upslope";
+
+// Slope-driven drift (m/s) at a point in local metres. Night drainage (katabatic) runs
+// downslope and pools in drainages; daytime heating gives a weaker upslope (anabatic)
+// tendency. Both fade as the ambient wind picks up.
+function slopeFlow(dem: DemSampler, lkp: LatLon, regime: TerrainFlow, windMps: number) {
+  const calm = clamp((6 - windMps) / 4, 0.15, 1);
+  return (p: Vec): Vec => {
+    const s = dem.slopeAt(offsetLL(lkp, p.x, p.y));
+    if (!s) return { x: 0, y: 0 };
+    const g = Math.hypot(s.dzdx, s.dzdy);
+    if (g < 0.01) return { x: 0, y: 0 }; // under 1% grade is flat for this purpose
+    const speed = Math.min(2.5, 3 * Math.sqrt(g)) * calm * (regime === "drainage" ? 1 : 0.4);
+    const sign = regime === "drainage" ? -1 : 1; // downslope = against the gradient
+    return { x: (sign * s.dzdx * speed) / g, y: (sign * s.dzdy * speed) / g };
+  };
+}
+
+function terrainRegime(pasquill: PasquillClass): TerrainFlow | null {
+  if (pasquill === "E" || pasquill === "F") return "drainage";
+  if (pasquill === "A" || pasquill === "B" || pasquill === "C") return "upslope";
+  return null;
+}
+
+// Advect parcels released from the LKP between lkp time and now.
+// Returns the "spine" ordered from the LKP (age 0) to the oldest parcel, in local metres.
+// With a terrain flow the drift depends on position, so each parcel is stepped individually.
+function advectSpine(series: WindSample[], lkpMs: number, nowMs: number, flow?: (p: Vec) => Vec) {
+  const pts = series
+    .map((w) => ({ t: Date.parse(w.time_iso), fromDeg: w.wind_from_deg, mph: Math.max(0, w.wind_speed_mph) }))
+    .filter((w) => !isNaN(w.t))
+    .sort((a, b) => a.t - b.t);
+
+  const totalMin = (nowMs - lkpMs) / 60000;
+  const steps = clamp(Math.ceil(totalMin / 5), 1, 144);
+  const dtSec = ((nowMs - lkpMs) / 1000) / steps;
+
+  // velocity over each step, then displacement from each release step to now
+  const vel: Vec[] = [];
+  for (let k = 0; k < steps; k++) {
+    vel.push(windVelocityAt(pts, lkpMs + (k + 0.5) * dtSec * 1000));
+  }
+
+  const disp: Vec[] = new Array(steps + 1);
+  disp[steps] = { x: 0, y: 0 };
+  if (!flow) {
+    for (let k = steps - 1; k >= 0; k--) {
+      disp[k] = { x: disp[k + 1].x + vel[k].x * dtSec, y: disp[k + 1].y + vel[k].y * dtSec };
+    }
+  } else {
+    for (let k = steps - 1; k >= 0; k--) {
+      let p: Vec = { x: 0, y: 0 };
+      for (let j = k; j < steps; j++) {
+        // sub-step so a parcel does not jump across a drainage between DEM samples
+        const f0 = flow(p);
+        const sub = clamp(Math.ceil((Math.hypot(vel[j].x + f0.x, vel[j].y + f0.y) * dtSec) / 25), 1, 12);
+        const h = dtSec / sub;
+        for (let q = 0; q < sub; q++) {
+          const f = q === 0 ? f0 : flow(p);
+          p = { x: p.x + (vel[j].x + f.x) * h, y: p.y + (vel[j].y + f.y) * h };
+        }
+      }
+      disp[k] = p;
+    }
+  }
+
+  // parcel released at step k has age (steps - k) * dt; reverse so index = age step
+  const spine = disp.slice().reverse();
+  const agesMin = spine.map((_, j) => (j * dtSec) / 60);
+
+  // time-weighted mean speed and net swing in direction over the window
+  const meanMph = vel.reduce((acc, v) => acc + Math.hypot(v.x, v.y), 0) / vel.length / 0.44704;
+  const first = windVelocityAt(pts, lkpMs);
+  const lastV = windVelocityAt(pts, nowMs);
+  const a0 = Math.atan2(first.x, first.y);
+  const a1 = Math.atan2(lastV.x, lastV.y);
+  let swing = ((a1 - a0) * 180) / Math.PI;
+  swing = ((swing + 540) % 360) - 180;
+
+  return { spine, agesMin, meanMph, swingDeg: swing, latestFromDeg: (((Math.atan2(lastV.x, lastV.y) * 180) / Math.PI) + 180 + 360) % 360 };
+}
+
+function arcLengths(spine: Vec[]) {
+  const s = [0];
+  for (let i = 1; i < spine.length; i++) {
+    s.push(s[i - 1] + Math.hypot(spine[i].x - spine[i - 1].x, spine[i].y - spine[i - 1].y));
+  }
+  return s;
+}
+
+// Point (and age) at a given arc length along the spine
+function alongSpine(spine: Vec[], ages: number[], arc: number[], at: number) {
+  if (at <= 0) return { p: spine[0], age: ages[0], idx: 0 };
+  for (let i = 1; i < spine.length; i++) {
+    if (arc[i] >= at) {
+      const seg = arc[i] - arc[i - 1];
+      const f = seg > 0 ? (at - arc[i - 1]) / seg : 0;
+      return {
+        p: { x: spine[i - 1].x + (spine[i].x - spine[i - 1].x) * f, y: spine[i - 1].y + (spine[i].y - spine[i - 1].y) * f },
+        age: ages[i - 1] + (ages[i] - ages[i - 1]) * f,
+        idx: i,
+      };
+    }
+  }
+  const n = spine.length - 1;
+  return { p: spine[n], age: ages[n], idx: n + 1 };
+}
+
+// Polygon around a path (local metres from the LKP) with a half-width per path point and a rounded end cap
+function ribbon(lkp: LatLon, path: Vec[], halfWidths: number[], capBulgeM: number, capPoints = 14): LatLon[] {
+  let tangent: Vec = { x: 0, y: 1 };
+  const left: Vec[] = [];
+  const right: Vec[] = [];
+
+  for (let i = 0; i < path.length; i++) {
+    const a = path[Math.max(0, i - 1)];
+    const b = path[Math.min(path.length - 1, i + 1)];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const len = Math.hypot(dx, dy);
+    if (len > 1e-6) tangent = { x: dx / len, y: dy / len };
+
+    // left normal of the direction of travel
+    const n = { x: -tangent.y, y: tangent.x };
+    const h = halfWidths[i];
+    left.push({ x: path[i].x + n.x * h, y: path[i].y + n.y * h });
+    right.push({ x: path[i].x - n.x * h, y: path[i].y - n.y * h });
+  }
+
+  const tip = path[path.length - 1];
+  const hEnd = halfWidths[halfWidths.length - 1];
+  const n = { x: -tangent.y, y: tangent.x };
+  const cap: Vec[] = [];
+  for (let i = 1; i < capPoints; i++) {
+    const phi = Math.PI / 2 - (Math.PI * i) / capPoints;
+    cap.push({
+      x: tip.x + n.x * hEnd * Math.sin(phi) + tangent.x * capBulgeM * Math.cos(phi),
+      y: tip.y + n.y * hEnd * Math.sin(phi) + tangent.y * capBulgeM * Math.cos(phi),
+    });
+  }
+
+  const ring = [...left, ...cap, ...right.reverse()];
+  return [lkp, ...ring.map((v) => offsetLL(lkp, v.x, v.y)), lkp];
+}
+
+// Curved equivalent of coneFan: widens with parcel age along a bent spine
+function curvedFan(lkp: LatLon, spine: Vec[], ages: number[], lengthM: number, widthEndM: number): LatLon[] {
+  const arc = arcLengths(spine);
+  const end = alongSpine(spine, ages, arc, lengthM);
+
+  const path: Vec[] = spine.slice(0, end.idx);
+  const pathAges = ages.slice(0, end.idx);
+  path.push(end.p);
+  pathAges.push(end.age);
+
+  const ageEnd = Math.max(1e-6, end.age);
+  const widths = pathAges.map((a) => widthEndM * (a / ageEnd));
+
+  // cap bulge matches the sagitta of the straight fan's arc
+  return ribbon(lkp, path, widths, (widthEndM * widthEndM) / (2 * Math.max(1, lengthM)));
+}
+
+// Path along the (scaled) spine or straight axis, carried on along the last heading past its end
+function pathAlong(axisDeg: number, spine: Vec[] | null): (s: number) => Vec {
+  const br = (axisDeg * Math.PI) / 180;
+  const dir = { x: Math.sin(br), y: Math.cos(br) };
+  if (!spine || spine.length < 2) return (s) => ({ x: dir.x * s, y: dir.y * s });
+
+  const arc = arcLengths(spine);
+  const zeros = spine.map(() => 0);
+  const total = arc[arc.length - 1];
+  const a = spine[spine.length - 2];
+  const b = spine[spine.length - 1];
+  const len = Math.hypot(b.x - a.x, b.y - a.y);
+  const t = len > 1e-6 ? { x: (b.x - a.x) / len, y: (b.y - a.y) / len } : dir;
+  return (s) => (s <= total ? alongSpine(spine, zeros, arc, s).p : { x: b.x + t.x * (s - total), y: b.y + t.y * (s - total) });
+}
+
+export type CoverSegment = { terrain: TerrainType; from_m: number; to_m: number };
+
+type CoverWalk = { length: number; at: number[]; meanMix: number[]; segments: CoverSegment[] };
+
+// Walk the plume out through patchy land cover. `budgetM` is the reach with no terrain factor;
+// each step spends step/terrainLenMult of it, so open ground carries scent further than town.
+// Width grows with the mean mixing of the cover crossed so far.
+function walkCover(pathAt: (s: number) => Vec, terrainAt: (p: Vec) => TerrainType, stability: StabilityType, budgetM: number): CoverWalk {
+  const step = Math.max(2, budgetM / 120);
+  const at = [0];
+  const meanMix = [mixMult(stability, terrainAt(pathAt(0)))];
+  const segments: CoverSegment[] = [];
+  let s = 0;
+  let left = budgetM;
+  let mixSum = 0;
+
+  while (left > 1e-6) {
+    const t = terrainAt(pathAt(s + step / 2));
+    const m = terrainLenMult(t);
+    const ds = Math.min(step, left * m);
+    left -= ds / m;
+    mixSum += mixMult(stability, t) * ds;
+    s += ds;
+    at.push(s);
+    meanMix.push(mixSum / s);
+
+    const last = segments[segments.length - 1];
+    if (last && last.terrain === t) last.to_m = s;
+    else segments.push({ terrain: t, from_m: s - ds, to_m: s });
+  }
+
+  return { length: s, at, meanMix, segments };
+}
+
+// Empirical fan over a cover walk; half-width is linear in distance like coneFan, scaled by local mixing.
+// The sides stop where coneFan's end arc starts so one uniform patch reproduces the plain fan.
+function coverFan(lkp: LatLon, pathAt: (s: number) => Vec, walk: CoverWalk, widthEndM: number): LatLon[] {
+  const L = Math.max(1e-6, walk.length);
+  const hL = widthEndM * walk.meanMix[walk.meanMix.length - 1];
+  const sides = L * Math.cos(Math.atan2(hL, L));
+
+  const path: Vec[] = [];
+  const widths: number[] = [];
+  walk.at.forEach((x, i) => {
+    if (x >= sides) return;
+    path.push(pathAt(x));
+    widths.push(widthEndM * (x / L) * walk.meanMix[i]);
+  });
+  path.push(pathAt(sides));
+  widths.push(hL * (sides / L));
+
+  return ribbon(lkp, path, widths, L - sides);
+}
+
+// Gaussian plume contour for one zone, along a straight axis or the advected spine. Empty at the
+// LKP time, before the plume front has left the source.
+function plumeZone(lkp: LatLon, profile: PlumeProfile, zone: PlumeZone, axisDeg: number, spine: Vec[] | null, samples = 40): ZoneShape {
+  const L = profile.length_m[zone];
+  if (L <= 0) return [];
+
+  const br = (axisDeg * Math.PI) / 180;
+  const dir = { x: Math.sin(br), y: Math.cos(br) };
+  const arc = spine ? arcLengths(spine) : null;
+  const zeros = spine ? spine.map(() => 0) : [];
+
+  const path: Vec[] = [];
+  const widths: number[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const x = (L * i) / samples;
+    path.push(spine && arc ? alongSpine(spine, zeros, arc, x).p : { x: dir.x * x, y: dir.y * x });
+    widths.push(profile.halfWidth(zone, x));
+  }
+
+  // contour closes on its own unless the plume front cuts it off
+  const hEnd = widths[widths.length - 1];
+  return [[ribbon(lkp, path, widths, hEnd * 0.5)]];
+}
+
 export function computeScentEnvelope(input: {
   lkp_lat: number;
   lkp_lon: number;
@@ -155,27 +452,64 @@ export function computeScentEnvelope(input: {
 
   temperature_f: number;
   rel_humidity_pct: number;
-  cloud: "clear" | "partly" | "overcast" | "night";
+  cloud: CloudType;
   precip: PrecipType;
   recent_rain: boolean;
   terrain: TerrainType;
   stability: StabilityType;
+
+  // optional hourly wind history (LKP -> now); when given, the envelope follows it
+  wind_series?: WindSample[];
+
+  // "empirical" (default) = tuned length/width formulas; "gaussian" = PG plume contours
+  engine?: EnvelopeEngine;
+
+  // exact Pasquill class (e.g. from sun/cloud/wind); defaults to one implied by `stability`
+  pasquill_class?: PasquillClass;
+
+  // terrain traps to flag as likely pooling/collection points
+  traps?: TrapInput[];
+
+  // local elevation; bends the envelope downslope under stable/night conditions, upslope when convective
+  dem?: DemSampler;
+
+  // land-cover patches; the empirical engine applies their terrain factors where the plume crosses them
+  land_cover?: LandCoverInput[];
+
+  // lakes, cliffs, roads...: zones are clipped or deflected around them
+  barriers?: Barrier[];
 }) {
   const lkp: LatLon = { lat: input.lkp_lat, lon: input.lkp_lon };
-  const tMin = Math.max(0, Math.round((Date.parse(input.now_time_iso) - Date.parse(input.lkp_time_iso)) / 60000));
-  const W = Math.max(0, input.wind_speed_mph);
+  const lkpMs = Date.parse(input.lkp_time_iso);
+  const nowMs = Date.parse(input.now_time_iso);
+  const tMin = Math.max(0, Math.round((nowMs - lkpMs) / 60000));
+
+  const engine: EnvelopeEngine = input.engine ?? "empirical";
+  const pasquill = input.pasquill_class ?? pasquillForStability(input.stability);
+
+  const regime = input.dem ? terrainRegime(pasquill) : null;
+  const flow = input.dem && regime ? slopeFlow(input.dem, lkp, regime, input.wind_speed_mph * 0.44704) : undefined;
+  const hasSeries = !!input.wind_series?.length;
+
+  // terrain needs the parcel model even when the wind is steady
+  const series: WindSample[] | null = input.wind_series?.length
+    ? input.wind_series
+    : flow
+      ? [{ time_iso: input.lkp_time_iso, wind_from_deg: input.wind_from_deg, wind_speed_mph: input.wind_speed_mph }]
+      : null;
+  const history = series && tMin > 0 ? advectSpine(series, lkpMs, nowMs, flow) : null;
+
+  const W = Math.max(0, history ? history.meanMph : input.wind_speed_mph);
   const W_eff = Math.min(W, 18);
 
-  // Length model (feet -> meters)
-  const L_base_ft = 30 + 6.0 * tMin;
-  const L_wind_ft = 120 * W_eff * Math.log(1 + tMin / 30);
-  let L_ft = (L_base_ft + L_wind_ft) * terrainLenMult(input.terrain) * stabilityMult(input.stability);
-  const L_m = L_ft * 0.3048;
+  // Length model (m; coefficients are the original feet-tuned ones converted once)
+  const L_base_m = 9.144 + 1.8288 * tMin;
+  const L_wind_m = 36.576 * W_eff * Math.log(1 + tMin / 30);
+  const L_m = (L_base_m + L_wind_m) * terrainLenMult(input.terrain) * stabilityMult(input.stability);
 
-  // Width model (feet -> meters)
+  // Width model (m)
   const mix = mixMult(input.stability, input.terrain);
-  const Width_end_ft = (20 + 3.5 * tMin + 40 * Math.sqrt(Math.max(1, tMin))) * mix;
-  const Width_end_m = Width_end_ft * 0.3048;
+  const Width_end_m = (6.096 + 1.0668 * tMin + 12.192 * Math.sqrt(Math.max(1, tMin))) * mix;
 
   // Zone scaling
   const L_core = 0.55 * L_m;
@@ -187,13 +521,75 @@ export function computeScentEnvelope(input: {
   const L_res = 1.0 * L_m;
   const W_res = 1.15 * Width_end_m;
 
-  const axis = downwind(input.wind_from_deg);
+  const axis = downwind(history ? history.latestFromDeg : input.wind_from_deg);
+
+  // scale the advected spine to the tuned model length (shape from history, size from the model)
+  let spine: Vec[] | null = null;
+  if (history && engine === "empirical") {
+    const arc = arcLengths(history.spine);
+    const total = arc[arc.length - 1];
+    if (total > 1) {
+      const k = L_m / total;
+      spine = history.spine.map((v) => ({ x: v.x * k, y: v.y * k }));
+    }
+  }
 
-  const polys: EnvelopePolys = {
-    core: coneFan(lkp, axis, L_core, W_core),
-    fringe: coneFan(lkp, axis, L_fringe, W_fringe),
-    residual: coneFan(lkp, axis, L_res, W_res),
-  };
+  // gaussian engine keeps the true advection distances; contours close where dilution says so
+  const plume = engine === "gaussian"
+    ? plumeProfile({
+        pasquill,
+        wind_speed_mps: W * 0.44704,
+        minutes_since_lkp: tMin,
+        urban: input.terrain === "urban",
+        tau_min: tauMinutes(input.temperature_f, input.rel_humidity_pct, input.cloud, W),
+      })
+    : null;
+  const plumeSpine = history && arcLengths(history.spine).slice(-1)[0] > 1 ? history.spine : null;
+
+  // patchy cover: walk each zone out segment by segment instead of one incident-wide factor
+  let cover: { pathAt: (s: number) => Vec; core: CoverWalk; fringe: CoverWalk; residual: CoverWalk } | null = null;
+  if (!plume && input.land_cover?.length && L_m > 0) {
+    const pathAt = pathAlong(axis, spine);
+    const lookup = coverLookup(input.land_cover, input.terrain);
+    const terrainAt = (v: Vec) => lookup(offsetLL(lkp, v.x, v.y));
+    const reach = L_m / terrainLenMult(input.terrain);
+    cover = {
+      pathAt,
+      core: walkCover(pathAt, terrainAt, input.stability, 0.55 * reach),
+      fringe: walkCover(pathAt, terrainAt, input.stability, 0.85 * reach),
+      residual: walkCover(pathAt, terrainAt, input.stability, reach),
+    };
+    // nothing crossed but the incident-wide terrain: keep the usual fan
+    if (cover.residual.segments.every((g) => g.terrain === input.terrain)) cover = null;
+  }
+  const W_unmixed = Width_end_m / mix;
+
+  const rawPolys: EnvelopePolys = plume
+    ? {
+        core: plumeZone(lkp, plume, "core", axis, plumeSpine),
+        fringe: plumeZone(lkp, plume, "fringe", axis, plumeSpine),
+        residual: plumeZone(lkp, plume, "residual", axis, plumeSpine),
+      }
+    : cover
+    ? {
+        core: [[coverFan(lkp, cover.pathAt, cover.core, 0.45 * W_unmixed)]],
+        fringe: [[coverFan(lkp, cover.pathAt, cover.fringe, 0.8 * W_unmixed)]],
+        residual: [[coverFan(lkp, cover.pathAt, cover.residual, 1.15 * W_unmixed)]],
+      }
+    : spine && history
+    ? {
+        core: [[curvedFan(lkp, spine, history.agesMin, L_core, W_core)]],
+        fringe: [[curvedFan(lkp, spine, history.agesMin, L_fringe, W_fringe)]],
+        residual: [[curvedFan(lkp, spine, history.agesMin, L_res, W_res)]],
+      }
+    : {
+        core: [[coneFan(lkp, axis, L_core, W_core)]],
+        fringe: [[coneFan(lkp, axis, L_fringe, W_fringe)]],
+        residual: [[coneFan(lkp, axis, L_res, W_res)]],
+      };
+
+  const barrierResult = input.barriers?.length ? applyBarriers(rawPolys, lkp, input.barriers, axis) : null;
+  const polys = barrierResult ? barrierResult.polygons : rawPolys;
 
   const c = confidenceScore(
     tMin,
@@ -208,24 +604,78 @@ export function computeScentEnvelope(input: {
   const notes: string[] = [];
   if (W <= 3) notes.push("Low wind: scent pooling/eddy likely—work LKP and leeward obstacles.");
   if (W >= 13) notes.push("Higher wind: dilution/variability likely—use multiple start points and reassess often.");
+  if (history && Math.abs(history.swingDeg) >= 45) {
+    notes.push(`Wind shifted ~${Math.round(Math.abs(history.swingDeg))}° since LKP—older scent lies along the earlier downwind side.`);
+  }
+  const trapFlags = input.traps?.length
+    ? flagTraps(input.traps, polys, lkp, history ? history.latestFromDeg : input.wind_from_deg)
+    : [];
+  if (trapFlags.length) {
+    const top = trapFlags.slice(0, 3).map((f) => `${f.label} (${TRAP_TYPES[f.type].label.toLowerCase()})`);
+    notes.push(`Check likely collection points in/near envelope: ${top.join(", ")}${trapFlags.length > 3 ? ` +${trapFlags.length - 3} more` : ""}.`);
+  }
+  const crossed = cover ? cover.residual.segments : [];
+  if (crossed.length > 1) {
+    notes.push(`Plume crosses ${crossed.map((g) => TERRAIN_INFO[g.terrain].label.toLowerCase()).join(" → ")}—expect scent to hang up along cover edges.`);
+  }
+  const blockedBy = (input.barriers ?? []).filter((b) => barrierResult?.hit.includes(b.id));
+  if (blockedBy.length) {
+    notes.push(`Envelope cut by ${blockedBy.map((b) => b.label).join(", ")}—work the near side and around the ends.`);
+  }
+  const unapplied = (input.barriers ?? []).filter((b) => barrierResult?.failed.includes(b.id));
+  if (unapplied.length) {
+    notes.push(`Could not clip the envelope around ${unapplied.map((b) => b.label).join(", ")}—check the outline; the envelope ignores it there.`);
+  }
+  if (flow && regime === "drainage") notes.push("Stable/night air: scent drains downslope into low ground—work drainage bottoms below the LKP.");
+  if (flow && regime === "upslope") notes.push("Daytime heating: scent tends to drift upslope—check upper slopes and ridgelines.");
   if (input.precip === "heavy") notes.push("Heavy precip can disrupt airborne scent—prioritize high-probability areas first.");
   if (c < 40) notes.push("Low confidence: use envelope as planning aid; prioritize tracks/POAs/intel.");
   else if (c < 70) notes.push("Moderate confidence: core first, fringe support, residual if resources permit.");
   else notes.push("High confidence: deploy downwind along core axis, bracket fringe.");
 
-  const startPoints: StartPoint[] = [
-    { label: "LKP (Immediate)", point: lkp },
-    { label: "Core Midline (~35%)", point: moveLL(lkp, axis, 0.35 * L_m) },
-    { label: "Core Far (~55%)", point: moveLL(lkp, axis, 0.55 * L_m) },
-  ];
+  const alongAxis = (distM: number): LatLon => {
+    if (cover) {
+      const v = cover.pathAt(distM);
+      return offsetLL(lkp, v.x, v.y);
+    }
+    const path = plume ? plumeSpine : spine;
+    if (!path) return destination(lkp, axis, distM);
+    const v = alongSpine(path, path.map(() => 0), arcLengths(path), distM).p;
+    return offsetLL(lkp, v.x, v.y);
+  };
+
+  const startPoints: StartPoint[] = plume
+    ? [
+        { label: "LKP (Immediate)", point: lkp },
+        { label: "Core Midline", point: alongAxis(0.5 * plume.length_m.core) },
+        { label: "Core Far", point: alongAxis(plume.length_m.core) },
+      ]
+    : [
+        { label: "LKP (Immediate)", point: lkp },
+        { label: "Core Midline (~35%)", point: alongAxis(0.35 * (cover ? cover.residual.length : L_m)) },
+        { label: "Core Far (~55%)", point: alongAxis(cover ? cover.core.length : 0.55 * L_m) },
+      ];
 
   return {
     minutes_since_lkp: tMin,
+    engine,
+    pasquill_class: pasquill,
+    wind_model: (hasSeries && history && (spine || plumeSpine) ? "series" : "steady") as "series" | "steady",
+    terrain_flow: flow ? regime : null,
+    wind_shift_deg: history ? Math.round(history.swingDeg) : 0,
     polygons: polys,
     confidence_score: c,
     confidence_band: confidenceBand(c) as "High" | "Moderate" | "Low",
     reset_recommendation_minutes: resetRecommendation(c),
     recommended_start_points: startPoints,
     deployment_notes: notes,
+    trap_flags: trapFlags,
+    cover_crossed: crossed,
+    barrier_clipped: barrierResult ? barrierResult.clipped : [],
+    metrics: {
+      core: zoneMetrics(lkp, polys.core, axis),
+      fringe: zoneMetrics(lkp, polys.fringe, axis),
+      residual: zoneMetrics(lkp, polys.residual, axis),
+    },
   };
 }
\ No newline at end of file
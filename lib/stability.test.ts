@@ -0,0 +1,43 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { isSunDown, pasquillClass, pasquillForStability, solarElevationDeg, stabilityFromPasquill, sunTimes } from "./stability";
+
+// Boulder, CO on the June solstice
+const lat = 40.015;
+const lon = -105.27;
+
+test("solar elevation peaks near 90 - latitude + tilt at solar noon", () => {
+  const elev = solarElevationDeg(lat, lon, new Date("2024-06-21T19:03:00Z"));
+  assert.ok(Math.abs(elev - (90 - lat + 23.44)) < 0.2, String(elev));
+});
+
+test("sunrise and sunset match the almanac within a few minutes", () => {
+  const { sunrise, sunset } = sunTimes(lat, lon, new Date("2024-06-21T19:00:00Z"));
+  // 05:32 and 20:32 MDT
+  assert.ok(sunrise && Math.abs(sunrise.getTime() - Date.parse("2024-06-21T11:32:00Z")) < 4 * 60_000, sunrise?.toISOString());
+  assert.ok(sunset && Math.abs(sunset.getTime() - Date.parse("2024-06-22T02:32:00Z")) < 4 * 60_000, sunset?.toISOString());
+});
+
+test("no sunrise or sunset in polar day", () => {
+  assert.deepEqual(sunTimes(78, 15, new Date("2024-06-21T12:00:00Z")), { sunrise: null, sunset: null });
+});
+
+test("sun is down at local midnight and up at noon", () => {
+  assert.equal(isSunDown(lat, lon, new Date("2024-06-21T07:00:00Z")), true);
+  assert.equal(isSunDown(lat, lon, new Date("2024-06-21T19:00:00Z")), false);
+});
+
+test("Pasquill class from sun, cloud and wind", () => {
+  assert.equal(pasquillClass({ solar_elevation_deg: 70, cloud: "clear", wind_speed_mps: 1 }), "A");
+  assert.equal(pasquillClass({ solar_elevation_deg: 70, cloud: "clear", wind_speed_mps: 7 }), "C");
+  assert.equal(pasquillClass({ solar_elevation_deg: 45, cloud: "partly", wind_speed_mps: 4 }), "C");
+  assert.equal(pasquillClass({ solar_elevation_deg: 3, cloud: "clear", wind_speed_mps: 1 }), "D");
+  assert.equal(pasquillClass({ solar_elevation_deg: 70, cloud: "overcast", wind_speed_mps: 1 }), "D");
+  assert.equal(pasquillClass({ solar_elevation_deg: -20, cloud: "clear", wind_speed_mps: 1 }), "F");
+  assert.equal(pasquillClass({ solar_elevation_deg: -20, cloud: "partly", wind_speed_mps: 2.5 }), "E");
+  assert.equal(pasquillClass({ solar_elevation_deg: 30, cloud: "night", wind_speed_mps: 4 }), "E");
+});
+
+test("envelope stability round-trips through its Pasquill class", () => {
+  for (const s of ["convective", "neutral", "stable"] as const) assert.equal(stabilityFromPasquill(pasquillForStability(s)), s);
+});
@@ -0,0 +1,152 @@
+import type { PasquillClass } from "./gaussianPlume";
+import type { CloudType, StabilityType } from "./scentEnvelope";
+
+// Sun below this elevation counts as set (standard refraction + solar radius)
+const SUNSET_ELEV_DEG = -0.833;
+
+function rad(d: number) {
+  return (d * Math.PI) / 180;
+}
+
+function deg(r: number) {
+  return (r * 180) / Math.PI;
+}
+
+// NOAA solar position (declination + equation of time), good to ~0.01° for SAR purposes
+function solarParams(date: Date) {
+  const jd = date.getTime() / 86_400_000 + 2440587.5;
+  const t = (jd - 2451545) / 36525;
+
+  const l0 = (280.46646 + t * (36000.76983 + 0.0003032 * t)) % 360;
+  const m = 357.52911 + t * (35999.05029 - 0.0001537 * t);
+  const e = 0.016708634 - t * (0.000042037 + 0.0000001267 * t);
+  const c =
+    Math.sin(rad(m)) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(rad(2 * m)) * (0.019993 - 0.000101 * t) +
+    Math.sin(rad(3 * m)) * 0.000289;
+  const trueLong = l0 + c;
+  const omega = 125.04 - 1934.136 * t;
+  const lambda = trueLong - 0.00569 - 0.00478 * Math.sin(rad(omega));
+
+  const eps0 = 23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60;
+  const eps = eps0 + 0.00256 * Math.cos(rad(omega));
+  const decl = deg(Math.asin(Math.sin(rad(eps)) * Math.sin(rad(lambda))));
+
+  const y = Math.tan(rad(eps / 2)) ** 2;
+  const eqTimeMin =
+    4 *
+    deg(
+      y * Math.sin(2 * rad(l0)) -
+        2 * e * Math.sin(rad(m)) +
+        4 * e * y * Math.sin(rad(m)) * Math.cos(2 * rad(l0)) -
+        0.5 * y * y * Math.sin(4 * rad(l0)) -
+        1.25 * e * e * Math.sin(2 * rad(m))
+    );
+
+  return { decl, eqTimeMin };
+}
+
+export function solarElevationDeg(lat: number, lon: number, date: Date) {
+  const { decl, eqTimeMin } = solarParams(date);
+  const utcMin = date.getUTCHours() * 60 + date.getUTCMinutes() + date.getUTCSeconds() / 60;
+  const trueSolarMin = (((utcMin + eqTimeMin + 4 * lon) % 1440) + 1440) % 1440;
+  const hourAngle = trueSolarMin / 4 - 180;
+
+  const cosZen =
+    Math.sin(rad(lat)) * Math.sin(rad(decl)) +
+    Math.cos(rad(lat)) * Math.cos(rad(decl)) * Math.cos(rad(hourAngle));
+  return 90 - deg(Math.acos(Math.max(-1, Math.min(1, cosZen))));
+}
+
+// Sunrise/sunset (UTC instants) for the UTC day containing `date`; null in polar day/night
+export function sunTimes(lat: number, lon: number, date: Date): { sunrise: Date | null; sunset: Date | null } {
+  const noon = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 12));
+  const { decl, eqTimeMin } = solarParams(noon);
+
+  const cosH =
+    (Math.cos(rad(90 - SUNSET_ELEV_DEG)) - Math.sin(rad(lat)) * Math.sin(rad(decl))) /
+    (Math.cos(rad(lat)) * Math.cos(rad(decl)));
+  if (cosH > 1 || cosH < -1) return { sunrise: null, sunset: null };
+
+  const h = deg(Math.acos(cosH));
+  const solarNoonMin = 720 - 4 * lon - eqTimeMin;
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+  return {
+    sunrise: new Date(dayStart + (solarNoonMin - 4 * h) * 60_000),
+    sunset: new Date(dayStart + (solarNoonMin + 4 * h) * 60_000),
+  };
+}
+
+export function isSunDown(lat: number, lon: number, date: Date) {
+  return solarElevationDeg(lat, lon, date) < SUNSET_ELEV_DEG;
+}
+
+// Turner's insolation classes from solar elevation, reduced one step by partial cloud
+function insolation(elevDeg: number, cloud: CloudType): "strong" | "moderate" | "slight" {
+  let k = elevDeg > 60 ? 3 : elevDeg > 35 ? 2 : 1;
+  if (cloud === "partly") k = Math.max(1, k - 1);
+  return k === 3 ? "strong" : k === 2 ? "moderate" : "slight";
+}
+
+// Pasquill table (10 m wind). Split classes ("A–B") resolve to the more unstable letter.
+const DAY_TABLE: Record<"strong" | "moderate" | "slight", PasquillClass[]> = {
+  //        <2    2-3   3-5   5-6   >6 m/s
+  strong:   ["A", "A", "B", "C", "C"],
+  moderate: ["A", "B", "B", "C", "D"],
+  slight:   ["B", "C", "C", "D", "D"],
+};
+
+const NIGHT_TABLE: Record<"cloudy" | "clear", PasquillClass[]> = {
+  cloudy: ["F", "E", "D", "D", "D"], // thin overcast or >= 4/8 low cloud
+  clear:  ["F", "F", "E", "D", "D"], // <= 3/8 cloud
+};
+
+function windColumn(mps: number) {
+  if (mps < 2) return 0;
+  if (mps < 3) return 1;
+  if (mps < 5) return 2;
+  if (mps < 6) return 3;
+  return 4;
+}
+
+export function pasquillClass(input: { solar_elevation_deg: number; cloud: CloudType; wind_speed_mps: number }): PasquillClass {
+  // full overcast is neutral day or night
+  if (input.cloud === "overcast") return "D";
+
+  const col = windColumn(input.wind_speed_mps);
+  if (input.solar_elevation_deg < SUNSET_ELEV_DEG || input.cloud === "night") {
+    return NIGHT_TABLE[input.cloud === "partly" ? "cloudy" : "clear"][col];
+  }
+
+  // sun just above the horizon: transition hours are neutral
+  if (input.solar_elevation_deg < 5) return "D";
+
+  return DAY_TABLE[insolation(input.solar_elevation_deg, input.cloud)][col];
+}
+
+// Collapse A–F onto the envelope's three stability multipliers
+export function stabilityFromPasquill(c: PasquillClass): StabilityType {
+  if (c === "A" || c === "B" || c === "C") return "convective";
+  if (c === "E" || c === "F") return "stable";
+  return "neutral";
+}
+
+export function pasquillForStability(s: StabilityType): PasquillClass {
+  switch (s) {
+    case "convective": return "B";
+    case "stable": return "E";
+    default: return "D";
+  }
+}
+
+export function describePasquill(c: PasquillClass) {
+  switch (c) {
+    case "A": return "very unstable";
+    case "B": return "moderately unstable";
+    case "C": return "slightly unstable";
+    case "D": return "neutral";
+    case "E": return "slightly stable";
+    case "F": return "moderately stable";
+  }
+}
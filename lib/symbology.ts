@@ -0,0 +1,83 @@
+import type { EnvelopePolys } from "./scentEnvelope";
+
+// Map colors for the envelope zones, time bands and point markers. A palette is picked per
+// device; each zone's color and fill can then be overridden (see lib/preferences.ts).
+
+export type Zone = keyof EnvelopePolys;
+
+export type ZoneStyle = { color: string; fillOpacity: number };
+
+export type PaletteId = "standard" | "colorblind" | "night";
+
+export type Symbology = {
+  zones: Record<Zone, ZoneStyle>;
+  band: string; // dashed time-band outlines and their minute labels
+  lkp: string; // sources without a color of their own
+  start: string; // recommended start points
+};
+
+export const PALETTES: { id: PaletteId; label: string; symbology: Symbology }[] = [
+  {
+    id: "standard",
+    label: "Standard (matches KML)",
+    symbology: {
+      zones: {
+        core: { color: "#dc2626", fillOpacity: 0.3 },
+        fringe: { color: "#f97316", fillOpacity: 0.2 },
+        residual: { color: "#fbbf24", fillOpacity: 0.12 },
+      },
+      band: "#1d4ed8",
+      lkp: "#111827",
+      start: "#7c3aed",
+    },
+  },
+  {
+    // Okabe–Ito: vermillion / orange / sky blue stay apart under red-green color blindness
+    id: "colorblind",
+    label: "Colorblind-safe",
+    symbology: {
+      zones: {
+        core: { color: "#d55e00", fillOpacity: 0.35 },
+        fringe: { color: "#e69f00", fillOpacity: 0.22 },
+        residual: { color: "#56b4e9", fillOpacity: 0.15 },
+      },
+      band: "#0072b2",
+      lkp: "#000000",
+      start: "#cc79a7",
+    },
+  },
+  {
+    // red light only, so screens don't spoil dark adaptation; zones differ by brightness
+    id: "night",
+    label: "Night (red light)",
+    symbology: {
+      zones: {
+        core: { color: "#ff2a2a", fillOpacity: 0.4 },
+        fringe: { color: "#b00000", fillOpacity: 0.28 },
+        residual: { color: "#5c0000", fillOpacity: 0.2 },
+      },
+      band: "#ff6666",
+      lkp: "#ff0000",
+      start: "#ff8080",
+    },
+  },
+];
+
+export const ZONE_LABELS: Record<Zone, string> = { core: "Core", fringe: "Fringe", residual: "Residual" };
+
+function paletteSymbology(id: PaletteId) {
+  return (PALETTES.find((p) => p.id === id) ?? PALETTES[0]).symbology;
+}
+
+// palette with the user's per-zone overrides applied
+export function resolveSymbology(id: PaletteId, overrides: Partial<Record<Zone, ZoneStyle>>): Symbology {
+  const base = paletteSymbology(id);
+  return {
+    ...base,
+    zones: {
+      core: overrides.core ?? base.zones.core,
+      fringe: overrides.fringe ?? base.zones.fringe,
+      residual: overrides.residual ?? base.zones.residual,
+    },
+  };
+}
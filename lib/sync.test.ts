@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { isSyncField, newer, pickSyncFields, validRoom } from "./sync";
+import { applyChanges, joinRoom } from "./syncHub";
+import { defaultSnapshot } from "./incident";
+
+test("later stamps win and the writer id breaks ties", () => {
+  assert.equal(newer({ t: 2, by: "a" }, { t: 1, by: "z" }), true);
+  assert.equal(newer({ t: 1, by: "z" }, { t: 2, by: "a" }), false);
+  assert.equal(newer({ t: 5, by: "b" }, { t: 5, by: "a" }), true);
+  assert.equal(newer({ t: 5, by: "a" }, { t: 5, by: "b" }), false);
+  assert.equal(newer({ t: 5, by: "a" }, { t: 5, by: "a" }), false);
+  assert.equal(newer({ t: 0, by: "a" }, undefined), true);
+});
+
+test("the room keeps the last writer per field, whatever order edits arrive in", () => {
+  const room = `test-${Date.now()}`;
+  const got: { event: string; data: unknown }[] = [];
+  const leave = joinRoom(room, { id: "watcher", send: (event, data) => got.push({ event, data }) });
+
+  assert.equal(applyChanges(room, "dev_b", [{ field: "tempF", value: 70, stamp: { t: 20, by: "dev_b" } }]), 1);
+  // an edit made earlier offline arrives late and loses
+  assert.equal(applyChanges(room, "dev_a", [
+    { field: "tempF", value: 40, stamp: { t: 10, by: "dev_a" } },
+    { field: "rh", value: 30, stamp: { t: 10, by: "dev_a" } },
+  ]), 1);
+  // a same-time edit goes to the higher writer id
+  assert.equal(applyChanges(room, "dev_c", [{ field: "tempF", value: 55, stamp: { t: 20, by: "dev_c" } }]), 1);
+
+  const state: { event: string; data: unknown }[] = [];
+  joinRoom(room, { id: "late", send: (event, data) => state.push({ event, data }) })();
+  const fields = (state[0].data as { fields: Record<string, { value: unknown }> }).fields;
+  assert.equal(fields.tempF.value, 55);
+  assert.equal(fields.rh.value, 30);
+
+  assert.deepEqual(got.filter((m) => m.event === "change").map((m) => (m.data as { value: unknown }).value), [70, 30, 55]);
+  leave();
+});
+
+test("malformed changes and view-only fields are dropped", () => {
+  const room = `test-bad-${Date.now()}`;
+  assert.equal(applyChanges(room, "dev", [
+    null,
+    { field: "envelopeView", value: "merged", stamp: { t: 1, by: "dev" } },
+    { field: "tempF", stamp: { t: 1, by: "dev" } },
+    { field: "tempF", value: 1, stamp: { t: Number.NaN, by: "dev" } },
+    { field: "tempF", value: 1, stamp: { t: 1 } },
+  ]), 0);
+});
+
+test("only shared fields are picked and room names are checked", () => {
+  const patch = pickSyncFields(defaultSnapshot("live"));
+  assert.ok(Object.keys(patch).every(isSyncField));
+  assert.ok("lkps" in patch && "wind" in patch);
+  assert.equal(validRoom("team-1_alpha"), true);
+  assert.equal(validRoom("../etc"), false);
+  assert.equal(validRoom(""), false);
+});
@@ -0,0 +1,225 @@
+import { uid, type IncidentSnapshot } from "./incident";
+
+// Multi-device sync of the shared parts of an incident through a local server (pages/api/sync.ts):
+// Server-Sent Events down, POSTs up. Each field is last-writer-wins on a hybrid clock stamp
+// (wall clock, never going backwards), so devices that edited while offline converge on the
+// latest edit once they reconnect. View settings stay per device.
+
+export const SYNC_FIELDS = [
+  "lkps",
+  "traps",
+  "alerts",
+  // wind
+  "weatherProvider",
+  "windMode",
+  "wind",
+  "manualSpeedMph",
+  "manualFromDeg",
+  "useWindHistory",
+  "windSeries",
+  "windTimeline",
+  "selectedWindHour",
+  // conditions
+  "tempF",
+  "rh",
+  "cloud",
+  "precip",
+  "recentRain",
+  "terrain",
+  "stability",
+  "stabilitySource",
+  "autoNight",
+  "conditions",
+  "conditionOverrides",
+  "rainHours",
+] as const satisfies readonly (keyof IncidentSnapshot)[];
+
+export type SyncField = (typeof SYNC_FIELDS)[number];
+export type SyncPatch = Partial<Pick<IncidentSnapshot, SyncField>>;
+
+export type Stamp = { t: number; by: string }; // ms on the writer's clock; writer id breaks ties
+export type SyncChange = { field: SyncField; value: unknown; stamp: Stamp };
+export type RoomState = { fields: Partial<Record<SyncField, { value: unknown; stamp: Stamp }>>; peers: number };
+
+export type SyncStatus = { state: "connecting" | "connected" | "offline"; peers: number };
+
+export type SyncConnection = {
+  publish(patch: SyncPatch): void;
+  close(): void;
+};
+
+const STAMPS_KEY = "k9sc:sync";
+const FLUSH_MS = 250;
+const RETRY_MS = 5000;
+
+export function isSyncField(f: unknown): f is SyncField {
+  return SYNC_FIELDS.includes(f as SyncField);
+}
+
+export function validRoom(room: string) {
+  return /^[\w-]{1,64}$/.test(room);
+}
+
+export function newer(a: Stamp, b: Stamp | undefined) {
+  return !b || a.t > b.t || (a.t === b.t && a.by > b.by);
+}
+
+export function pickSyncFields(s: IncidentSnapshot): SyncPatch {
+  return Object.fromEntries(SYNC_FIELDS.map((f) => [f, s[f]])) as SyncPatch;
+}
+
+type SyncOptions = {
+  server: string; // "" = the server this page came from
+  room: string;
+  incidentId: string; // stamps are remembered per incident + room, so offline edits survive a reload
+  current(): SyncPatch; // this device's values, sent for fields the room has older (or no) copies of
+  onRemote(patch: SyncPatch): void;
+  onStatus(status: SyncStatus): void;
+};
+
+// Browser only. Keeps retrying while the server is unreachable; edits made meanwhile are
+// stamped locally and sent when the next "state" shows the room has older values.
+export function connectSync(opts: SyncOptions): SyncConnection {
+  const id = uid("dev");
+  const url = `${opts.server.replace(/\/+$/, "")}/api/sync?room=${encodeURIComponent(opts.room)}&client=${id}`;
+  const storeKey = `${STAMPS_KEY}:${opts.incidentId}:${opts.room}`;
+
+  let stamps: Partial<Record<SyncField, Stamp>> = {};
+  try {
+    stamps = JSON.parse(localStorage.getItem(storeKey) ?? "{}") as Partial<Record<SyncField, Stamp>>;
+  } catch {
+    stamps = {};
+  }
+  const saveStamps = () => {
+    try {
+      localStorage.setItem(storeKey, JSON.stringify(stamps));
+    } catch {
+      // storage full or blocked: stamps then only last for this session
+    }
+  };
+
+  let clock = Math.max(0, ...Object.values(stamps).map((s) => s.t));
+  const tick = (): Stamp => ({ t: (clock = Math.max(clock + 1, Date.now())), by: id });
+  const seen = (s: Stamp) => (clock = Math.max(clock, s.t));
+
+  let status: SyncStatus = { state: "connecting", peers: 0 };
+  const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    opts.onStatus(status);
+  };
+
+  let es: EventSource | null = null;
+  let closed = false;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let flush: ReturnType<typeof setTimeout> | undefined;
+  let pending: SyncChange[] = [];
+
+  const reopen = () => {
+    es?.close();
+    es = null;
+    clearTimeout(retry);
+    if (!closed) retry = setTimeout(open, RETRY_MS);
+  };
+
+  const send = () => {
+    flush = undefined;
+    if (status.state !== "connected" || !pending.length) return;
+    const changes = pending;
+    pending = [];
+    fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ changes }) })
+      .then((r) => {
+        if (!r.ok) throw new Error(`Sync server error (${r.status})`);
+      })
+      .catch(() => {
+        // the stamps are kept, so the next "state" after reconnecting resends them
+        setStatus({ state: "offline" });
+        reopen();
+      });
+  };
+
+  const queue = (changes: SyncChange[]) => {
+    // a later change to a field replaces one still waiting
+    pending = [...pending.filter((p) => !changes.some((c) => c.field === p.field)), ...changes];
+    if (!flush) flush = setTimeout(send, FLUSH_MS);
+  };
+
+  function open() {
+    if (closed) return;
+    setStatus({ state: "connecting" });
+    const source = new EventSource(url);
+    es = source;
+
+    source.addEventListener("state", (e) => {
+      const room = JSON.parse((e as MessageEvent<string>).data) as RoomState;
+      const patch: Record<string, unknown> = {};
+      for (const f of SYNC_FIELDS) {
+        const r = room.fields[f];
+        if (r && newer(r.stamp, stamps[f])) {
+          patch[f] = r.value;
+          stamps[f] = r.stamp;
+          seen(r.stamp);
+        }
+      }
+      if (Object.keys(patch).length) opts.onRemote(patch as SyncPatch);
+
+      // edits the room has not seen: made offline, or before anyone joined. Anything still
+      // queued is superseded by this comparison.
+      pending = [];
+      const mine = opts.current();
+      const out: SyncChange[] = [];
+      for (const f of SYNC_FIELDS) {
+        if (!(f in mine) || f in patch) continue;
+        const r = room.fields[f];
+        const s = stamps[f];
+        if (r && (!s || !newer(s, r.stamp))) continue;
+        stamps[f] = s ?? tick();
+        out.push({ field: f, value: mine[f], stamp: stamps[f] });
+      }
+      saveStamps();
+      setStatus({ state: "connected", peers: room.peers });
+      if (out.length) queue(out);
+    });
+
+    source.addEventListener("change", (e) => {
+      const c = JSON.parse((e as MessageEvent<string>).data) as SyncChange & { from: string };
+      if (c.from === id || !isSyncField(c.field) || !newer(c.stamp, stamps[c.field])) return;
+      stamps[c.field] = c.stamp;
+      seen(c.stamp);
+      saveStamps();
+      opts.onRemote({ [c.field]: c.value } as SyncPatch);
+    });
+
+    source.addEventListener("peers", (e) => {
+      setStatus({ peers: (JSON.parse((e as MessageEvent<string>).data) as { peers: number }).peers });
+    });
+
+    source.onerror = () => {
+      if (closed) return;
+      setStatus({ state: "offline" });
+      // the browser retries dropped streams itself, but gives up on HTTP errors
+      if (source.readyState === EventSource.CLOSED) reopen();
+    };
+  }
+
+  open();
+
+  return {
+    publish(patch) {
+      const changes: SyncChange[] = [];
+      for (const [f, value] of Object.entries(patch)) {
+        if (!isSyncField(f)) continue;
+        stamps[f] = tick();
+        changes.push({ field: f, value, stamp: stamps[f] });
+      }
+      saveStamps();
+      if (changes.length) queue(changes);
+    },
+    close() {
+      closed = true;
+      clearTimeout(retry);
+      clearTimeout(flush);
+      es?.close();
+      es = null;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { isSyncField, newer, type RoomState, type Stamp, type SyncChange } from "./sync";
+
+// In-memory sync rooms behind /api/sync. State lives as long as the server process, which is
+// enough for a laptop at the ICP; after a restart the clients refill a room from their own
+// (newer-stamped) copies.
+
+type Client = { id: string; send(event: string, data: unknown): void };
+type Room = { fields: RoomState["fields"]; clients: Set<Client> };
+
+// on globalThis so dev-mode recompiles of this module keep rooms and open streams together
+const g = globalThis as typeof globalThis & { __k9scSyncRooms?: Map<string, Room> };
+const rooms = (g.__k9scSyncRooms ??= new Map<string, Room>());
+
+function getRoom(name: string) {
+  let room = rooms.get(name);
+  if (!room) {
+    room = { fields: {}, clients: new Set() };
+    rooms.set(name, room);
+  }
+  return room;
+}
+
+function broadcast(room: Room, event: string, data: unknown) {
+  for (const c of room.clients) c.send(event, data);
+}
+
+function validChange(c: unknown): c is SyncChange {
+  if (!c || typeof c !== "object") return false;
+  const { field, stamp } = c as { field?: unknown; stamp?: Partial<Stamp> };
+  return isSyncField(field) && "value" in c && !!stamp && Number.isFinite(stamp.t) && typeof stamp.by === "string";
+}
+
+// sends the room's state to the newcomer; returns the function to call when it disconnects
+export function joinRoom(name: string, client: Client) {
+  const room = getRoom(name);
+  room.clients.add(client);
+  client.send("state", { fields: room.fields, peers: room.clients.size - 1 } satisfies RoomState);
+  broadcast(room, "peers", { peers: room.clients.size - 1 });
+
+  return () => {
+    room.clients.delete(client);
+    broadcast(room, "peers", { peers: room.clients.size - 1 });
+  };
+}
+
+// keeps each change that is newer than the room's copy and passes it on; returns how many were kept
+export function applyChanges(name: string, from: string, changes: unknown[]) {
+  const room = getRoom(name);
+  let kept = 0;
+  for (const c of changes) {
+    if (!validChange(c) || !newer(c.stamp, room.fields[c.field]?.stamp)) continue;
+    room.fields[c.field] = { value: c.value, stamp: { t: c.stamp.t, by: c.stamp.by } };
+    broadcast(room, "change", { field: c.field, value: c.value, stamp: c.stamp, from });
+    kept++;
+  }
+  return kept;
+}
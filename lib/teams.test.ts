@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { destination } from "./geo";
+import { computeScentEnvelope } from "./scentEnvelope";
+import { envelopeSectors } from "./teams";
+
+const lkp = { lat: 40, lon: -105 };
+
+function envelope(barrierAtM?: number, sideM = 200) {
+  const barriers =
+    barrierAtM == null
+      ? []
+      : [
+          {
+            id: "b1",
+            kind: "deflect" as const,
+            label: "Block of trees",
+            points: [45, 135, 225, 315].map((b) => destination(destination(lkp, 79, barrierAtM), b, sideM * Math.SQRT1_2)),
+            closed: true,
+          },
+        ];
+  return computeScentEnvelope({
+    lkp_lat: lkp.lat,
+    lkp_lon: lkp.lon,
+    lkp_time_iso: "2026-01-01T10:00:00Z",
+    now_time_iso: "2026-01-01T12:00:00Z",
+    wind_from_deg: 259,
+    wind_speed_mph: 9,
+    temperature_f: 60,
+    rel_humidity_pct: 50,
+    cloud: "partly",
+    precip: "none",
+    recent_rain: false,
+    terrain: "mixed",
+    stability: "neutral",
+    barriers,
+  });
+}
+
+test("open envelope splits into core plus left/right fringe and residual", () => {
+  const ids = envelopeSectors(envelope().polygons, lkp).map((s) => s.id);
+  assert.deepEqual(ids, ["core", "fringe-left", "fringe-right", "residual-left", "residual-right"]);
+});
+
+test("barrier-clipped envelope still splits into every sector", () => {
+  // a deflecting square on the axis: the pieces it leaves used to trip up the clipper
+  for (const at of [300, 500]) {
+    const ids = envelopeSectors(envelope(at).polygons, lkp).map((s) => s.id);
+    assert.deepEqual(ids, ["core", "fringe-left", "fringe-right", "residual-left", "residual-right"]);
+  }
+});
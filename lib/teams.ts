@@ -0,0 +1,147 @@
+import polygonClipping, { type Polygon } from "polygon-clipping";
+import { uid } from "./incident";
+import type { EnvelopePolys, LatLon, ZoneShape } from "./scentEnvelope";
+import { TEAM_COLORS, type Track } from "./tracks";
+import { bearingDeg, CLIP_GRID_PER_DEG, destination, distanceM, fromMulti, inRing, ringAreaM2, snapToGrid, toMulti, toPolygon } from "./geo";
+
+// K9 team roster and field assignments (the content of an ICS-204). An assignment points at
+// a recommended start point or a sector of the envelope; the location is copied into the
+// assignment so it still shows where the team was sent after the envelope moves on.
+
+export type Team = {
+  id: string;
+  name: string;
+  handler: string;
+  dog: string;
+  callSign: string;
+  color: string;
+};
+
+export type AssignmentStatus = "assigned" | "en_route" | "working" | "returned";
+
+export const ASSIGNMENT_STATUSES: { id: AssignmentStatus; label: string }[] = [
+  { id: "assigned", label: "Assigned" },
+  { id: "en_route", label: "En route" },
+  { id: "working", label: "Working" },
+  { id: "returned", label: "Returned" },
+];
+
+export type SectorId = "core" | "fringe-left" | "fringe-right" | "residual-left" | "residual-right";
+
+export type Sector = { id: SectorId; label: string; polygons: LatLon[][][] };
+
+export type AssignmentTarget =
+  | { kind: "start"; label: string; point: LatLon }
+  | { kind: "sector"; sectorId: SectorId; label: string; polygons: LatLon[][][] };
+
+export type Assignment = {
+  id: string;
+  teamId: string;
+  target: AssignmentTarget;
+  status: AssignmentStatus;
+  history: { status: AssignmentStatus; timeISO: string }[]; // every status change, oldest first
+  notes: string;
+};
+
+export function statusLabel(s: AssignmentStatus) {
+  return ASSIGNMENT_STATUSES.find((x) => x.id === s)?.label ?? s;
+}
+
+// a team keeps the color of its GPS tracks when the names match, otherwise the next free one
+export function colorForNewTeam(name: string, teams: Team[], tracks: Track[]) {
+  const key = name.trim().toLowerCase();
+  const track = tracks.find((t) => t.team.trim().toLowerCase() === key);
+  if (track) return track.color;
+  const used = new Set([...teams.map((t) => t.color), ...tracks.map((t) => t.color)]);
+  return TEAM_COLORS.find((c) => !used.has(c)) ?? TEAM_COLORS[teams.length % TEAM_COLORS.length];
+}
+
+export function newTeam(fields: Omit<Team, "id" | "color">, teams: Team[], tracks: Track[]): Team {
+  return { id: uid("team"), ...fields, color: colorForNewTeam(fields.name, teams, tracks) };
+}
+
+export function newAssignment(teamId: string, target: AssignmentTarget, timeISO = new Date().toISOString()): Assignment {
+  return { id: uid("asg"), teamId, target, status: "assigned", history: [{ status: "assigned", timeISO }], notes: "" };
+}
+
+export function withStatus(a: Assignment, status: AssignmentStatus, timeISO = new Date().toISOString()): Assignment {
+  if (a.status === status) return a;
+  return { ...a, status, history: [...a.history, { status, timeISO }] };
+}
+
+// "Assigned 14:02 • En route 14:10 • Working 14:31"
+export function statusTimeline(a: Assignment) {
+  return a.history
+    .map((h) => `${statusLabel(h.status)} ${new Date(h.timeISO).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`)
+    .join(" • ");
+}
+
+// --- envelope sectors ---
+
+// area centroid (planar; fine at envelope scale), which sits on the axis of a symmetric fan
+function centroid(poly: LatLon[]): LatLon {
+  let a = 0;
+  let x = 0;
+  let y = 0;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const f = poly[j].lon * poly[i].lat - poly[i].lon * poly[j].lat;
+    a += f;
+    x += (poly[j].lon + poly[i].lon) * f;
+    y += (poly[j].lat + poly[i].lat) * f;
+  }
+  return a ? { lat: y / (3 * a), lon: x / (3 * a) } : poly[0];
+}
+
+// everything on one side of the line through the source along the axis, out to reachM.
+// reachM should stay near the envelope's size: over tens of km the great-circle line sags
+// away from the straight lat/lon edge the clipper draws.
+function halfPlane(o: LatLon, axisDeg: number, side: -1 | 1, reachM: number): Polygon {
+  const back = destination(o, axisDeg + 180, reachM);
+  const ahead = destination(o, axisDeg, reachM);
+  return toPolygon([back, o, ahead, destination(ahead, axisDeg + 90 * side, reachM), destination(back, axisDeg + 90 * side, reachM)]);
+}
+
+// Core whole; fringe and residual rings (each minus the zone inside it) split left/right of
+// the downwind axis, as seen looking downwind from the source.
+export function envelopeSectors(env: EnvelopePolys, source: LatLon): Sector[] {
+  if (!env.residual.length) return [];
+  // axis through the area-weighted centroid of the residual's pieces
+  const outlines = env.residual.map((poly) => poly[0]);
+  const weights = outlines.map(ringAreaM2);
+  const total = weights.reduce((s, w) => s + w, 0);
+  const mid = total
+    ? outlines.map(centroid).reduce((m, c, i) => ({ lat: m.lat + (c.lat * weights[i]) / total, lon: m.lon + (c.lon * weights[i]) / total }), { lat: 0, lon: 0 })
+    : centroid(outlines[0]);
+  const axis = bearingDeg(source, mid);
+  const reach = 2 * Math.max(...outlines.flat().map((p) => distanceM(source, p)));
+  const left = halfPlane(source, axis, -1, reach);
+  const right = halfPlane(source, axis, 1, reach);
+
+  const ring = (outer: ZoneShape, inner: ZoneShape) =>
+    inner.length ? snapToGrid(polygonClipping.difference(toMulti(outer), toMulti(inner)), CLIP_GRID_PER_DEG) : toMulti(outer);
+
+  const sector = (id: SectorId, label: string, mp: Polygon[]): Sector => ({ id, label, polygons: fromMulti(mp) });
+
+  const sectors: Sector[] = [];
+  if (env.core.length) sectors.push({ id: "core", label: "Core", polygons: env.core });
+  if (env.fringe.length) {
+    sectors.push(sector("fringe-left", "Fringe (left)", polygonClipping.intersection(ring(env.fringe, env.core), left)));
+    sectors.push(sector("fringe-right", "Fringe (right)", polygonClipping.intersection(ring(env.fringe, env.core), right)));
+  }
+  sectors.push(sector("residual-left", "Residual (left)", polygonClipping.intersection(ring(env.residual, env.fringe), left)));
+  sectors.push(sector("residual-right", "Residual (right)", polygonClipping.intersection(ring(env.residual, env.fringe), right)));
+  return sectors.filter((s) => s.polygons.length);
+}
+
+// where the team's tag goes on the map and the coordinate on its sheet: the start point, or
+// for a sector the centroid of its biggest piece (the nearest edge vertex when a crescent's
+// centroid falls outside it)
+export function targetPoint(t: AssignmentTarget): LatLon | null {
+  if (t.kind === "start") return t.point;
+  const outers = t.polygons.map((poly) => poly[0]).filter((r) => r && r.length >= 3);
+  if (!outers.length) return null;
+  const ring = outers.reduce((a, b) => (ringAreaM2(b) > ringAreaM2(a) ? b : a));
+  const c = centroid(ring);
+  if (inRing(c, ring)) return c;
+  return ring.reduce((a, b) => (distanceM(c, b) < distanceM(c, a) ? b : a));
+}
@@ -0,0 +1,147 @@
+import type { Feature, FeatureCollection, Geometry, Position } from "geojson";
+import { uid } from "./incident";
+import type { LatLon } from "./scentEnvelope";
+import { distanceM, localProjection } from "./geo";
+
+// K9 team GPS tracks (Garmin GPX or GeoJSON lines) for coverage review
+
+export type TrackPoint = LatLon & { timeISO?: string };
+
+export type Track = {
+  id: string;
+  name: string;
+  team: string;
+  color: string;
+  points: TrackPoint[];
+};
+
+// distinct on the light basemap and away from the envelope reds/ambers
+export const TEAM_COLORS = ["#2563eb", "#7c3aed", "#059669", "#db2777", "#0891b2", "#4d7c0f", "#9333ea", "#0f766e"];
+
+// reuse a team's color if it already has a track, otherwise take the next free one
+export function colorForTeam(team: string, existing: Track[]) {
+  const same = existing.find((t) => t.team.trim().toLowerCase() === team.trim().toLowerCase());
+  if (same) return same.color;
+  const used = new Set(existing.map((t) => t.color));
+  return TEAM_COLORS.find((c) => !used.has(c)) ?? TEAM_COLORS[existing.length % TEAM_COLORS.length];
+}
+
+// drop fixes closer than minStepM to the last kept one; handheld units log every second
+function thin(points: TrackPoint[], minStepM = 3) {
+  if (points.length < 3) return points;
+  const out = [points[0]];
+  for (let i = 1; i < points.length - 1; i++) {
+    const a = out[out.length - 1];
+    const p = points[i];
+    const v = localProjection(a).toXY(p);
+    if (Math.hypot(v.x, v.y) >= minStepM) out.push(p);
+  }
+  out.push(points[points.length - 1]);
+  return out;
+}
+
+function validLL(lat: number, lon: number) {
+  return isFinite(lat) && isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+}
+
+type ParsedTrack = { name?: string; points: TrackPoint[] };
+
+function parseGPX(text: string): ParsedTrack[] {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) throw new Error("GPX is not valid XML");
+
+  const childText = (el: Element, tag: string) => el.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+
+  const readPts = (pts: HTMLCollectionOf<Element>) => {
+    const out: TrackPoint[] = [];
+    for (const p of Array.from(pts)) {
+      const lat = parseFloat(p.getAttribute("lat") ?? "");
+      const lon = parseFloat(p.getAttribute("lon") ?? "");
+      if (!validLL(lat, lon)) continue;
+      const time = childText(p, "time");
+      out.push({ lat, lon, timeISO: time && !isNaN(Date.parse(time)) ? new Date(time).toISOString() : undefined });
+    }
+    return out;
+  };
+
+  const tracks: ParsedTrack[] = [];
+
+  // a <trk> can be split into several <trkseg> when the unit lost fix; keep them as one track
+  for (const trk of Array.from(doc.getElementsByTagName("trk"))) {
+    const points = readPts(trk.getElementsByTagName("trkpt"));
+    if (points.length >= 2) tracks.push({ name: childText(trk, "name"), points });
+  }
+
+  // some apps export routes instead of tracks
+  for (const rte of Array.from(doc.getElementsByTagName("rte"))) {
+    const points = readPts(rte.getElementsByTagName("rtept"));
+    if (points.length >= 2) tracks.push({ name: childText(rte, "name"), points });
+  }
+
+  return tracks;
+}
+
+function lineParts(g: Geometry | null | undefined): Position[][] {
+  if (!g) return [];
+  if (g.type === "LineString") return [g.coordinates];
+  if (g.type === "MultiLineString") return g.coordinates;
+  if (g.type === "GeometryCollection") return g.geometries.flatMap(lineParts);
+  return [];
+}
+
+function parseTrackGeoJSON(js: unknown): ParsedTrack[] {
+  const obj = js as { type?: string; features?: unknown } | null;
+  const features: Feature[] =
+    obj?.type === "FeatureCollection" && Array.isArray(obj.features)
+      ? (obj as FeatureCollection).features
+      : obj?.type === "Feature"
+        ? [obj as Feature]
+        : [];
+  if (!features.length) throw new Error("Not a GeoJSON Feature or FeatureCollection");
+
+  const tracks: ParsedTrack[] = [];
+  for (const f of features) {
+    const props = (f.properties ?? {}) as Record<string, unknown>;
+    // GPX->GeoJSON converters put per-point times here
+    const times = (props.coordinateProperties as { times?: unknown } | undefined)?.times;
+    const name = typeof props.name === "string" ? props.name : typeof props.team === "string" ? props.team : undefined;
+
+    const points: TrackPoint[] = [];
+    lineParts(f.geometry).forEach((part, pi) => {
+      part.forEach(([lon, lat], i) => {
+        if (!validLL(lat, lon)) return;
+        const t = Array.isArray(times) ? (Array.isArray(times[pi]) ? times[pi][i] : times[i]) : undefined;
+        points.push({ lat, lon, timeISO: typeof t === "string" && !isNaN(Date.parse(t)) ? new Date(t).toISOString() : undefined });
+      });
+    });
+    if (points.length >= 2) tracks.push({ name, points });
+  }
+  return tracks;
+}
+
+// Parse a .gpx or .geojson/.json file into tracks; team defaults to the track name or file name
+export function parseTrackFile(fileName: string, text: string, existing: Track[]): Track[] {
+  const isGpx = /\.gpx$/i.test(fileName) || text.trimStart().startsWith("<");
+  const parsed = isGpx ? parseGPX(text) : parseTrackGeoJSON(JSON.parse(text));
+  if (!parsed.length) throw new Error("No track lines found in file");
+
+  const base = fileName.replace(/\.[^.]+$/, "");
+  const out: Track[] = [];
+  for (const p of parsed) {
+    const team = p.name?.trim() || base;
+    out.push({
+      id: uid("trk"),
+      name: p.name?.trim() || base,
+      team,
+      color: colorForTeam(team, [...existing, ...out]),
+      points: thin(p.points),
+    });
+  }
+  return out;
+}
+
+export function trackLengthM(t: Track) {
+  let d = 0;
+  for (let i = 1; i < t.points.length; i++) d += distanceM(t.points[i - 1], t.points[i]);
+  return d;
+}
@@ -0,0 +1,129 @@
+import { inShape, localProjection, type XY } from "./geo";
+import type { EnvelopePolys, LatLon, ZoneShape } from "./scentEnvelope";
+
+// Typed terrain traps: features where scent pools or collects.
+// Linear features (tree line, wall, water edge) catch the most when they lie across the wind.
+
+export type TrapType = "drainage" | "tree_line" | "wall" | "ravine" | "water_edge" | "brush" | "other";
+
+export type TrapTypeInfo = {
+  label: string;
+  symbol: string; // glyph drawn in the map marker
+  color: string;
+  defaultRadiusM: number;
+  weight: number; // how strongly it collects scent, 0-1
+  linear: boolean; // has an orientation that matters relative to the wind
+};
+
+export const TRAP_TYPES: Record<TrapType, TrapTypeInfo> = {
+  drainage: { label: "Drainage", symbol: "D", color: "#0369a1", defaultRadiusM: 40, weight: 0.95, linear: false },
+  tree_line: { label: "Tree line", symbol: "T", color: "#15803d", defaultRadiusM: 60, weight: 0.8, linear: true },
+  wall: { label: "Wall / building", symbol: "W", color: "#57534e", defaultRadiusM: 25, weight: 0.85, linear: true },
+  ravine: { label: "Ravine", symbol: "R", color: "#7c2d12", defaultRadiusM: 50, weight: 1.0, linear: false },
+  water_edge: { label: "Water edge", symbol: "~", color: "#0e7490", defaultRadiusM: 60, weight: 0.75, linear: true },
+  brush: { label: "Thick brush", symbol: "B", color: "#4d7c0f", defaultRadiusM: 30, weight: 0.7, linear: false },
+  other: { label: "Other", symbol: "!", color: "#b45309", defaultRadiusM: 25, weight: 0.5, linear: false },
+};
+
+export const TRAP_TYPE_ORDER: TrapType[] = ["drainage", "tree_line", "wall", "ravine", "water_edge", "brush", "other"];
+
+export type TrapInput = {
+  id: string;
+  lat: number;
+  lon: number;
+  label: string;
+  type?: TrapType;
+  radiusM?: number;
+  orientationDeg?: number; // bearing of the feature's long axis, 0-180
+};
+
+export type TrapZone = keyof EnvelopePolys | "near";
+
+export type TrapFlag = {
+  id: string;
+  label: string;
+  type: TrapType;
+  zone: TrapZone;
+  score: number; // 0-100, higher = check first
+  distance_m: number; // from LKP
+  bearing_deg: number; // from LKP
+};
+
+// how far outside the residual zone a trap still counts (on top of its own radius)
+const NEAR_BUFFER_M = 75;
+
+const ZONE_WEIGHT: Record<TrapZone, number> = { core: 1, fringe: 0.7, residual: 0.45, near: 0.25 };
+
+// nearest outline or hole edge of any piece
+function distToEdge(p: XY, shape: XY[][][]) {
+  let best = Infinity;
+  for (const ring of shape.flat()) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[j];
+      const b = ring[i];
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+      best = Math.min(best, Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)));
+    }
+  }
+  return best;
+}
+
+export function trapType(t: TrapInput): TrapType {
+  return t.type ?? "other";
+}
+
+export function trapRadiusM(t: TrapInput) {
+  return t.radiusM ?? TRAP_TYPES[trapType(t)].defaultRadiusM;
+}
+
+// Flag traps inside (or just outside) the envelope zones as likely pooling/collection points,
+// ranked for the "traps to check" list.
+export function flagTraps(traps: TrapInput[], polygons: EnvelopePolys, lkp: LatLon, windFromDeg: number): TrapFlag[] {
+  const { toXY } = localProjection(lkp);
+  const project = (shape: ZoneShape) => shape.map((poly) => poly.map((ring) => ring.map(toXY)));
+  const zones = { core: project(polygons.core), fringe: project(polygons.fringe), residual: project(polygons.residual) };
+
+  const out: TrapFlag[] = [];
+  for (const t of traps) {
+    const p = toXY(t);
+    const type = trapType(t);
+    const info = TRAP_TYPES[type];
+    const r = trapRadiusM(t);
+
+    // a trap counts for the innermost zone its footprint reaches
+    let zone: TrapZone | null = null;
+    for (const z of ["core", "fringe", "residual"] as const) {
+      if (inShape(p, zones[z]) || distToEdge(p, zones[z]) <= r) { zone = z; break; }
+    }
+    if (!zone && distToEdge(p, zones.residual) <= r + NEAR_BUFFER_M) zone = "near";
+    if (!zone) continue;
+
+    // linear features: 1 when lying across the wind, 0.6 when parallel to it
+    let across = 1;
+    if (info.linear && t.orientationDeg != null) {
+      across = 0.6 + 0.4 * Math.abs(Math.sin(((t.orientationDeg - windFromDeg) * Math.PI) / 180));
+    }
+
+    const dist = Math.hypot(p.x, p.y);
+    out.push({
+      id: t.id,
+      label: t.label,
+      type,
+      zone,
+      score: Math.round(100 * ZONE_WEIGHT[zone] * info.weight * across),
+      distance_m: dist,
+      bearing_deg: ((Math.atan2(p.x, p.y) * 180) / Math.PI + 360) % 360,
+    });
+  }
+
+  // highest score first; closer to the LKP breaks ties
+  return out.sort((a, b) => b.score - a.score || a.distance_m - b.distance_m);
+}
+
+export function cardinal(deg: number) {
+  const dirs = ["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE", "S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"];
+  return dirs[Math.round((((deg % 360) + 360) % 360) / 22.5) % 16];
+}
@@ -0,0 +1,58 @@
+import { mpsToMph, mphToMps } from "./cone";
+
+// Display units. The model works in metres and m/s (wind input in mph); these only convert
+// for the panel, popups and exports.
+
+export type UnitSystem = "imperial" | "metric";
+
+export const UNIT_SYSTEMS: { id: UnitSystem; label: string }[] = [
+  { id: "imperial", label: "Imperial (mph, ft, mi, ac)" },
+  { id: "metric", label: "Metric (m/s, m, km, ha)" },
+];
+
+const M_PER_FT = 0.3048;
+const M_PER_MI = 1609.344;
+const M2_PER_ACRE = 4046.8564224;
+
+export function speedUnit(units: UnitSystem) {
+  return units === "metric" ? "m/s" : "mph";
+}
+
+// speed in the chosen unit <-> m/s (for wind entry)
+export function speedFromMps(mps: number, units: UnitSystem) {
+  return units === "metric" ? mps : mpsToMph(mps);
+}
+
+export function speedToMps(v: number, units: UnitSystem) {
+  return units === "metric" ? v : mphToMps(v);
+}
+
+export function formatSpeed(mps: number, units: UnitSystem, digits = 1) {
+  return `${speedFromMps(mps, units).toFixed(digits)} ${speedUnit(units)}`;
+}
+
+// short lengths (radii, widths, ranges) in m or ft
+export function lengthUnit(units: UnitSystem) {
+  return units === "metric" ? "m" : "ft";
+}
+
+export function lengthFromM(m: number, units: UnitSystem) {
+  return units === "metric" ? m : m / M_PER_FT;
+}
+
+export function lengthToM(v: number, units: UnitSystem) {
+  return units === "metric" ? v : v * M_PER_FT;
+}
+
+// distances switch to km / mi once they get long
+export function formatDistance(m: number, units: UnitSystem) {
+  if (units === "metric") return m < 1000 ? `${Math.round(m)} m` : `${(m / 1000).toFixed(2)} km`;
+  const ft = m / M_PER_FT;
+  return ft < 1000 ? `${Math.round(ft)} ft` : `${(m / M_PER_MI).toFixed(2)} mi`;
+}
+
+export function formatArea(m2: number, units: UnitSystem) {
+  if (units === "metric") return m2 < 10_000 ? `${Math.round(m2)} m²` : `${(m2 / 10_000).toFixed(2)} ha`;
+  const ac = m2 / M2_PER_ACRE;
+  return ac < 1 ? `${Math.round(m2 / (M_PER_FT * M_PER_FT))} ft²` : `${ac.toFixed(2)} ac`;
+}
@@ -0,0 +1,89 @@
+// Weather provider contract shared by /api/wind and /api/conditions.
+// Client-safe: no server-only imports here (see weatherProviders.ts for the registry).
+
+export type WeatherProviderId = "open-meteo" | "stub" | "station";
+
+export const WEATHER_PROVIDER_OPTIONS: { id: WeatherProviderId; label: string }[] = [
+  { id: "open-meteo", label: "Open-Meteo" },
+  { id: "stub", label: "Offline stub (training)" },
+  { id: "station", label: "Local weather station" },
+];
+
+// Which source produced a result, so exports can cite it
+export type ProviderMeta = {
+  provider: WeatherProviderId;
+  model: string;
+  timezone?: string;
+  utc_offset_seconds?: number;
+};
+
+// One hourly (or current) wind value, UTC
+export type WindPoint = {
+  time_utc: string;
+  wind_speed_mps: number;
+  wind_dir_from_deg: number; // meteorological "from"
+  gust_mps?: number;
+};
+
+export type WindCurrent = ProviderMeta & WindPoint & { time_local?: string };
+export type WindSeries = ProviderMeta & { series: WindPoint[] };
+
+export type ConditionsHour = {
+  time_utc: string;
+  temperature_f: number;
+  rel_humidity_pct: number;
+  cloud_cover_pct: number;
+  precip_mm: number;
+};
+
+export type ConditionsSeries = ProviderMeta & { hours: ConditionsHour[] };
+
+export interface WeatherProvider {
+  id: WeatherProviderId;
+  label: string;
+
+  // how far behind real time `historical` data becomes available
+  archiveLagDays: number;
+
+  current(lat: number, lon: number): Promise<WindCurrent>;
+  // forecast-model hours covering [fromMs, toMs] (recent past through forecast horizon)
+  hourlySeries(lat: number, lon: number, fromMs: number, toMs: number): Promise<WindSeries>;
+  // reanalysis/archive hours covering [fromMs, toMs]
+  historical(lat: number, lon: number, fromMs: number, toMs: number): Promise<WindSeries>;
+  conditions(lat: number, lon: number, fromMs: number, toMs: number, opts: { historical: boolean }): Promise<ConditionsSeries>;
+}
+
+export function isProviderId(v: unknown): v is WeatherProviderId {
+  return WEATHER_PROVIDER_OPTIONS.some((o) => o.id === v);
+}
+
+export function providerLabel(id: WeatherProviderId | string | undefined) {
+  return WEATHER_PROVIDER_OPTIONS.find((o) => o.id === id)?.label ?? id ?? "unknown";
+}
+
+export function nearestIndex(timesMs: number[], targetMs: number) {
+  let best = 0;
+  let bestDiff = Infinity;
+  for (let i = 0; i < timesMs.length; i++) {
+    const d = Math.abs(timesMs[i] - targetMs);
+    if (d < bestDiff) { bestDiff = d; best = i; }
+  }
+  return best;
+}
+
+// keep hours inside the window plus one hour of padding either side
+export function clipToWindow<T extends { time_utc: string }>(rows: T[], fromMs: number, toMs: number) {
+  const lo = fromMs - 3_600_000;
+  const hi = toMs + 3_600_000;
+  return rows.filter((r) => {
+    const t = Date.parse(r.time_utc);
+    return t >= lo && t <= hi;
+  });
+}
+
+export function isoDateUTC(d: Date) {
+  const yyyy = d.getUTCFullYear();
+  const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(d.getUTCDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
@@ -0,0 +1,27 @@
+// Server-side provider registry (imports fs via the local providers; do not import from components)
+import { openMeteoProvider } from "./openMeteoProvider";
+import { stationProvider, stubProvider } from "./localWeatherProviders";
+import { isProviderId, type WeatherProvider, type WeatherProviderId } from "./weatherProvider";
+
+const PROVIDERS: Record<WeatherProviderId, WeatherProvider> = {
+  "open-meteo": openMeteoProvider,
+  stub: stubProvider,
+  station: stationProvider,
+};
+
+// request value wins, then WEATHER_PROVIDER env, then Open-Meteo
+export function getWeatherProvider(requested?: unknown): WeatherProvider {
+  if (requested != null && requested !== "") {
+    if (!isProviderId(requested)) throw new Error(`Unknown weather provider: ${String(requested)}`);
+    return PROVIDERS[requested];
+  }
+  const env = process.env.WEATHER_PROVIDER;
+  if (isProviderId(env)) return PROVIDERS[env];
+  return openMeteoProvider;
+}
+
+// pick forecast vs archive for an arbitrary window
+export function windowSeries(p: WeatherProvider, lat: number, lon: number, fromMs: number, toMs: number) {
+  const useArchive = toMs < Date.now() - p.archiveLagDays * 86_400_000;
+  return useArchive ? p.historical(lat, lon, fromMs, toMs) : p.hourlySeries(lat, lon, fromMs, toMs);
+}
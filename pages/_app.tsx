@@ -1,7 +1,13 @@
 import type { AppProps } from "next/app";
+import { useEffect } from "react";
+import { registerServiceWorker } from "@/lib/pwa";
 import "leaflet/dist/leaflet.css";
 import "@/styles/globals.css";
 
 export default function App({ Component, pageProps }: AppProps) {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   return <Component {...pageProps} />;
 }
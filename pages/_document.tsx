@@ -3,7 +3,11 @@ import { Html, Head, Main, NextScript } from "next/document";
 export default function Document() {
   return (
     <Html lang="en">
-      <Head />
+      <Head>
+        <link rel="manifest" href="/manifest.json" />
+        <link rel="apple-touch-icon" href="/apple-touch-icon-v2.png" />
+        <meta name="theme-color" content="#0b1220" />
+      </Head>
       <body className="antialiased">
         <Main />
         <NextScript />
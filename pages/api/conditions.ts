@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { buildConditions } from "@/lib/conditions";
+import { isProviderId, nearestIndex, WEATHER_PROVIDER_OPTIONS } from "@/lib/weatherProvider";
+import { getWeatherProvider } from "@/lib/weatherProviders";
+
+type Mode = "current" | "historical";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== "POST") return res.status(405).json({ error: "Use POST" });
+
+    const { lat, lon, mode, time_iso, rain_hours, provider } = req.body as {
+      lat: number;
+      lon: number;
+      mode?: Mode;
+      time_iso?: string;
+      rain_hours?: number;
+      provider?: string;
+    };
+
+    if (typeof lat !== "number" || typeof lon !== "number") {
+      return res.status(400).json({ error: "lat/lon required" });
+    }
+    if (provider != null && provider !== "" && !isProviderId(provider)) {
+      return res.status(400).json({ error: `Unknown provider; use one of ${WEATHER_PROVIDER_OPTIONS.map((o) => o.id).join(", ")}` });
+    }
+
+    const m: Mode = mode || "current";
+    const hours = Math.max(1, Math.min(48, Math.round(rain_hours ?? 6)));
+
+    let target = Date.now();
+    if (m === "historical") {
+      if (!time_iso) return res.status(400).json({ error: "time_iso required for historical" });
+      target = Date.parse(time_iso);
+      if (isNaN(target)) return res.status(400).json({ error: "Invalid time_iso" });
+    }
+
+    const p = getWeatherProvider(provider);
+    const historical = m === "historical" && target < Date.now() - p.archiveLagDays * 86_400_000;
+    const data = await p.conditions(lat, lon, target - hours * 3_600_000, target, { historical });
+
+    // nearest hour to the target time, plus rain in the N hours before it
+    const best = nearestIndex(data.hours.map((h) => Date.parse(h.time_utc)), target);
+    const at = data.hours[best];
+    const bestMs = Date.parse(at.time_utc);
+    const windowMm = data.hours
+      .filter((h) => {
+        const t = Date.parse(h.time_utc);
+        return t < bestMs && t >= bestMs - hours * 3_600_000;
+      })
+      .reduce((acc, h) => acc + h.precip_mm, 0);
+
+    const out = buildConditions({
+      temperature_f: at.temperature_f,
+      rel_humidity_pct: at.rel_humidity_pct,
+      cloud_cover_pct: at.cloud_cover_pct,
+      precip_mm: at.precip_mm,
+      window_precip_mm: windowMm,
+      rain_hours: hours,
+    });
+
+    return res.status(200).json({
+      ...out,
+      time_utc: at.time_utc,
+      timezone: data.timezone,
+      utc_offset_seconds: data.utc_offset_seconds,
+      provider: data.provider,
+      model: data.model,
+    });
+  } catch (e: unknown) {
+    return res.status(500).json({ error: e instanceof Error ? e.message : "Server error" });
+  }
+}
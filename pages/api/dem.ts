@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { demConfigured, loadDemGrid } from "@/lib/demSource";
+
+// Elevation grid around a point from the local DEM (see lib/demSource.ts for configuration)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== "POST") return res.status(405).json({ error: "Use POST" });
+
+    const { lat, lon, radius_m } = req.body as { lat: number; lon: number; radius_m?: number };
+    if (typeof lat !== "number" || typeof lon !== "number") {
+      return res.status(400).json({ error: "lat/lon required" });
+    }
+    if (!demConfigured()) return res.status(404).json({ error: "No local DEM configured on the server" });
+
+    const r = Math.max(250, Math.min(10_000, radius_m ?? 2500));
+    const dLat = r / 111_320;
+    const dLon = r / (111_320 * Math.cos((lat * Math.PI) / 180));
+    const grid = await loadDemGrid({ west: lon - dLon, south: lat - dLat, east: lon + dLon, north: lat + dLat });
+
+    // JSON has no NaN; no-data cells go out as null
+    return res.status(200).json({ ...grid, elev: grid.elev.map((v) => (isFinite(v) ? Math.round(v * 10) / 10 : null)) });
+  } catch (e: unknown) {
+    return res.status(500).json({ error: e instanceof Error ? e.message : "Server error" });
+  }
+}
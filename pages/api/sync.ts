@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { validRoom } from "@/lib/sync";
+import { applyChanges, joinRoom } from "@/lib/syncHub";
+
+// Live incident sync between devices on one server (e.g. a laptop on the ICP Wi-Fi); see lib/sync.ts
+//   GET  /api/sync?room=…&client=…   event stream: "state" on connect, then "change" and "peers"
+//   POST /api/sync?room=…&client=…   { changes: SyncChange[] }; the room keeps the newest of each field
+export const config = { api: { bodyParser: { sizeLimit: "4mb" }, externalResolver: true } };
+
+const PING_MS = 25_000; // keeps proxies and phones from closing an idle stream
+
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    // copies of the app served from elsewhere (or installed offline) connect cross-origin
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    if (req.method === "OPTIONS") {
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      return res.status(204).end();
+    }
+
+    const room = String(req.query.room ?? "");
+    const client = String(req.query.client ?? "");
+    if (!validRoom(room) || !client) return res.status(400).json({ error: "room (letters, digits, - or _) and client required" });
+
+    if (req.method === "POST") {
+      const changes = (req.body as { changes?: unknown } | undefined)?.changes;
+      if (!Array.isArray(changes)) return res.status(400).json({ error: "changes[] required" });
+      return res.status(200).json({ kept: applyChanges(room, client, changes) });
+    }
+    if (req.method !== "GET") return res.status(405).json({ error: "Use GET or POST" });
+
+    // no-transform keeps the response compressor from buffering the stream
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    const leave = joinRoom(room, {
+      id: client,
+      send: (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+    });
+    const ping = setInterval(() => res.write(": ping\n\n"), PING_MS);
+    req.on("close", () => {
+      clearInterval(ping);
+      leave();
+    });
+  } catch (e: unknown) {
+    if (!res.headersSent) res.status(500).json({ error: e instanceof Error ? e.message : "Server error" });
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { localTilesConfigured, localTilesInfo, readLocalTile } from "@/lib/localTiles";
+
+// Local basemap (see lib/localTiles.ts for configuration)
+//   GET /api/tiles          what the file holds (name, zooms, bounds); 404 when none is configured
+//   GET /api/tiles/z/x/y    one raster tile, XYZ addressing
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    if (req.method !== "GET") return res.status(405).json({ error: "Use GET" });
+    if (!localTilesConfigured()) return res.status(404).json({ error: "No local tiles configured on the server" });
+
+    const parts = ([] as string[]).concat(req.query.zxy ?? []);
+    if (parts.length === 0) return res.status(200).json(await localTilesInfo());
+
+    const [z, x, y] = parts.map((p) => Number(p.replace(/\.\w+$/, "")));
+    if (parts.length !== 3 || ![z, x, y].every(Number.isInteger)) return res.status(400).json({ error: "Use /api/tiles/{z}/{x}/{y}" });
+
+    const tile = await readLocalTile(z, x, y);
+    if (!tile) return res.status(404).end();
+    res.setHeader("Content-Type", tile.contentType);
+    res.setHeader("Cache-Control", "public, max-age=86400");
+    return res.status(200).send(tile.data);
+  } catch (e: unknown) {
+    return res.status(500).json({ error: e instanceof Error ? e.message : "Server error" });
+  }
+}
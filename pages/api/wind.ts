@@ -1,140 +1,116 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getWeatherProvider, windowSeries } from "@/lib/weatherProviders";
+import { isProviderId, nearestIndex, WEATHER_PROVIDER_OPTIONS, type WindCurrent, type WindSeries } from "@/lib/weatherProvider";
 
-type Mode = "current" | "hourly" | "historical";
+type Mode = "current" | "hourly" | "historical" | "series" | "window";
+
+// provider-local wall time ("YYYY-MM-DDTHH:mm") for display
+function localTime(timeUtc: string, offsetSec?: number) {
+  if (offsetSec == null) return undefined;
+  return new Date(Date.parse(timeUtc) + offsetSec * 1000).toISOString().slice(0, 16);
+}
+
+// single sample in the WindData shape (wind_from_deg kept for older clients)
+function singleResponse(w: WindCurrent) {
+  return {
+    wind_from_deg: w.wind_dir_from_deg,
+    wind_dir_from_deg: w.wind_dir_from_deg,
+    wind_speed_mps: w.wind_speed_mps,
+    gust_mps: w.gust_mps,
+    time_utc: w.time_utc,
+    time_local: w.time_local ?? localTime(w.time_utc, w.utc_offset_seconds),
+    timezone: w.timezone,
+    utc_offset_seconds: w.utc_offset_seconds,
+    provider: w.provider,
+    model: w.model,
+  };
+}
+
+function nearestSample(s: WindSeries, targetMs: number): WindCurrent {
+  const i = nearestIndex(s.series.map((p) => Date.parse(p.time_utc)), targetMs);
+  const { series, ...meta } = s;
+  return { ...meta, ...series[i] };
+}
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   try {
     if (req.method !== "POST") return res.status(405).json({ error: "Use POST" });
 
-    const { lat, lon, mode, time_iso } = req.body as {
+    const { lat, lon, mode, time_iso, from_iso, to_iso, provider, hours_back, hours_ahead } = req.body as {
       lat: number;
       lon: number;
       mode: Mode;
       time_iso?: string;
+      from_iso?: string;
+      to_iso?: string;
+      provider?: string;
+      hours_back?: number;
+      hours_ahead?: number;
     };
 
     if (typeof lat !== "number" || typeof lon !== "number") {
       return res.status(400).json({ error: "lat/lon required" });
     }
+    if (provider != null && provider !== "" && !isProviderId(provider)) {
+      return res.status(400).json({ error: `Unknown provider; use one of ${WEATHER_PROVIDER_OPTIONS.map((o) => o.id).join(", ")}` });
+    }
 
+    const p = getWeatherProvider(provider);
     const m: Mode = mode || "current";
 
-    // Current wind
     if (m === "current") {
-      const url =
-        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}` +
-        `&current=wind_speed_10m,wind_direction_10m&timezone=auto`;
-      const r = await fetch(url);
-      const js = await r.json();
-
-      const ws = js?.current?.wind_speed_10m;
-      const wd = js?.current?.wind_direction_10m;
-      if (ws == null || wd == null) return res.status(500).json({ error: "Open-Meteo missing current wind" });
-
-      // Open-Meteo returns km/h for current wind_speed_10m (forecast API)
-      const mph = ws * 0.621371;
-      const mps = mph / 2.236936;
-
-      return res.status(200).json({
-        wind_from_deg: wd,
-        wind_speed_mps: mps,
-        time_local: js?.current?.time,
-        timezone: js?.timezone,
-        utc_offset_seconds: js?.utc_offset_seconds,
-      });
+      return res.status(200).json(singleResponse(await p.current(lat, lon)));
     }
 
     // Hourly wind (pick nearest hour to now)
     if (m === "hourly") {
-      const url =
-        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}` +
-        `&hourly=wind_speed_10m,wind_direction_10m&timezone=auto`;
-      const r = await fetch(url);
-      const js = await r.json();
-
-      const times: string[] = js?.hourly?.time || [];
-      const spd: number[] = js?.hourly?.wind_speed_10m || [];
-      const dir: number[] = js?.hourly?.wind_direction_10m || [];
-
-      if (!times.length) return res.status(500).json({ error: "Open-Meteo missing hourly" });
-
       const now = Date.now();
-      let best = 0;
-      let bestDiff = Infinity;
-
-      for (let i = 0; i < times.length; i++) {
-        const t = Date.parse(times[i]);
-        const d = Math.abs(t - now);
-        if (d < bestDiff) { bestDiff = d; best = i; }
-      }
-
-      const ws = spd[best];
-      const wd = dir[best];
-
-      // wind_speed_10m hourly is km/h
-      const mph = ws * 0.621371;
-      const mps = mph / 2.236936;
-
-      return res.status(200).json({
-        wind_from_deg: wd,
-        wind_speed_mps: mps,
-        time_local: times[best],
-        timezone: js?.timezone,
-        utc_offset_seconds: js?.utc_offset_seconds,
-      });
+      const s = await p.hourlySeries(lat, lon, now - 3_600_000, now + 3_600_000);
+      return res.status(200).json(singleResponse(nearestSample(s, now)));
     }
 
-    // Historical: archive API expects date range; we use the same date for start/end
+    // Historical: nearest hour to the provided time
     if (m === "historical") {
       if (!time_iso) return res.status(400).json({ error: "time_iso required for historical" });
+      const t = Date.parse(time_iso);
+      if (isNaN(t)) return res.status(400).json({ error: "Invalid time_iso" });
+
+      const s = await windowSeries(p, lat, lon, t, t);
+      return res.status(200).json(singleResponse(nearestSample(s, t)));
+    }
 
-      const d = new Date(time_iso);
-      if (isNaN(d.getTime())) return res.status(400).json({ error: "Invalid time_iso" });
-
-      const yyyy = d.getUTCFullYear();
-      const mm = String(d.getUTCMonth() + 1).padStart(2, "0");
-      const dd = String(d.getUTCDate()).padStart(2, "0");
-      const date = `${yyyy}-${mm}-${dd}`;
-
-      const url =
-        `https://archive-api.open-meteo.com/v1/archive?latitude=${lat}&longitude=${lon}` +
-        `&start_date=${date}&end_date=${date}&hourly=wind_speed_10m,wind_direction_10m&timezone=auto`;
-
-      const r = await fetch(url);
-      const js = await r.json();
-
-      const times: string[] = js?.hourly?.time || [];
-      const spd: number[] = js?.hourly?.wind_speed_10m || [];
-      const dir: number[] = js?.hourly?.wind_direction_10m || [];
-      if (!times.length) return res.status(500).json({ error: "Open-Meteo archive missing hourly" });
-
-      // choose nearest hour to provided time
-      const target = d.getTime();
-      let best = 0;
-      let bestDiff = Infinity;
-      for (let i = 0; i < times.length; i++) {
-        const t = Date.parse(times[i]);
-        const diff = Math.abs(t - target);
-        if (diff < bestDiff) { bestDiff = diff; best = i; }
-      }
-
-      const ws = spd[best];
-      const wd = dir[best];
-      const mph = ws * 0.621371;
-      const mps = mph / 2.236936;
-
-      return res.status(200).json({
-        wind_from_deg: wd,
-        wind_speed_mps: mps,
-        time_local: times[best],
-        timezone: js?.timezone,
-        utc_offset_seconds: js?.utc_offset_seconds,
-        model: "open-meteo-archive",
+    // Series: every hour between from_iso and to_iso (UTC), for the time-varying envelope
+    if (m === "series") {
+      if (!from_iso || !to_iso) return res.status(400).json({ error: "from_iso and to_iso required for series" });
+      const from = Date.parse(from_iso);
+      const to = Date.parse(to_iso);
+      if (isNaN(from) || isNaN(to) || to <= from) return res.status(400).json({ error: "Invalid from_iso/to_iso" });
+
+      return res.status(200).json(await windowSeries(p, lat, lon, from, to));
+    }
+
+    // Window: hourly speed/direction/gusts around a center time (default now) for the timeline strip
+    if (m === "window") {
+      const center = time_iso ? Date.parse(time_iso) : Date.now();
+      if (isNaN(center)) return res.status(400).json({ error: "Invalid time_iso" });
+
+      const back = Math.max(0, Math.min(72, Math.round(hours_back ?? 12)));
+      const ahead = Math.max(0, Math.min(72, Math.round(hours_ahead ?? 12)));
+      const from = center - back * 3_600_000;
+      const to = center + ahead * 3_600_000;
+
+      // a window straddling "now" always needs the forecast model for its future half
+      const s = to > Date.now() ? await p.hourlySeries(lat, lon, from, to) : await windowSeries(p, lat, lon, from, to);
+      const series = s.series.filter((w) => {
+        const t = Date.parse(w.time_utc);
+        return t >= from - 1_800_000 && t <= to + 1_800_000;
       });
+
+      return res.status(200).json({ ...s, series, center_utc: new Date(center).toISOString() });
     }
 
     return res.status(400).json({ error: "Invalid mode" });
-  } catch (e: any) {
-    return res.status(500).json({ error: e?.message || "Server error" });
+  } catch (e: unknown) {
+    return res.status(500).json({ error: e instanceof Error ? e.message : "Server error" });
   }
 }
@@ -1,16 +1,78 @@
-const CACHE = "scent-cone-v1";
-const ASSETS = ["/", "/manifest.json", "/favicon.ico"];
+// App shell + offline basemap tiles. Registered from pages/_app.tsx (production builds only).
+const SHELL_CACHE = "k9sc-shell-v2";
+const TILE_CACHE = "k9sc-tiles"; // filled by lib/offlineTiles.ts; never versioned away
+const SHELL_ASSETS = ["/", "/manifest.json", "/favicon.ico", "/icon-192.png", "/icon-512.png", "/apple-touch-icon-v2.png"];
 
 self.addEventListener("install", (e) => {
-  e.waitUntil(caches.open(CACHE).then((c) => c.addAll(ASSETS)));
+  e.waitUntil(caches.open(SHELL_CACHE).then((c) => c.addAll(SHELL_ASSETS)).then(() => self.skipWaiting()));
 });
 
 self.addEventListener("activate", (e) => {
-  e.waitUntil(self.clients.claim());
+  e.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== SHELL_CACHE && k !== TILE_CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
 });
 
+// same rule as tileKey() in lib/offlineTiles.ts: drop the a./b./c. load-balancing subdomain
+function tileKey(url) {
+  return url.replace(/^(https?:\/\/)[a-d]\./, "$1");
+}
+
 self.addEventListener("fetch", (e) => {
+  const req = e.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+
+  // live sync streams, on this server or another one
+  if (url.pathname.startsWith("/api/sync")) return;
+
+  // map tiles: a downloaded area first, then the network. fetch() requests (destination "") are
+  // included because PNG exports re-fetch the tiles on screen, with a cache-busting query.
+  if (url.origin !== self.location.origin) {
+    if (req.destination !== "image" && req.destination !== "") return;
+    e.respondWith(
+      caches
+        .open(TILE_CACHE)
+        .then((c) => c.match(tileKey(req.url), { ignoreSearch: true }))
+        .then((hit) => hit || fetch(req))
+    );
+    return;
+  }
+
+  // live data (wind, conditions, DEM) is never served stale
+  if (url.pathname.startsWith("/api/")) return;
+
+  // hashed build assets never change: cache first
+  if (url.pathname.startsWith("/_next/static/")) {
+    e.respondWith(
+      caches.match(req).then(
+        (hit) =>
+          hit ||
+          fetch(req).then((res) => {
+            if (res.ok) {
+              const copy = res.clone();
+              caches.open(SHELL_CACHE).then((c) => c.put(req, copy));
+            }
+            return res;
+          })
+      )
+    );
+    return;
+  }
+
+  // pages and other files: network first so updates land, cache when offline
   e.respondWith(
-    caches.match(e.request).then((cached) => cached || fetch(e.request).catch(() => cached))
+    fetch(req)
+      .then((res) => {
+        if (res.ok) {
+          const copy = res.clone();
+          caches.open(SHELL_CACHE).then((c) => c.put(req, copy));
+        }
+        return res;
+      })
+      .catch(() => caches.match(req).then((hit) => hit || (req.mode === "navigate" ? caches.match("/") : Response.error())))
   );
 });